@@ -1,10 +1,11 @@
-import { db, GeminiProvider } from "@devops-guardian/shared";
+import { db, LLMProvider } from "@devops-guardian/shared";
 
+// Memories are shared across projects, so they always use the server's embedding model
 export class MemoryAgent {
-  private gemini: GeminiProvider;
+  private llm: LLMProvider;
 
-  constructor(gemini: GeminiProvider) {
-    this.gemini = gemini;
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
   }
 
   /**
@@ -13,7 +14,7 @@ export class MemoryAgent {
   async storeMemory(content: string, type: "POSITIVE" | "NEGATIVE", tags: string[] = []) {
     try {
       console.log(`[Memory] Storing ${type} memory...`);
-      const embedding = await this.gemini.getEmbedding(content);
+      const embedding = await this.llm.getEmbedding(content);
 
       // pgvector requires the vector to be formatted as a string representation of an array
       const vectorString = `[${embedding.join(",")}]`;
@@ -36,7 +37,7 @@ export class MemoryAgent {
   async findSimilar(query: string, limit: number = 3): Promise<any[]> {
     try {
       console.log(`[Memory] Searching for: "${query.substring(0, 50)}..."`);
-      const embedding = await this.gemini.getEmbedding(query);
+      const embedding = await this.llm.getEmbedding(query);
       const vectorString = `[${embedding.join(",")}]`;
 
       // Cosine distance operator is <=> in pgvector.
@@ -3,17 +3,32 @@ import {
   AgentStatus,
   AgentResult,
   IncidentEvent,
-  GeminiProvider,
+  ExecutionContext,
+  LLMProvider,
+  resolveLLMProvider,
   GitHubService,
+  createGitHubService,
+  FileChange,
+  AppliedFileChange,
+  applyFileChange,
+  PatchOutputSchema,
+  generateStructured,
 } from "@devops-guardian/shared";
 
+// Source-looking paths mentioned in the RCA, e.g. "src/routes/user.ts" or "app/main.py:42"
+const FILE_PATH_REGEX =
+  /(?:[\w@.-]+\/)*[\w@.-]+\.(?:ts|tsx|js|jsx|mjs|cjs|py|go|java|kt|rb|rs|php|cs|json|ya?ml|toml)\b/g;
+const MAX_CONTEXT_FILES = 5;
+const MAX_CONTEXT_CHARS = 20000;
+
 export class PatchAgent implements IAgent {
   name = "Patch Agent";
   status = AgentStatus.IDLE;
-  private gemini: GeminiProvider;
+  // Fixed provider (tests); otherwise the project's is resolved per incident
+  private llm?: LLMProvider;
 
-  constructor(apiKey?: string) {
-    this.gemini = new GeminiProvider(apiKey || process.env.GEMINI_API_KEY || "");
+  constructor(llm?: LLMProvider) {
+    this.llm = llm;
   }
 
   async execute(input: any): Promise<AgentResult> {
@@ -21,6 +36,7 @@ export class PatchAgent implements IAgent {
     const incident: IncidentEvent = input.incident || input;
     const rcaContext: any = input.rcaContext;
     const previousFailures: string[] | undefined = input.previousFailures;
+    const context: ExecutionContext = input.context || {};
 
     this.status = AgentStatus.WORKING;
     console.log(
@@ -31,7 +47,7 @@ export class PatchAgent implements IAgent {
     const metadata = incident.metadata as any;
     const owner = metadata?.owner;
     const repo = metadata?.repo;
-    const token = metadata?.token;
+    const token = context.githubToken;
 
     // If we don't have repo context, we can't fetch real code
     if (!rcaContext?.analysis) {
@@ -40,8 +56,48 @@ export class PatchAgent implements IAgent {
       return { success: false, error: "Missing RCA context" };
     }
 
+    // Patches are applied against the real files, so we need repository access
+    if (!owner || !repo || !token) {
+      console.warn(
+        "[Patch] Missing owner/repo in metadata or GitHub token. Cannot validate a patch.",
+      );
+      this.status = AgentStatus.FAILED;
+      return { success: false, error: "Missing repository context (owner/repo/token)" };
+    }
+
+    const analysisText =
+      typeof rcaContext.analysis === "string"
+        ? rcaContext.analysis
+        : JSON.stringify(rcaContext.analysis);
+
     try {
-      // 1. Build prompt for Gemini
+      const github = createGitHubService(token);
+      // path -> current content (null = file does not exist)
+      const originals = new Map<string, string | null>();
+
+      // 1. Fetch the files the RCA points at so the model edits real code
+      // Files resolved from the stack trace by the RCA Agent come first
+      const framePaths: string[] = (rcaContext.codeContext?.frames || []).map((f: any) => f.path);
+      const candidates = [
+        ...new Set([
+          ...framePaths,
+          ...this.extractFilePaths(`${analysisText}\n${incident.description || incident.message}`),
+        ]),
+      ].slice(0, MAX_CONTEXT_FILES);
+      for (const path of candidates) {
+        const content = await this.fetchFile(github, owner, repo, path);
+        if (content !== undefined) originals.set(path, content);
+      }
+
+      const fileContext = [...originals.entries()]
+        .filter(([, content]) => content !== null)
+        .map(([path, content]) => {
+          const truncated = content!.length > MAX_CONTEXT_CHARS;
+          return `--- ${path}${truncated ? " (truncated)" : ""} ---\n${content!.substring(0, MAX_CONTEXT_CHARS)}`;
+        })
+        .join("\n\n");
+
+      // 2. Build prompt for the model
       const prompt = `
 You are a Senior Software Engineer. Based on the following Root Cause Analysis, generate a code fix.
 
@@ -50,8 +106,18 @@ Title: ${incident.title}
 Description: ${incident.description || incident.message}
 
 ## Root Cause Analysis
-${typeof rcaContext.analysis === "string" ? rcaContext.analysis : JSON.stringify(rcaContext.analysis)}
+${analysisText}
 
+## Current File Contents
+${fileContext || "(No referenced files could be loaded from the repository)"}
+${
+  rcaContext.codeContext?.context
+    ? `
+## Failing Stack Frames (">>" marks the failing line)
+${rcaContext.codeContext.context}
+`
+    : ""
+}
 ${
   previousFailures && previousFailures.length > 0
     ? `
@@ -64,12 +130,16 @@ ${previousFailures.join("\n")}
 }
 
 ## Instructions
-1. Analyze the file paths and code snippets in the RCA.
+1. Analyze the file paths and code snippets in the RCA and the current file contents above.
 2. DETECT the programming language (Python, Node.js, Go, etc.) context.
 3. GENERATE code ONLY in the detected language.
    - DO NOT rewrite Python files as TypeScript/JavaScript.
    - DO NOT introduce new dependencies unless absolutely necessary.
-4. Generate the COMPLETE fixed file content.
+4. Express the fix as minimal search/replace edits against the CURRENT file contents:
+   - "search" must be copied EXACTLY from the file (including indentation) and match exactly once.
+   - Include a few surrounding lines so the search block is unique.
+   - Do NOT return whole-file rewrites for existing files.
+   - Only for brand-new files, set "content" to the full file content instead of "edits".
 5. Respond in JSON format:
 
 \`\`\`json
@@ -77,7 +147,9 @@ ${previousFailures.join("\n")}
   "fileUpdates": [
     {
       "path": "path/to/file.<ext>",
-      "content": "// The complete fixed file content here..."
+      "edits": [
+        { "search": "exact lines from the current file", "replace": "fixed lines" }
+      ]
     }
   ],
   "explanation": "Brief explanation of the fix (mention how it addresses the failure if applicable)"
@@ -86,39 +158,61 @@ ${previousFailures.join("\n")}
 
 IMPORTANT: Return ONLY the JSON. No markdown code blocks outside of the JSON structure.
 Match the file extension to the existing project language (e.g., .py for Python, .ts for TypeScript).
+A unified diff ("diff": "@@ -l,n +l,n @@ ...") is also accepted instead of "edits".
 `;
 
-      // 2. Call Gemini
-      console.log("[Patch] Calling Gemini for fix generation...");
-      const response = await this.gemini.generate(prompt);
-
-      // 3. Parse JSON response
-      let parsed;
-      try {
-        // Try to extract JSON from the response (it might be wrapped in markdown)
-        const jsonMatch =
-          response.match(/```json\s*([\s\S]*?)\s*```/) ||
-          response.match(/\{[\s\S]*"fileUpdates"[\s\S]*\}/);
-        const jsonStr = jsonMatch ? jsonMatch[1] || jsonMatch[0] : response;
-        parsed = JSON.parse(jsonStr);
-      } catch (parseError) {
-        console.error("[Patch] Failed to parse Gemini response as JSON:", response);
-        // Fallback: create a simple structure
-        parsed = {
-          fileUpdates: [],
-          explanation: response,
-        };
+      // 3. Call the model in JSON mode (validated, with a repair attempt)
+      console.log("[Patch] Calling the model for fix generation...");
+      const llm = this.llm || (await resolveLLMProvider(metadata?.projectId, "patch"));
+      const parsed = await generateStructured({
+        label: "Patch",
+        schema: PatchOutputSchema,
+        prompt,
+        call: (prompt, responseSchema) => llm.generate(prompt, incident.id, responseSchema),
+      });
+
+      const changes: FileChange[] = parsed.fileUpdates;
+
+      // 4. Apply every change against the real file. Any hunk that doesn't apply rejects the patch.
+      const applied: AppliedFileChange[] = [];
+      const rejections: string[] = [];
+
+      for (const change of changes) {
+        const path = (change.path || "").replace(/^\.?\//, "");
+        if (!path || path.split("/").includes("..")) {
+          rejections.push(`${change.path || "(missing path)"}: invalid path`);
+          continue;
+        }
+
+        if (!originals.has(path)) {
+          const content = await this.fetchFile(github, owner, repo, path);
+          if (content === undefined) {
+            rejections.push(`${path}: could not be fetched from the repository`);
+            continue;
+          }
+          originals.set(path, content);
+        }
+
+        try {
+          applied.push(applyFileChange({ ...change, path }, originals.get(path)!));
+        } catch (error: any) {
+          rejections.push(error.message);
+        }
       }
 
-      console.log(`[Patch] Generated fix for ${parsed.fileUpdates?.length || 0} file(s)`);
+      if (rejections.length > 0) {
+        console.warn(`[Patch] Rejected patch (does not apply cleanly):\n${rejections.join("\n")}`);
+        this.status = AgentStatus.FAILED;
+        return {
+          success: false,
+          error: `Patch does not apply cleanly: ${rejections.join("; ")}`,
+          data: { rejections },
+        };
+      }
 
-      // Generate a diff representation for logging
-      const diffString = parsed.fileUpdates
-        ?.map(
-          (f: any) => `--- ${f.path}\n+++ ${f.path} (fixed)\n${f.content?.substring(0, 200)}...`,
-        )
-        .join("\n\n");
+      console.log(`[Patch] Generated fix for ${applied.length} file(s)`);
 
+      const diffString = applied.map((f) => f.diff).join("\n");
       console.log(`[Patch] Fix Preview:\n${diffString}`);
 
       this.status = AgentStatus.COMPLETED;
@@ -126,11 +220,19 @@ Match the file extension to the existing project language (e.g., .py for Python,
         success: true,
         data: {
           diff: diffString,
-          files: parsed.fileUpdates?.map((f: any) => f.path) || [],
-          fileUpdates: parsed.fileUpdates || [],
+          files: applied.map((f) => f.path),
+          // Full patched content, consumed by the sandbox and PR agent
+          fileUpdates: applied.map((f) => ({ path: f.path, content: f.content })),
+          stats: applied.map(({ path, isNew, linesAdded, linesRemoved }) => ({
+            path,
+            isNew,
+            linesAdded,
+            linesRemoved,
+          })),
           explanation: parsed.explanation,
           summary: parsed.explanation, // Alias for frontend "Patch Strategy" display
         },
+        artifacts: [{ type: "diff", content: diffString }],
       };
     } catch (error: any) {
       console.error("[Patch] Failed:", error);
@@ -138,4 +240,31 @@ Match the file extension to the existing project language (e.g., .py for Python,
       return { success: false, error: error.message };
     }
   }
+
+  /**
+   * Finds repo-relative file paths mentioned in free text (RCA, error message).
+   */
+  private extractFilePaths(text: string): string[] {
+    const matches = text.match(FILE_PATH_REGEX) || [];
+    const paths = matches
+      .map((p) => p.replace(/^\.?\//, ""))
+      .filter((p) => !p.startsWith("http") && !p.split("/").includes(".."));
+    return [...new Set(paths)].slice(0, MAX_CONTEXT_FILES);
+  }
+
+  /**
+   * Returns the file content, null if it doesn't exist (404), undefined on other errors.
+   */
+  private async fetchFile(
+    github: GitHubService,
+    owner: string,
+    repo: string,
+    path: string,
+  ): Promise<string | null | undefined> {
+    try {
+      return await github.getFileContent(owner, repo, path);
+    } catch (error: any) {
+      return error.status === 404 ? null : undefined;
+    }
+  }
 }
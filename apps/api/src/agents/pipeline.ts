@@ -2,8 +2,13 @@ import { IAgent, AgentStatus, AgentResult, IncidentEvent } from "@devops-guardia
 import {
   GitHubService,
   SecretsManagerService,
-  VerificationService,
-  GeminiProvider,
+  VerificationRecipe,
+  SandboxProvider,
+  LLMProvider,
+  createSandboxProvider,
+  createVerificationService,
+  resolveVerificationRecipe,
+  db,
 } from "@devops-guardian/shared";
 
 export class PipelineAgent implements IAgent {
@@ -11,16 +16,17 @@ export class PipelineAgent implements IAgent {
   status = AgentStatus.IDLE;
   private github: GitHubService;
   private secretsHelper: SecretsManagerService;
-  private verifier: VerificationService;
-  private gemini: GeminiProvider;
+  private llm: LLMProvider;
   private token: string;
+  // Set once the repo is connected; onboarding runs before there is a project
+  private projectId?: string;
 
-  constructor(token: string, gemini: GeminiProvider) {
+  constructor(token: string, llm: LLMProvider, projectId?: string) {
     this.token = token;
+    this.projectId = projectId;
     this.github = new GitHubService(token);
     this.secretsHelper = new SecretsManagerService();
-    this.verifier = new VerificationService();
-    this.gemini = gemini;
+    this.llm = llm;
   }
 
   async execute(incident: IncidentEvent): Promise<AgentResult> {
@@ -73,10 +79,41 @@ export class PipelineAgent implements IAgent {
     }
   }
 
+  /**
+   * Loads the project's sandbox backend and verification recipe
+   * (project settings -> .guardian.yml), like the Verification Agent.
+   */
+  private async loadProjectSettings(
+    owner: string,
+    repo: string,
+  ): Promise<{ sandbox: SandboxProvider; recipe: VerificationRecipe | null }> {
+    let project: { sandboxProvider: string; verificationConfig: unknown } | null = null;
+    if (this.projectId) {
+      try {
+        project = await db.project.findUnique({
+          where: { id: this.projectId },
+          select: { sandboxProvider: true, verificationConfig: true },
+        });
+      } catch (e) {
+        console.warn("[Pipeline] Failed to load project settings. Using defaults.", e);
+      }
+    }
+
+    const { recipe, source } = await resolveVerificationRecipe({
+      projectConfig: project?.verificationConfig,
+      github: this.github,
+      owner,
+      repo,
+    });
+    console.log(`[Pipeline] Verification recipe source: ${source}`);
+    return { sandbox: createSandboxProvider(project?.sandboxProvider), recipe };
+  }
+
   private async generateAIContent(
     type: string,
     stack: string,
     envs?: Record<string, string>,
+    recipe?: VerificationRecipe | null,
   ): Promise<string> {
     const envString = envs
       ? Object.keys(envs)
@@ -97,11 +134,22 @@ export class PipelineAgent implements IAgent {
     - If ${type} is "jenkins", use Declarative Pipeline syntax with 'stages'.
     - Inject these environment variables if applicable:
     ${envString}
+    ${
+      recipe
+        ? `- The repository defines its own build recipe. Use EXACTLY these commands (run from "${recipe.workdir}"):
+      ${recipe.setup.length > 0 ? `Setup: ${recipe.setup.join(" && ")}` : ""}
+      ${recipe.install ? `Install: ${recipe.install}` : ""}
+      ${recipe.build ? `Build: ${recipe.build}` : ""}
+      ${recipe.test ? `Test: ${recipe.test}` : ""}
+      ${recipe.lint ? `Lint: ${recipe.lint}` : ""}
+      Required env vars: ${recipe.env.join(", ") || "none"}`
+        : ""
+    }
     
     Return ONLY the raw file content (YAML or Groovy) without markdown blocks (no \`\`\`) or explanations.`;
 
     console.log(`[Pipeline] Asking Gemini to generate Enterprise ${type} for ${stack}...`);
-    const content = await this.gemini.generate(prompt);
+    const content = await this.llm.generate(prompt);
 
     return content.replace(/^```[a-z]*\s*/i, "").replace(/\s*```$/, "");
   }
@@ -134,16 +182,26 @@ export class PipelineAgent implements IAgent {
         throw new Error(`Unsupported pipeline type: ${type}`);
       }
 
-      const content = await this.generateAIContent(type, stack, envs);
+      const { sandbox, recipe } = await this.loadProjectSettings(owner, repo);
+      const content = await this.generateAIContent(type, stack, envs, recipe);
 
       let verificationPassed = false;
       let verificationLogs: string[] = [];
-      const e2bKey = process.env.E2B_API_KEY;
+      // E2B needs an API key; Docker/local backends run on our own runners
+      const sandboxAvailable = sandbox.name !== "e2b" || !!process.env.E2B_API_KEY;
 
-      if (e2bKey) {
-        console.log("[Pipeline] Starting E2B Verification...");
+      if (sandboxAvailable) {
+        console.log(`[Pipeline] Starting ${sandbox.name} sandbox verification...`);
         const repoUrl = `https://github.com/${owner}/${repo}.git`;
-        const result = await this.verifier.verifyBuild(repoUrl, envs || {}, this.token);
+        const result = await createVerificationService(sandbox).verifyBuild(
+          repoUrl,
+          envs || {},
+          this.token,
+          "main",
+          undefined,
+          [],
+          recipe,
+        );
         verificationLogs = result.logs;
 
         if (!result.success) {
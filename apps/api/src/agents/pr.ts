@@ -1,10 +1,18 @@
-import { GitHubService, IncidentEvent, AgentResult } from "@devops-guardian/shared";
+import {
+  GitHubService,
+  createGitHubService,
+  IncidentEvent,
+  AgentResult,
+  TestRunSummary,
+  VerificationComparison,
+  PatchGuardVerdict,
+} from "@devops-guardian/shared";
 
 export class PRAgent {
   private github: GitHubService;
 
   constructor() {
-    this.github = new GitHubService(""); // Initialize empty, must be set in execute
+    this.github = createGitHubService(""); // Initialize empty, must be set in execute
   }
 
   async execute(
@@ -19,7 +27,7 @@ export class PRAgent {
       if (!token) {
         return { success: false, data: { error: "Missing GitHub Token for PR creation" } };
       }
-      this.github = new GitHubService(token);
+      this.github = createGitHubService(token);
 
       const { owner, repo, fileUpdates } = patchData; // Expecting patchData to have this structure
 
@@ -30,9 +38,16 @@ export class PRAgent {
         };
       }
 
-      const branchName = `fix/incident-${incident.id.substring(0, 8)}-${Date.now()}`;
+      // A retried step passes the same branch: reuse its PR instead of opening another
+      const branchName =
+        patchData.branch || `fix/incident-${incident.id.substring(0, 8)}-${Date.now()}`;
+      const existing = await this.github.findPullRequest(owner, repo, branchName);
+      if (existing) {
+        console.log(`[PR Agent] PR already open for ${branchName}: ${existing.url}`);
+        return { success: true, data: { prUrl: existing.url } };
+      }
 
-      // 1. Create Branch
+      // 1. Create Branch (already there if a previous attempt failed after creating it)
       // Note: We need to know 'base' branch, assumed 'main' for now.
       await this.github.createBranch(owner, repo, "main", branchName);
 
@@ -52,10 +67,12 @@ export class PRAgent {
       const rcaAnalysis = rca?.analysis || "No detailed analysis provided.";
       const patchSummary = patchData?.summary || "Applied automated patch.";
 
+      const verification = patchData?.verification;
+
       const prBody = `
 ## 🛠️ Automated Fix for Incident #${incident.id.substring(0, 8)}
 
-> **Status**: ✅ Verification Passed (E2B Sandbox)
+> **Status**: ${verification?.after?.passed ? `✅ Verification Passed (${verification.backend} sandbox)` : "⚠️ Not Verified"}
 > **Severity**: ${incident.severity}
 > **Source**: ${incident.source}
 
@@ -72,10 +89,10 @@ ${patchSummary}
 ${fileUpdates.map((f: any) => `- \`${f.path}\``).join("\n")}
 
 ### 🧪 Verification
-The fix has been verified in an isolated **E2B Sandbox** environment.
-- [x] Build Successful
-- [x] Unit Tests Passed
-- [x] Integration Checks Passed
+${this.formatVerification(verification)}
+
+### 🛡️ Patch Guard
+${this.formatGuard(patchData?.guard, patchData?.approvedBy)}
 
 ---
 *Generated by [DevOps Guardian](https://github.com/ARYANjoshi09/DevOps-Guardian-)* 🦅
@@ -97,4 +114,52 @@ The fix has been verified in an isolated **E2B Sandbox** environment.
       return { success: false, data: { error: error.message } };
     }
   }
+
+  /**
+   * Renders the protected-path / blast-radius verdict for the PR body.
+   */
+  private formatGuard(guard?: PatchGuardVerdict, approvedBy?: string[]): string {
+    if (!guard) return "Not checked.";
+
+    const size = `${guard.files} file(s), ${guard.lines} changed line(s)`;
+    if (guard.passed) {
+      return `✅ Passed: ${size}, no protected paths touched.`;
+    }
+
+    const approval = approvedBy?.length
+      ? `Approved by ${approvedBy.map((login) => `@${login}`).join(", ")}`
+      : "Requires careful review";
+    return `⚠️ **Flagged** (${size}). ${approval}:
+
+${guard.violations.map((v) => `- ${v}`).join("\n")}`;
+  }
+
+  /**
+   * Renders the sandbox before/after test comparison for the PR body.
+   */
+  private formatVerification(verification?: VerificationComparison): string {
+    if (!verification?.after) {
+      return "This fix was **not** verified in a sandbox. Review and run the test suite before merging.";
+    }
+
+    const status = (run?: TestRunSummary) =>
+      !run ? "—" : run.passed ? "✅ Passed" : `❌ Failed (exit ${run.exitCode})`;
+
+    return `The patch was applied on scratch branch \`${verification.branch}\` in an isolated **${verification.backend}** sandbox and the test suite was run against it.
+
+| Run | Result |
+| --- | --- |
+| Before patch (\`main\`) | ${status(verification.before)} |
+| After patch | ${status(verification.after)} |
+
+**Outcome**: \`${verification.outcome}\`
+
+<details><summary>Test output (after patch)</summary>
+
+\`\`\`
+${verification.after.outputTail}
+\`\`\`
+
+</details>`;
+  }
 }
@@ -4,24 +4,35 @@ import {
   AgentStatus,
   AgentResult,
   IncidentEvent,
-  GeminiProvider,
-  GitHubService,
+  ExecutionContext,
+  LLMProvider,
+  resolveLLMProvider,
+  createGitHubService,
+  CodeContext,
+  buildCodeContext,
+  collectTraceText,
+  RcaOutputSchema,
+  generateStructured,
+  renderRcaMarkdown,
 } from "@devops-guardian/shared";
 
 export class RCAAgent implements IAgent {
   name = "RCA Agent";
   status = AgentStatus.IDLE;
-  private gemini: GeminiProvider;
   private memoryAgent?: MemoryAgent;
+  // Fixed provider (tests); otherwise the project's is resolved per incident
+  private llm?: LLMProvider;
 
-  constructor(apiKey: string, memoryAgent?: MemoryAgent) {
-    this.gemini = new GeminiProvider(apiKey);
+  constructor(memoryAgent?: MemoryAgent, llm?: LLMProvider) {
     this.memoryAgent = memoryAgent;
+    this.llm = llm;
   }
 
-  async execute(incident: IncidentEvent): Promise<AgentResult> {
+  async execute(incident: IncidentEvent, execution: ExecutionContext = {}): Promise<AgentResult> {
     this.status = AgentStatus.WORKING;
     console.log(`[RCA] Starting analysis for: ${incident.title}`);
+    const llm =
+      this.llm || (await resolveLLMProvider((incident.metadata as any)?.projectId, "rca"));
 
     // Helper to format past memories
     let distinctMemories = "";
@@ -43,12 +54,14 @@ export class RCAAgent implements IAgent {
 
     // --- Smarter Context Retrieval ---
     let repoContext = "";
+    let codeContext: CodeContext = { frames: [], context: "" };
     const meta = incident.metadata as any;
+    const token = execution.githubToken;
 
-    if (meta?.owner && meta?.repo && meta?.token) {
+    if (meta?.owner && meta?.repo && token) {
       try {
         console.log(`[RCA] Fetching repository context for ${meta.owner}/${meta.repo}...`);
-        const github = new GitHubService(meta.token);
+        const github = createGitHubService(token);
 
         // 1. Get File Structure (to identifying tech stack)
         const structure = await github.getRepoStructure(meta.owner, meta.repo, "");
@@ -71,8 +84,25 @@ export class RCAAgent implements IAgent {
       } catch (error) {
         console.warn("[RCA] Failed to fetch repo context. Continuing without it.", error);
       }
+
+      // 3. Map stack trace frames to repo files and pull the surrounding code
+      try {
+        codeContext = await buildCodeContext({
+          github: createGitHubService(token),
+          owner: meta.owner,
+          repo: meta.repo,
+          text: collectTraceText([incident.description, incident.message, meta]),
+        });
+        if (codeContext.frames.length > 0) {
+          console.log(
+            `[RCA] Resolved ${codeContext.frames.length} stack frame(s): ${codeContext.frames.map((f) => `${f.path}:${f.line}`).join(", ")}`,
+          );
+        }
+      } catch (error) {
+        console.warn("[RCA] Failed to build code context from stack trace.", error);
+      }
     } else {
-      console.log("[RCA] Skipping repo context (missing owner/repo/token in metadata)");
+      console.log("[RCA] Skipping repo context (missing owner/repo in metadata or GitHub token)");
     }
     // --------------------------------
 
@@ -82,8 +112,15 @@ export class RCAAgent implements IAgent {
     let cacheName = "";
     if (repoContext.length > 500) {
       // Only cache if substantial
-      const cacheKey = `rca-${meta?.owner}-${meta?.repo}-${new Date().toISOString().split("T")[0]}`; // Daily cache key per repo
-      cacheName = await this.gemini.cacheContext(cacheKey, repoContext);
+      // Per repo; the registry tells content versions apart, so unchanged repos reuse the cache
+      const cacheKey = `rca-${meta?.owner}-${meta?.repo}`;
+      cacheName = await llm.cacheContext(
+        cacheKey,
+        repoContext,
+        undefined,
+        incident.id,
+        "reasoning", // Same model as the analysis below
+      );
     }
 
     // 2. Context Assembly
@@ -92,10 +129,12 @@ export class RCAAgent implements IAgent {
       Incident: ${incident.title}
       Source: ${incident.source}
       Message: ${incident.description}
-      Logs: ${JSON.stringify(incident.metadata || {})}
+      Logs: ${JSON.stringify({ ...(incident.metadata || {}), workflowLogs: undefined, ciLogs: undefined })}
+      ${meta?.ciLogs ? `\nFailed CI Step Output:\n${meta.ciLogs}` : ""}
       ${distinctMemories}
       
-      ${!cacheName ? repoContext : "(Repository Context provided via Gemini Context Caching)"}
+      ${!cacheName ? repoContext : "(Repository Context provided via Context Caching)"}
+      ${codeContext.context ? `\nCode at the failing stack frames (">>" marks the failing line):\n${codeContext.context}` : ""}
     `;
 
     // 3. Extract Images (Multimodal)
@@ -108,37 +147,56 @@ export class RCAAgent implements IAgent {
       You are a Senior SRE. Analyze this incident context ${images.length > 0 ? "and the attached screenshots" : ""} to identify the Root Cause.
       ${distinctMemories ? "Consider the Relevant Past Incidents provided above in your analysis." : ""}
       ${cacheName ? "Refer to the cached Repository Context to understand the technology stack and dependencies." : repoContext ? "Use the Repository Structure and Config Files provided." : ""}
+      ${meta?.ciLogs ? "Base the analysis on the actual compiler/test errors in the Failed CI Step Output." : ""}
+      ${codeContext.context ? "Use the code at the failing stack frames to pinpoint the faulty lines, and reference them by path and line number." : ""}
       ${images.length > 0 ? "VISUAL ANALYSIS: Correlate the error logs with the visual state shown in the screenshots." : ""}
       
       Provide a specific technical reason and a recommended fix.
-      
-      Start your response with:
-      **Technology Stack:** [e.g. Node.js, Python, Go, etc.]
-      
+
+      Respond with a JSON object:
+      - "technologyStack": languages and frameworks involved (e.g. ["Node.js", "Express"])
+      - "category": one of CODE, CONFIGURATION, DEPENDENCY, INFRASTRUCTURE, RESOURCE, NETWORK, DATA, SECURITY, TEST, UNKNOWN
+      - "rootCause": the specific technical reason
+      - "affectedFiles": [{ "path": "repo-relative path", "line": number, "reason": "..." }] that need to change, most relevant first
+      - "confidence": 0 to 1, how sure you are given the evidence
+      - "recommendedFix": what to change
+      - "evidence": the log lines or code that support the analysis
+
       Context:
       ${context}
     `;
 
     try {
-      // 2. Call Gemini with "Thinking" (Reasoning Trace) + Images + Cache
-      const analysis = await this.gemini.generateWithReasoning(
+      // 2. Call the model with "Thinking" (Reasoning Trace) + Images + Cache, in JSON mode
+      const rca = await generateStructured({
+        label: "RCA",
+        schema: RcaOutputSchema,
         prompt,
-        incident.id,
-        this.name,
-        images,
-        cacheName, // Pass cache name
-        "gemini-3-pro-preview", // Use Pro for deeper reasoning
+        call: (prompt, responseSchema) =>
+          llm.generateWithReasoning(
+            prompt,
+            incident.id,
+            this.name,
+            images,
+            cacheName, // Pass cache name
+            "reasoning", // Use the bigger model for deeper reasoning
+            responseSchema,
+          ),
+      });
+
+      console.log(
+        `[RCA] Analysis Complete: ${rca.category} (confidence ${rca.confidence}, ${rca.affectedFiles.length} file(s))`,
       );
 
-      console.log(`[RCA] Analysis Complete.`);
-
       this.status = AgentStatus.COMPLETED;
       return {
         success: true,
         data: {
-          analysis: analysis,
-          // Extract specific fields if the model returns JSON
-          confidence: 0.95,
+          ...rca,
+          // Markdown rendering for the Patch prompt, PR body, Slack and dashboard
+          analysis: renderRcaMarkdown(rca),
+          // Source windows around the stack frames, reused by the Patch Agent
+          codeContext,
         },
       };
     } catch (error: any) {
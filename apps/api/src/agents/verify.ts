@@ -3,7 +3,15 @@ import {
   AgentStatus,
   AgentResult,
   IncidentEvent,
+  ExecutionContext,
   VerificationService,
+  createVerificationService,
+  createGitHubService,
+  SecretsManagerService,
+  VerificationRecipe,
+  createSandboxProvider,
+  resolveVerificationRecipe,
+  db,
 } from "@devops-guardian/shared";
 import { MemoryAgent } from "./memory.js";
 import { SocketService } from "../services/SocketService.js";
@@ -12,18 +20,54 @@ export class VerificationAgent implements IAgent {
   name = "Verification Agent";
   status = AgentStatus.IDLE;
   private memoryAgent?: MemoryAgent;
-  private verifier: VerificationService;
   private socketService = SocketService.getInstance();
+  private secretsManager = new SecretsManagerService();
 
   constructor(memoryAgent?: MemoryAgent) {
     this.memoryAgent = memoryAgent;
-    this.verifier = new VerificationService();
+  }
+
+  /**
+   * Loads the project's sandbox backend and verification recipe
+   * (project settings -> .guardian.yml -> STACKS detection).
+   */
+  private async loadProjectSettings(
+    projectId: string | undefined,
+    owner: string,
+    repo: string,
+    token?: string,
+  ): Promise<{ verifier: VerificationService; recipe: VerificationRecipe | null }> {
+    let project: { sandboxProvider: string; verificationConfig: unknown } | null = null;
+    if (projectId) {
+      try {
+        project = await db.project.findUnique({
+          where: { id: projectId },
+          select: { sandboxProvider: true, verificationConfig: true },
+        });
+      } catch (e) {
+        console.warn("[Verify] Failed to load project settings. Using defaults.", e);
+      }
+    }
+
+    const { recipe, source } = await resolveVerificationRecipe({
+      projectConfig: project?.verificationConfig,
+      github: token ? createGitHubService(token) : undefined,
+      owner,
+      repo,
+    });
+    console.log(`[Verify] Verification recipe source: ${source}`);
+
+    return {
+      verifier: createVerificationService(createSandboxProvider(project?.sandboxProvider)),
+      recipe,
+    };
   }
 
   async execute(
     incident: IncidentEvent,
     patchContext?: any,
     rcaContext?: any,
+    context: ExecutionContext = {},
   ): Promise<AgentResult> {
     this.status = AgentStatus.WORKING;
     console.log(`[Verify] Starting Sandbox verification...`);
@@ -32,7 +76,7 @@ export class VerificationAgent implements IAgent {
     const projectId = (incident.metadata as any)?.projectId || "unknown";
     this.socketService.emitLog(
       projectId,
-      "Initializing E2B Sandbox...",
+      "Initializing Verification Sandbox...",
       "INFO",
       "Verify",
       incident.id,
@@ -53,8 +97,7 @@ export class VerificationAgent implements IAgent {
       this.status = AgentStatus.FAILED;
       return {
         success: false,
-        error:
-          "Missing required metadata: owner and repo are required for E2B sandbox verification.",
+        error: "Missing required metadata: owner and repo are required for sandbox verification.",
         data: {
           logs: [errorMsg],
           missingFields: ["owner", "repo"],
@@ -63,21 +106,35 @@ export class VerificationAgent implements IAgent {
     }
 
     const repoUrl = `https://github.com/${owner}/${repo}`;
-    const envs = metadata?.envs || {};
+    let envs: Record<string, string> = metadata?.envs || {};
 
     try {
-      // Use real E2B Sandbox
-      console.log(`[Verify] Running real E2B verification for ${repoUrl}...`);
+      const { verifier, recipe } = await this.loadProjectSettings(
+        metadata?.projectId,
+        owner,
+        repo,
+        context.githubToken,
+      );
+
+      // Recipe declares required env vars -> pull the ones stored during onboarding
+      if (recipe && recipe.env.length > 0) {
+        const stored = await this.secretsManager.getEnvVars(owner, repo);
+        envs = { ...stored, ...envs };
+      }
+
+      console.log(`[Verify] Running sandbox verification for ${repoUrl}...`);
 
-      const result = await this.verifier.verifyBuild(
+      const result = await verifier.verifyBuild(
         repoUrl,
         envs,
-        metadata?.token, // Pass token for private/auth clone
+        context.githubToken, // Pass token for private/auth clone
         "main",
         (log: string) => {
           // Real-time log streaming
           this.socketService.emitLog(projectId, log, "INFO", "Verify", incident.id);
         },
+        patchContext?.fileUpdates || [], // Apply the generated patch before running tests
+        recipe,
       );
 
       if (!result.success) {
@@ -94,8 +151,8 @@ export class VerificationAgent implements IAgent {
         this.status = AgentStatus.FAILED;
         return {
           success: false,
-          error: "Verification failed in E2B sandbox.",
-          data: { logs: result.logs },
+          error: "Verification failed in sandbox.",
+          data: { logs: result.logs, comparison: result.comparison },
         };
       }
 
@@ -104,17 +161,19 @@ export class VerificationAgent implements IAgent {
       return {
         success: true,
         data: {
-          sandboxId: "e2b-real",
+          sandboxId: result.sandboxId,
+          backend: result.comparison?.backend,
           logs: result.logs.join("\n"),
+          comparison: result.comparison, // Before/after test runs for the PR body
           results: true, // explicit success flag for UI
         },
       };
     } catch (error: any) {
-      console.error(`[Verify] E2B Error:`, error);
+      console.error(`[Verify] Sandbox Error:`, error);
 
       // Store negative memory
       if (this.memoryAgent) {
-        await this.memoryAgent.storeMemory(`E2B sandbox crashed: ${error.message}`, "NEGATIVE", [
+        await this.memoryAgent.storeMemory(`Sandbox crashed: ${error.message}`, "NEGATIVE", [
           "sandbox-error",
         ]);
       }
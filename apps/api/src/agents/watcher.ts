@@ -3,7 +3,10 @@ import {
   AgentStatus,
   AgentResult,
   IncidentEvent,
-  GeminiProvider,
+  LLMProvider,
+  resolveLLMProvider,
+  TriageOutputSchema,
+  generateStructured,
 } from "@devops-guardian/shared";
 import { LogStreamService, LogStreamConfig, LogEvent } from "@devops-guardian/shared";
 import { MemoryAgent } from "./memory.js";
@@ -12,22 +15,26 @@ import { orchestrator } from "../orchestrator.js";
 export class ProductionWatcherAgent implements IAgent {
   name = "Production Watcher";
   status = AgentStatus.IDLE;
-  private gemini: GeminiProvider;
+  // Fixed provider (tests); otherwise the project's triage model
+  private llm?: LLMProvider;
   private memoryAgent?: MemoryAgent;
   private logService?: LogStreamService;
   private config?: LogStreamConfig;
+  // Project the incidents are filed under
+  private projectId?: string;
   private pollInterval?: NodeJS.Timeout;
 
-  constructor(gemini: GeminiProvider, memoryAgent?: MemoryAgent) {
-    this.gemini = gemini;
+  constructor(memoryAgent?: MemoryAgent, llm?: LLMProvider) {
     this.memoryAgent = memoryAgent;
+    this.llm = llm;
   }
 
   /**
    * Configure and start watching logs
    */
-  configure(config: LogStreamConfig) {
+  configure(config: LogStreamConfig, projectId?: string) {
     this.config = config;
+    this.projectId = projectId;
     this.logService = new LogStreamService(config);
     console.log(`[Watcher] Configured for ${config.provider}`);
   }
@@ -47,7 +54,8 @@ export class ProductionWatcherAgent implements IAgent {
     // Initial check
     this.checkLogs();
 
-    // Continuous polling
+    // Continuous polling (a repeated start replaces the previous schedule)
+    clearInterval(this.pollInterval);
     this.pollInterval = setInterval(() => this.checkLogs(), intervalMs);
   }
 
@@ -118,18 +126,23 @@ export class ProductionWatcherAgent implements IAgent {
 You are a production monitoring system. Analyze this error log and determine:
 1. Is this a real incident that needs fixing? (true/false)
 2. What is the likely root cause?
-3. Suggested severity: INFO, WARN, ERROR, CRITICAL
+3. Suggested severity: INFO, WARNING, CRITICAL
 
 Log:
 ${error.message}
 
 Respond in JSON:
-{"isIncident": true/false, "rootCause": "...", "severity": "..."}
+{"isIncident": true/false, "rootCause": "...", "severity": "INFO" | "WARNING" | "CRITICAL"}
 `;
 
     try {
-      const response = await this.gemini.generate(prompt);
-      const analysis = JSON.parse(response.match(/\{[\s\S]*\}/)?.[0] || "{}");
+      const llm = this.llm || (await resolveLLMProvider(this.projectId, "triage"));
+      const analysis = await generateStructured({
+        label: "Triage",
+        schema: TriageOutputSchema,
+        prompt,
+        call: (prompt, responseSchema) => llm.generate(prompt, undefined, responseSchema),
+      });
 
       if (analysis.isIncident) {
         console.log(`[Watcher] Creating incident for: ${error.message.substring(0, 50)}...`);
@@ -137,11 +150,12 @@ Respond in JSON:
         const incident: IncidentEvent = {
           id: crypto.randomUUID(),
           source: "PRODUCTION_WATCHER" as any,
-          severity: analysis.severity || "ERROR",
+          severity: analysis.severity,
           title: `Production Error: ${error.message.substring(0, 100)}`,
           description: error.message,
           message: `Detected by ${error.source}`,
           metadata: {
+            projectId: this.projectId,
             logSource: error.source,
             timestamp: error.timestamp,
             aiAnalysis: analysis.rootCause,
@@ -157,7 +171,12 @@ Respond in JSON:
           ]);
         }
 
-        // Trigger the healing pipeline
+        // Trigger the healing pipeline (unless the queue is saturated)
+        const admission = await orchestrator.admitIncident(this.projectId);
+        if (!admission.accepted) {
+          console.warn(`[Watcher] Skipping incident: ${admission.reason}`);
+          return;
+        }
         orchestrator.handleIncident(incident);
       } else {
         console.log(`[Watcher] Not an incident: ${error.message.substring(0, 50)}...`);
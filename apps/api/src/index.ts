@@ -17,20 +17,32 @@ import express from "express";
 
 import cors from "cors";
 import { orchestrator } from "./orchestrator.js";
-import { IncidentEventSchema } from "@devops-guardian/shared";
+import {
+  IncidentEventSchema,
+  GitHubService,
+  formatWorkflowFailure,
+  resolveGitHubToken,
+} from "@devops-guardian/shared";
+import { captureRawBody, verifyWebhookSignature } from "./middleware/signatures.js";
+import { allowedOrigins } from "./middleware/csrf.js";
 
 const app = express();
 const port = process.env.PORT || 3001;
 
 app.use(
   cors({
-    origin: [process.env.FRONTEND_URL || "http://localhost:3002"],
+    origin: allowedOrigins(),
     methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
     credentials: true,
   }),
 );
-app.use(express.json({ limit: "50mb" }));
-app.use(express.urlencoded({ limit: "50mb", extended: true })); // Required for Slack interactions
+app.use(express.json({ limit: "50mb", verify: captureRawBody }));
+// Slack interactions are form-encoded (raw body kept for signature checks). Nothing
+// else accepts forms: a cross-site form post must not reach a cookie-authenticated route
+app.use(
+  "/api/slack/interactions",
+  express.urlencoded({ limit: "50mb", extended: true, verify: captureRawBody }),
+);
 
 // Create HTTP server for Socket.io
 import { createServer } from "http";
@@ -47,6 +59,15 @@ import { watcherRouter } from "./routes/watcher.js";
 import { logIngestionRouter } from "./routes/logIngestion.js";
 import { slackRouter } from "./routes/slack.js";
 import { analyticsRouter } from "./routes/analytics.js";
+import { queueRouter } from "./routes/queue.js";
+import { orgsRouter } from "./routes/orgs.js";
+import { incidentsRouter } from "./routes/incidents.js";
+import {
+  accessibleOrgIds,
+  accessibleProjectIds,
+  incidentAccessFilter,
+  requireAuth,
+} from "./middleware/auth.js";
 
 app.use("/api/onboarding", onboardingRouter);
 app.use("/api/auth", authRouter);
@@ -55,18 +76,42 @@ app.use("/api/watcher", watcherRouter);
 app.use("/api/v1/logs", logIngestionRouter);
 app.use("/api/slack", slackRouter);
 app.use("/api/analytics", analyticsRouter);
+app.use("/api/queue", queueRouter);
+app.use("/api/orgs", orgsRouter);
+app.use("/incidents", incidentsRouter);
 
 app.get("/health", (req, res) => {
   res.json({ status: "ok", service: "DevOps Guardian API" });
 });
 
+/**
+ * Backpressure: replies 429 + Retry-After when the incident queue is full.
+ * Returns false if the request was rejected.
+ */
+async function admitOrReject(res: express.Response, projectId?: string) {
+  const admission = await orchestrator.admitIncident(projectId);
+  if (admission.accepted) return true;
+
+  console.warn(`[Webhook] Rejected incident (backpressure): ${admission.reason}`);
+  res
+    .status(429)
+    .set("Retry-After", String(admission.retryAfterSeconds))
+    .json({ error: admission.reason });
+  return false;
+}
+
 /**
  * GitHub Webhook Endpoint - Real workflow_run failure parsing
  * Configure in GitHub: Settings > Webhooks > Add webhook
  * - Payload URL: https://your-domain/webhook/github
  * - Content type: application/json
+ * - Secret: the project's webhook secret (Project Settings > Webhook Security)
  * - Events: Workflow runs
  */
+app.use(
+  "/webhook/github",
+  verifyWebhookSignature("GITHUB", "x-hub-signature-256", (req) => req.body?.repository?.full_name),
+);
 app.post("/webhook/github", async (req, res) => {
   try {
     const event = req.headers["x-github-event"];
@@ -85,12 +130,10 @@ app.post("/webhook/github", async (req, res) => {
 
       console.log(`[Webhook] Processing failed workflow: ${run.name} in ${repo.full_name}`);
 
-      // Lookup Project to get the Token
-      const project = await import("@devops-guardian/shared").then((m) =>
-        m.db.project.findFirst({
-          where: { githubRepo: repo.full_name },
-        }),
-      );
+      // Project whose secret signed the delivery
+      const project = req.webhookProject;
+
+      if (!(await admitOrReject(res, project?.id))) return;
 
       const incident = {
         id: crypto.randomUUID(),
@@ -108,7 +151,6 @@ app.post("/webhook/github", async (req, res) => {
           runId: run.id,
           logsUrl: run.logs_url,
           htmlUrl: run.html_url,
-          token: project?.githubToken, // Injected from DB
           projectId: project?.id,
           errorSource: "ci-cd",
         },
@@ -116,7 +158,14 @@ app.post("/webhook/github", async (req, res) => {
       };
 
       // Async processing - don't block webhook response
-      orchestrator.handleIncident(incident as any);
+      // (GitHub expects a reply within 10s, log download can take longer)
+      // The token is resolved here and never stored on the incident
+      resolveGitHubToken(project?.id)
+        .then((token) => attachWorkflowLogs(incident, token))
+        .then(() => orchestrator.handleIncident(incident as any))
+        .catch((error) =>
+          console.error(`[Webhook] Failed to start incident ${incident.id}:`, error),
+        );
 
       // Emit socket event
       socketService.emitIncidentUpdate(incident);
@@ -138,13 +187,48 @@ app.post("/webhook/github", async (req, res) => {
   }
 });
 
+/**
+ * Downloads the failed job logs of a workflow run and attaches the failing
+ * steps' output and annotations to the incident, so RCA sees the real errors.
+ * Never throws: RCA still runs (with less context) if the logs are unavailable.
+ */
+async function attachWorkflowLogs(incident: any, token?: string | null) {
+  const { owner, repo, runId } = incident.metadata;
+  if (!token) {
+    console.warn("[Webhook] No GitHub token for project. Skipping workflow log download.");
+    return;
+  }
+
+  try {
+    const github = new GitHubService(token);
+    const workflowLogs = await github.getWorkflowLogs(owner, repo, runId);
+    if (workflowLogs.jobs.length === 0) return;
+
+    const failedSteps = workflowLogs.jobs.flatMap((job) =>
+      job.failedSteps.map((step) => `${job.name} / ${step.name}`),
+    );
+    incident.metadata.workflowLogs = workflowLogs;
+    incident.metadata.ciLogs = formatWorkflowFailure(workflowLogs);
+    incident.description += `\nFailed steps: ${failedSteps.join(", ")}`;
+
+    console.log(`[Webhook] Attached logs for ${failedSteps.length} failed step(s) of run ${runId}`);
+  } catch (error: any) {
+    console.warn(`[Webhook] Failed to fetch workflow logs for run ${runId}:`, error.message);
+  }
+}
+
 /**
  * Jenkins Webhook Endpoint - Generic Notification Plugin format
  * Configure in Jenkins: Post-build Actions > HTTP Request
  * - URL: https://your-domain/webhook/jenkins
  * - Method: POST
  * - Body: JSON with build info
+ * - Header: X-Guardian-Signature-256: sha256=<HMAC-SHA256 of the body with the project's webhook secret>
  */
+app.use(
+  "/webhook/jenkins",
+  verifyWebhookSignature("JENKINS", "x-guardian-signature-256", (req) => req.body?.git_repo),
+);
 app.post("/webhook/jenkins", async (req, res) => {
   try {
     const payload = req.body;
@@ -171,6 +255,11 @@ app.post("/webhook/jenkins", async (req, res) => {
         `[Webhook] Processing failed Jenkins build: ${payload.job_name} #${payload.build_number}`,
       );
 
+      // Project whose secret signed the delivery
+      const project = req.webhookProject;
+
+      if (!(await admitOrReject(res, project?.id))) return;
+
       const incident = {
         id: crypto.randomUUID(),
         source: "JENKINS" as const,
@@ -179,6 +268,7 @@ app.post("/webhook/jenkins", async (req, res) => {
         description: `Jenkins job "${payload.job_name}" build #${payload.build_number} failed. Branch: ${payload.git_branch}`,
         message: payload.console_log?.substring(0, 2000) || "No logs provided",
         metadata: {
+          projectId: project?.id,
           owner,
           repo,
           jobName: payload.job_name,
@@ -210,166 +300,31 @@ app.post("/webhook/jenkins", async (req, res) => {
   }
 });
 
-/**
- * Push-Based Log Webhook Endpoint
- *
- * Users configure their log systems (CloudWatch Lambda, Datadog, Fluentd, etc.)
- * to POST logs here. NO CREDENTIALS STORED in DevOps Guardian.
- *
- * Expected payload formats:
- *
- * Generic:
- * { "source": "cloudwatch|datadog|custom", "projectId": "...", "logs": ["log line 1", ...] }
- *
- * CloudWatch (via Lambda subscription):
- * { "awslogs": { "data": "base64-encoded-gzip" } }
- *
- * Datadog Webhook:
- * { "alertType": "error", "title": "...", "body": "..." }
- */
-app.post("/webhook/logs", async (req, res) => {
-  try {
-    const payload = req.body;
-    console.log(`[Webhook] Received log push`);
-
-    let logs: string[] = [];
-    let source = "custom";
-    let projectId = payload.projectId || "unknown";
-
-    // Handle CloudWatch Lambda subscription format
-    if (payload.awslogs?.data) {
-      const zlib = await import("zlib");
-      const decoded = Buffer.from(payload.awslogs.data, "base64");
-      const unzipped = zlib.gunzipSync(decoded).toString("utf-8");
-      const cloudwatchData = JSON.parse(unzipped);
-      logs = cloudwatchData.logEvents?.map((e: any) => e.message) || [];
-      source = "cloudwatch";
-      projectId = cloudwatchData.logGroup || projectId;
-      console.log(`[Webhook] CloudWatch: ${logs.length} log events from ${projectId}`);
-    }
-    // Handle Generic Log Simulation (Raw JSON)
-    else if (req.body.log && req.body.source) {
-      console.log(`[Webhook] Simulation Event Received for Project: ${req.body.projectId}`);
-
-      // Construct an Incident from the raw log
-      const incidentId = crypto.randomUUID();
-      const incident = {
-        id: incidentId,
-        title: "Production Error: " + req.body.log.split("\n")[0].substring(0, 100),
-        description: req.body.log,
-        severity: "CRITICAL",
-        source: req.body.source,
-        status: "OPEN",
-        metadata: {
-          projectId: req.body.projectId,
-          raw_log: req.body.log,
-          timestamp: req.body.timestamp || new Date().toISOString(),
-          errorSource: req.body.environment || "ci-cd",
-        },
-        timestamp: new Date(),
-      };
-
-      console.log("Triggering Orchestrator with Mock Incident...", incidentId);
-      orchestrator.handleIncident(incident as any);
-      socketService.emitIncidentUpdate(incident as any);
-      // Emit the raw log so it shows up in Live Logs immediately
-      socketService.emitLog(req.body.projectId, req.body.log);
-
-      return res.status(200).json({ message: "Simulation triggered", incidentId });
-    }
-    // Handle Datadog webhook format
-    else if (payload.alertType || payload.event_type) {
-      source = "datadog";
-      logs = [payload.body || payload.msg || JSON.stringify(payload)];
-      console.log(`[Webhook] Datadog alert: ${payload.title || "Unknown"}`);
-    }
-    // Handle generic format
-    else if (payload.logs && Array.isArray(payload.logs)) {
-      source = payload.source || "custom";
-      logs = payload.logs;
-      console.log(`[Webhook] Generic: ${logs.length} logs from ${source}`);
-    }
-    // Fallback: treat entire body as single log
-    else if (typeof payload === "string" || payload.message) {
-      logs = [payload.message || JSON.stringify(payload)];
-    }
-
-    if (logs.length === 0) {
-      return res.status(200).json({ message: "No logs to process" });
-    }
-
-    // Emit live logs to socket
-    logs.forEach((log) => socketService.emitLog(projectId, log));
-
-    // Filter for errors
-    const errorLogs = logs.filter((log) => {
-      const lower = log.toLowerCase();
-      return (
-        lower.includes("error") ||
-        lower.includes("exception") ||
-        lower.includes("critical") ||
-        lower.includes("fatal") ||
-        lower.includes("failed")
-      );
-    });
-
-    if (errorLogs.length === 0) {
-      console.log(`[Webhook] No errors found in ${logs.length} logs. All clear.`);
-      return res.status(200).json({ message: "Acknowledged (no errors)" });
-    }
-
-    console.log(`[Webhook] Found ${errorLogs.length} error(s)! Creating incident...`);
-
-    // Create incident for each unique error (simplified: take first error)
-    const incident = {
-      id: crypto.randomUUID(),
-      source: source.toUpperCase() as any,
-      severity: "CRITICAL" as const,
-      title: `Production Error: ${errorLogs[0].substring(0, 100)}`,
-      description: errorLogs.join("\n").substring(0, 2000),
-      message: `${errorLogs.length} error(s) detected from ${source}`,
-      metadata: {
-        projectId,
-        logSource: source,
-        errorCount: errorLogs.length,
-        sampleErrors: errorLogs.slice(0, 5),
-      },
-      timestamp: new Date(),
-    };
-
-    // Trigger healing pipeline
-    orchestrator.handleIncident(incident as any);
-
-    // Emit socket event
-    socketService.emitIncidentUpdate(incident);
-
-    res.status(202).json({
-      message: "Errors detected, healing pipeline triggered.",
-      incidentId: incident.id,
-      errorCount: errorLogs.length,
-    });
-  } catch (error: any) {
-    console.error("Log Webhook error:", error);
-    res.status(400).json({ error: error.message });
-  }
-});
-
-// New Endpoint: Get active or history incidents
-app.get("/incidents", async (req, res) => {
+// New Endpoint: Get active or history incidents (only for the signed-in user's projects)
+app.get("/incidents", requireAuth, async (req, res) => {
   const { projectId, status } = req.query;
 
   try {
+    const projectIds = await accessibleProjectIds(req.auth!.user);
+    if (projectId && !projectIds.includes(projectId as string)) {
+      return res.status(403).json({ error: "You don't have access to this project" });
+    }
+    const visible = (i: any) => projectIds.includes((i.metadata as any)?.projectId);
+
     // Disable caching to prevent 304 issues with history updates
     res.setHeader("Cache-Control", "no-store, no-cache, must-revalidate, proxy-revalidate");
     res.setHeader("Pragma", "no-cache");
     res.setHeader("Expires", "0");
 
     // If status is specific (e.g. RESOLVED), fetch from DB (History)
+    // History also lists rejected / won't-fix incidents, they're finished too
     if (status === "RESOLVED") {
+      const orgIds = await accessibleOrgIds(req.auth!.user);
       const incidents = await import("@devops-guardian/shared").then((m) =>
         m.db.incident.findMany({
           where: {
-            status: "RESOLVED",
+            ...incidentAccessFilter(orgIds),
+            status: { in: ["RESOLVED", ...m.NOT_FIXED_INCIDENT_STATUSES, "CLOSED"] },
           },
           orderBy: { createdAt: "desc" },
           take: 50,
@@ -377,6 +332,7 @@ app.get("/incidents", async (req, res) => {
             agentRuns: {
               orderBy: { startedAt: "asc" },
             },
+            approvals: { orderBy: { createdAt: "asc" } },
           },
         }),
       );
@@ -402,7 +358,7 @@ app.get("/incidents", async (req, res) => {
     }
 
     // Default: Active incidents from Orchestrator memory (fast)
-    let incidents = orchestrator.getActiveIncidents();
+    let incidents = orchestrator.getActiveIncidents().filter(visible);
 
     if (projectId) {
       incidents = incidents.filter((i) => {
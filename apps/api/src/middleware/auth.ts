@@ -0,0 +1,132 @@
+import { NextFunction, Request, Response } from "express";
+import {
+  db,
+  getOrgRole,
+  getProjectRole,
+  hasRole,
+  InsufficientRoleError,
+  OrgRole,
+  Prisma,
+} from "@devops-guardian/shared";
+import {
+  AuthSession,
+  AuthUser,
+  SESSION_COOKIE,
+  SessionService,
+  parseCookies,
+} from "../services/SessionService.js";
+import { csrfViolation } from "./csrf.js";
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthSession;
+    }
+  }
+}
+
+/**
+ * Projects a user may see: those of organizations they are a member of.
+ */
+export function projectAccessFilter(user: AuthUser): Prisma.ProjectWhereInput {
+  return { org: { members: { some: { userId: user.id } } } };
+}
+
+export async function accessibleProjectIds(user: AuthUser): Promise<string[]> {
+  const projects = await db.project.findMany({
+    where: projectAccessFilter(user),
+    select: { id: true },
+  });
+  return projects.map((p) => p.id);
+}
+
+export async function accessibleOrgIds(user: AuthUser): Promise<string[]> {
+  const memberships = await db.membership.findMany({
+    where: { userId: user.id },
+    select: { orgId: true },
+  });
+  return memberships.map((m) => m.orgId);
+}
+
+export function incidentAccessFilter(orgIds: string[]): Prisma.IncidentWhereInput {
+  return { orgId: { in: orgIds } };
+}
+
+/**
+ * Rejects requests without a valid session cookie and exposes the session as `req.auth`.
+ * State-changing requests must also pass the CSRF checks (see csrfViolation).
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const violation = csrfViolation(req);
+  if (violation) {
+    console.warn(`[Auth] Rejected ${req.method} ${req.originalUrl}: ${violation}`);
+    return res.status(403).json({ error: violation });
+  }
+  try {
+    const token = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+    const session = await SessionService.getInstance().resolve(token);
+    if (!session) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    req.auth = session;
+    next();
+  } catch (error: any) {
+    console.error("[Auth] Session lookup failed:", error.message);
+    res.status(500).json({ error: "Failed to verify session" });
+  }
+}
+
+/**
+ * Checks that the signed-in user has at least `role` on the project named in the
+ * request. Must run after `requireAuth`.
+ *
+ * @param getProjectId Where the project id lives (defaults to `req.params.id`)
+ */
+export function requireProjectAccess(
+  getProjectId: (req: Request) => string | undefined = (req) => req.params.id,
+  role: OrgRole = "VIEWER",
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = getProjectId(req);
+      if (!projectId) return res.status(400).json({ error: "Missing projectId" });
+
+      const actual = await getProjectRole(req.auth!.user.id, projectId);
+      if (actual === undefined) return res.status(404).json({ error: "Project not found" });
+      if (!hasRole(actual, role)) {
+        return res.status(403).json({ error: new InsufficientRoleError(role, actual).message });
+      }
+      next();
+    } catch (error: any) {
+      console.error("[Auth] Project access check failed:", error.message);
+      res.status(500).json({ error: "Failed to verify project access" });
+    }
+  };
+}
+
+/**
+ * Same as `requireProjectAccess`, for routes addressed by organization.
+ *
+ * @param getOrgId Where the org id lives (defaults to `req.params.id`)
+ */
+export function requireOrgRole(
+  role: OrgRole,
+  getOrgId: (req: Request) => string | undefined = (req) => req.params.id,
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const orgId = getOrgId(req);
+      if (!orgId) return res.status(400).json({ error: "Missing orgId" });
+
+      const actual = await getOrgRole(req.auth!.user.id, orgId);
+      if (!actual) return res.status(404).json({ error: "Organization not found" });
+      if (!hasRole(actual, role)) {
+        return res.status(403).json({ error: new InsufficientRoleError(role, actual).message });
+      }
+      next();
+    } catch (error: any) {
+      console.error("[Auth] Organization access check failed:", error.message);
+      res.status(500).json({ error: "Failed to verify organization access" });
+    }
+  };
+}
@@ -0,0 +1,51 @@
+import { NextFunction, Request, Response } from "express";
+
+/**
+ * Origins the dashboard is served from: the only ones CORS lets through.
+ */
+export function allowedOrigins(): string[] {
+  return [process.env.FRONTEND_URL || "http://localhost:3002"];
+}
+
+// Set by the dashboard's apiFetch on every request
+export const CSRF_HEADER = "x-requested-with";
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Why a cookie-authenticated request may not change state, or null if it may.
+ *
+ * The session cookie is SameSite=None in production, so the browser attaches it
+ * to requests from any site. A form on another site can't set a custom header
+ * or send JSON, and a cross-site fetch that does needs a CORS preflight, which
+ * only allowed origins pass. The Origin header is checked as well.
+ */
+export function csrfViolation(req: Request): string | null {
+  if (SAFE_METHODS.includes(req.method)) return null;
+
+  const origin = req.headers.origin;
+  if (origin && !allowedOrigins().includes(origin)) {
+    return `Origin ${origin} is not allowed`;
+  }
+  if (!req.headers[CSRF_HEADER]) {
+    return `Missing ${CSRF_HEADER} header`;
+  }
+  const hasBody =
+    Number(req.headers["content-length"]) > 0 || req.headers["transfer-encoding"] !== undefined;
+  if (hasBody && !req.is("application/json")) {
+    return "Request body must be JSON";
+  }
+  return null;
+}
+
+/**
+ * Rejects state-changing requests that may come from another site (see csrfViolation).
+ */
+export function requireSameSiteRequest(req: Request, res: Response, next: NextFunction) {
+  const violation = csrfViolation(req);
+  if (violation) {
+    console.warn(`[Auth] Rejected ${req.method} ${req.originalUrl}: ${violation}`);
+    return res.status(403).json({ error: violation });
+  }
+  next();
+}
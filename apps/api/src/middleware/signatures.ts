@@ -0,0 +1,153 @@
+import crypto from "crypto";
+import { IncomingMessage, ServerResponse } from "http";
+import { NextFunction, Request, Response } from "express";
+import { db, Project } from "@devops-guardian/shared";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Exact request bytes, kept for signature checks
+      rawBody?: Buffer;
+      // Project whose webhook secret signed the delivery
+      webhookProject?: Project;
+    }
+  }
+}
+
+// Slack rejects anything older than this; so do we (replay protection)
+const SLACK_MAX_AGE_SECONDS = 5 * 60;
+
+/**
+ * `verify` hook for the body parsers. Signatures are computed over the bytes
+ * on the wire, which can't be rebuilt from the parsed body.
+ */
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer) {
+  (req as Request).rawBody = buf;
+}
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * `sha256=<hex>` HMAC of the body, the format of GitHub's X-Hub-Signature-256.
+ */
+export function signWebhookBody(secret: string, body: Buffer | string) {
+  return "sha256=" + crypto.createHmac("sha256", secret).update(body).digest("hex");
+}
+
+/**
+ * Verifies `X-Slack-Signature` (HMAC-SHA256 of `v0:<timestamp>:<body>` with the
+ * app's signing secret) and rejects requests older than five minutes.
+ *
+ * @param getSigningSecret Resolves the secret for the request (e.g. per project)
+ */
+export function verifySlackSignature(
+  getSigningSecret: (req: Request) => Promise<string | undefined>,
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const signature = req.header("x-slack-signature");
+      const timestamp = req.header("x-slack-request-timestamp");
+      if (!signature || !timestamp || !req.rawBody) {
+        console.warn("[Slack] Rejected unsigned request");
+        return res.status(401).json({ error: "Missing Slack signature" });
+      }
+
+      const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+      if (!Number.isFinite(age) || age > SLACK_MAX_AGE_SECONDS) {
+        console.warn(`[Slack] Rejected stale request (timestamp ${timestamp})`);
+        return res.status(401).json({ error: "Stale Slack request" });
+      }
+
+      const secret = await getSigningSecret(req);
+      if (!secret) {
+        console.warn("[Slack] Rejected request: no signing secret configured");
+        return res.status(401).json({ error: "Slack signing secret not configured" });
+      }
+
+      const expected =
+        "v0=" +
+        crypto
+          .createHmac("sha256", secret)
+          .update(`v0:${timestamp}:${req.rawBody.toString("utf8")}`)
+          .digest("hex");
+      if (!safeEqual(signature, expected)) {
+        console.warn("[Slack] Rejected request with invalid signature");
+        return res.status(401).json({ error: "Invalid Slack signature" });
+      }
+      next();
+    } catch (error: any) {
+      console.error("[Slack] Signature check failed:", error.message);
+      res.status(500).json({ error: "Failed to verify Slack signature" });
+    }
+  };
+}
+
+/**
+ * Verifies a CI webhook against the secrets of the projects for its repository
+ * and exposes the matching project as `req.webhookProject`. Rejected deliveries
+ * are recorded as `WebhookRejection`s, shown in the project settings.
+ *
+ * @param header Signature header, `sha256=<hex>` HMAC of the raw body
+ * @param getRepo Where the "owner/repo" lives in the payload
+ */
+export function verifyWebhookSignature(
+  source: "GITHUB" | "JENKINS",
+  header: string,
+  getRepo: (req: Request) => string | undefined,
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const repo = getRepo(req);
+    const reject = async (reason: string, projectIds: (string | null)[] = [null]) => {
+      console.warn(
+        `[Webhook] Rejected ${source} delivery for ${repo || "unknown repo"}: ${reason}`,
+      );
+      await db.webhookRejection
+        .createMany({
+          data: projectIds.map((projectId) => ({
+            source,
+            reason,
+            projectId,
+            repo,
+            deliveryId: req.header("x-github-delivery"),
+            remoteIp: req.ip,
+          })),
+        })
+        .catch((error) => console.error("[Webhook] Failed to record rejection:", error.message));
+      res.status(401).json({ error: reason });
+    };
+
+    try {
+      if (!repo) return await reject("Missing repository in payload");
+
+      // The same repository may be connected by several organizations
+      const projects = await db.project.findMany({ where: { githubRepo: repo } });
+      if (projects.length === 0) return await reject("Unknown repository");
+      const projectIds = projects.map((p) => p.id);
+
+      const signature = req.header(header);
+      if (!signature || !req.rawBody) return await reject(`Missing ${header} header`, projectIds);
+
+      const project = projects.find(
+        (p) =>
+          p.webhookSecret && safeEqual(signature, signWebhookBody(p.webhookSecret, req.rawBody!)),
+      );
+      if (!project) {
+        const configured = projects.some((p) => p.webhookSecret);
+        return await reject(
+          configured ? "Invalid signature" : "No webhook secret configured",
+          projectIds,
+        );
+      }
+
+      req.webhookProject = project;
+      next();
+    } catch (error: any) {
+      console.error("[Webhook] Signature check failed:", error.message);
+      res.status(500).json({ error: "Failed to verify webhook signature" });
+    }
+  };
+}
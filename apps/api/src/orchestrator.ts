@@ -1,36 +1,104 @@
-import { IncidentEvent, AgentStatus, AgentResult, db } from "@devops-guardian/shared";
+import {
+  IncidentEvent,
+  AgentStatus,
+  AgentResult,
+  IncidentStatus,
+  TERMINAL_INCIDENT_STATUSES,
+  transitionIncident,
+  StatusTransition,
+  IncidentActor,
+  ApprovalChannel,
+  recordApprovalDecision,
+  parseApprovalPolicy,
+  escalationSchedule,
+  approverSlackIds,
+  EscalationStep,
+  parseRemediationPolicy,
+  evaluateRemediationPolicy,
+  remediationFacts,
+  parsePatchGuard,
+  checkPatch,
+  scanPatchForSecrets,
+  recordSecretFindings,
+  resolveExecutionContext,
+  scrubIncidentCredentials,
+  getLLMBudgetStatus,
+  db,
+} from "@devops-guardian/shared";
 import { RCAAgent } from "./agents/rca.js";
 import { PatchAgent } from "./agents/patch.js";
 import { VerificationAgent } from "./agents/verify.js";
 import { PRAgent } from "./agents/pr.js";
-import { GeminiProvider, SlackService, SecretsManagerService } from "@devops-guardian/shared";
+import {
+  createLLMProvider,
+  createSlackService,
+  SlackService,
+  SecretsManagerService,
+} from "@devops-guardian/shared";
 import { MemoryAgent } from "./agents/memory.js";
 import { SocketService } from "./services/SocketService.js";
+import { WorkflowEngine } from "./services/WorkflowEngine.js";
 import dotenv from "dotenv";
 
 dotenv.config();
 
 // Ensure ESM compatibility for shared modules
 
+// Queue priority per Severity (higher runs first)
+const SEVERITY_PRIORITY: Record<string, number> = { CRITICAL: 2, WARNING: 1, INFO: 0 };
+
+// Timer input for the "escalation" step. `round` is the approvalRequestedAt it belongs to.
+type EscalationInput = { round: string; schedule: EscalationStep[]; index: number };
+
+// 90 -> "1 h 30 min"
+function formatWait(minutes: number) {
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+  return (
+    [days && `${days} d`, hours && `${hours} h`, mins && `${mins} min`].filter(Boolean).join(" ") ||
+    "0 min"
+  );
+}
+
 export class AgentOrchestrator {
   // Hybrid Storage: Map (Memory) + DB (Persistence)
   private activeIncidents: Map<string, IncidentEvent> = new Map();
 
   // Shared Services
-  private geminiProvider = new GeminiProvider(process.env.GEMINI_API_KEY || "");
-  private memoryAgent = new MemoryAgent(this.geminiProvider);
+  private memoryAgent = new MemoryAgent(
+    createLLMProvider(undefined, undefined, { agent: "memory" }),
+  );
   private secretsManager = new SecretsManagerService();
   private socketService = SocketService.getInstance();
 
   // Agents
-  private rcaAgent = new RCAAgent(process.env.GEMINI_API_KEY || "", this.memoryAgent);
+  private rcaAgent = new RCAAgent(this.memoryAgent);
   private patchAgent = new PatchAgent();
   private verificationAgent = new VerificationAgent(this.memoryAgent);
   private prAgent = new PRAgent();
 
+  // Durable step runner (RCA -> Patch -> Approval/Verify -> PR)
+  private engine = new WorkflowEngine({
+    onStepFailed: async (incidentId, step, error) => {
+      // A missed reminder is not a reason to fail the incident
+      if (step === "escalation") return;
+      await this.failIncident(incidentId, `Workflow step "${step}" failed: ${error}`);
+    },
+  });
+
   constructor() {
-    // Hydrate from DB on startup (optional, best effort)
-    this.hydrateFromDb();
+    this.engine.register("rca", (incidentId) => this.runRcaStep(incidentId));
+    this.engine.register("patch", (incidentId) => this.runPatchStep(incidentId));
+    this.engine.register("approval", (incidentId) => this.runApprovalStep(incidentId));
+    this.engine.register("verify", (incidentId, input) => this.runVerifyStep(incidentId, input));
+    this.engine.register("pr", (incidentId, input) => this.runPRStep(incidentId, input));
+    this.engine.register("escalation", (incidentId, input) =>
+      this.runEscalationStep(incidentId, input),
+    );
+
+    // Hydrate from DB, then resume workflow steps interrupted by a restart
+    this.hydrateFromDb().finally(() => this.engine.start());
   }
 
   /**
@@ -41,12 +109,12 @@ export class AgentOrchestrator {
       // 1. Try fetching from Secrets Manager
       const secrets = await this.secretsManager.getSlackConfig(projectId);
       if (secrets.botToken && secrets.channelId) {
-        return new SlackService(secrets.botToken, secrets.channelId);
+        return createSlackService(secrets.botToken, secrets.channelId);
       }
 
       // 2. Fallback to global env (for backward compatibility/dev)
       if (process.env.SLACK_BOT_TOKEN && process.env.SLACK_CHANNEL_ID) {
-        return new SlackService(process.env.SLACK_BOT_TOKEN, process.env.SLACK_CHANNEL_ID);
+        return createSlackService(process.env.SLACK_BOT_TOKEN, process.env.SLACK_CHANNEL_ID);
       }
     } catch (error) {
       console.warn(`[Orchestrator] Failed to load Slack config for ${projectId}`, error);
@@ -54,37 +122,143 @@ export class AgentOrchestrator {
     return null;
   }
 
-  // Best-effort hydration
+  // Best-effort hydration: recent incidents plus everything still in flight
   private async hydrateFromDb() {
+    // Older versions stored the GitHub token on the incident
+    try {
+      const scrubbed = await scrubIncidentCredentials();
+      if (scrubbed > 0) {
+        console.log(`[Orchestrator] Removed stored tokens from ${scrubbed} incident(s)`);
+      }
+    } catch (e) {
+      console.warn("[Orchestrator] Token scrub failed (ignoring):", e);
+    }
+
     try {
-      const stored = await db.incident.findMany({
-        take: 20,
-        orderBy: { createdAt: "desc" },
+      const include = {
+        agentRuns: { orderBy: { startedAt: "asc" as const } },
+        approvals: { orderBy: { createdAt: "asc" as const } },
+      };
+      const [recent, inFlight] = await Promise.all([
+        db.incident.findMany({ take: 20, orderBy: { createdAt: "desc" }, include }),
+        db.incident.findMany({
+          where: { status: { notIn: TERMINAL_INCIDENT_STATUSES } },
+          orderBy: { createdAt: "desc" },
+          take: 100,
+          include,
+        }),
+      ]);
+
+      [...recent, ...inFlight].forEach((stored) => {
+        this.activeIncidents.set(stored.id, this.toIncidentEvent(stored));
       });
-      stored.forEach(
-        (i: {
-          id: string;
-          title: any;
-          source: any;
-          severity: any;
-          description: any;
-          createdAt: any;
-        }) => {
-          this.activeIncidents.set(i.id, {
-            id: i.id,
-            title: i.title,
-            source: i.source as any,
-            severity: i.severity as any,
-            message: i.description,
-            timestamp: i.createdAt,
-          });
-        },
+      console.log(
+        `[Orchestrator] Hydrated ${this.activeIncidents.size} incident(s) (${inFlight.length} in flight)`,
       );
     } catch (e) {
       console.warn("DB Hydration failed (ignoring):", e);
     }
   }
 
+  /**
+   * Rebuilds the in-memory incident shape from a DB row.
+   */
+  private toIncidentEvent(stored: any): IncidentEvent {
+    return {
+      id: stored.id,
+      title: stored.title,
+      source: stored.source as any,
+      severity: stored.severity as any,
+      message: stored.description,
+      description: stored.description,
+      metadata: stored.metadata || {},
+      timestamp: stored.createdAt,
+      status: stored.status,
+      statusHistory: stored.statusHistory,
+      agentRuns: stored.agentRuns,
+      approvals: stored.approvals,
+    } as IncidentEvent;
+  }
+
+  /**
+   * Loads an incident for a workflow step. After a restart the memory cache is
+   * cold, so this falls back to the DB.
+   */
+  private async loadIncident(incidentId: string): Promise<IncidentEvent> {
+    let incident = this.activeIncidents.get(incidentId);
+    if (!incident) {
+      const stored = await db.incident.findUnique({ where: { id: incidentId } });
+      if (!stored) throw new Error(`Incident not found: ${incidentId}`);
+      incident = this.toIncidentEvent(stored);
+      this.activeIncidents.set(incidentId, incident);
+    }
+    return incident;
+  }
+
+  /**
+   * Merges step results into the incident metadata (memory + DB) so later
+   * steps can pick them up, even on another process.
+   */
+  private async saveMetadata(incident: IncidentEvent, data: Record<string, any>) {
+    incident.metadata = { ...(incident.metadata as any), ...data };
+    await db.incident.update({
+      where: { id: incident.id },
+      data: { metadata: incident.metadata as any },
+    });
+  }
+
+  /**
+   * Persists the workflow status (validated against the transition table,
+   * recorded in statusHistory) and broadcasts it.
+   */
+  private async updateStatus(
+    incident: IncidentEvent,
+    status: IncidentStatus,
+    statusMessage: string,
+    options: { actor?: string; metadata?: any } = {},
+  ) {
+    try {
+      const updated = await transitionIncident(incident.id, status, {
+        reason: statusMessage,
+        ...options,
+      });
+      (incident as any).status = updated.status;
+      (incident as any).statusHistory = updated.statusHistory;
+    } catch (e) {
+      console.error(`[Orchestrator] Failed to persist status ${status}:`, e);
+      return;
+    }
+    this.socketService.emitIncidentUpdate({ ...incident, statusMessage });
+  }
+
+  private async failIncident(incidentOrId: IncidentEvent | string, statusMessage: string) {
+    try {
+      const incident =
+        typeof incidentOrId === "string" ? await this.loadIncident(incidentOrId) : incidentOrId;
+      await this.updateStatus(incident, "FAILED", statusMessage);
+    } catch (e) {
+      console.error("[Orchestrator] Failed to mark incident as failed:", e);
+    }
+  }
+
+  /**
+   * Backpressure check, call before creating an incident.
+   */
+  public admitIncident(projectId?: string) {
+    return this.engine.admit(projectId);
+  }
+
+  public getQueueStats() {
+    return this.engine.getStats();
+  }
+
+  private queueOptions(incident: { severity?: string; metadata?: any }) {
+    return {
+      projectId: (incident.metadata as any)?.projectId,
+      priority: SEVERITY_PRIORITY[incident.severity || ""] ?? 0,
+    };
+  }
+
   public getActiveIncidents() {
     // Return from Memory (Fast & Reliable)
     return Array.from(this.activeIncidents.values());
@@ -104,6 +278,12 @@ export class AgentOrchestrator {
 
     // 1. Save Incident to DB
     try {
+      // Incidents inherit the organization of their project
+      const projectId = (incident.metadata as any)?.projectId;
+      const project = projectId
+        ? await db.project.findUnique({ where: { id: projectId }, select: { orgId: true } })
+        : null;
+
       await db.incident.create({
         data: {
           id: incident.id,
@@ -112,52 +292,58 @@ export class AgentOrchestrator {
           source: incident.source,
           severity: incident.severity,
           status: "OPEN",
+          statusHistory: [
+            { from: null, to: "OPEN", at: new Date().toISOString(), actor: "system" },
+          ],
           fingerprint: (incident as any).fingerprint,
           occurrenceCount: (incident as any).occurrenceCount || 1,
           lastSeen: (incident as any).lastSeen || new Date(),
-          metadata: incident as any,
+          metadata: incident.metadata as any,
+          orgId: project?.orgId,
         },
       });
     } catch (err) {
       console.error("[Orchestrator] Failed to persist incident:", err);
+      return;
     }
 
+    // 2. Hand off to the durable workflow (survives API restarts)
     try {
-      await this.runWorkflow(incident);
+      console.log("[Orchestrator] Starting Workflow: Monitor -> RCA -> Patch -> Verify");
+      await this.engine.enqueue(incident.id, "rca", undefined, this.queueOptions(incident));
     } catch (error) {
       console.error(`[Orchestrator] Workflow failed for ${incident.id}:`, error);
     }
   }
 
   /**
-   * The "Brain" of the operation.
-   * Decides which agents to call and in what order.
+   * Step 1: Root Cause Analysis
    */
-  private async runWorkflow(incident: IncidentEvent) {
-    console.log("[Orchestrator] Starting Workflow: Monitor -> RCA -> Patch -> Verify");
-
-    // Update Status
-    // Update Status
-    (incident as any).status = "RCA_IN_PROGRESS"; // Use string for UI simplicity
-    this.socketService.emitIncidentUpdate({
-      ...incident,
-      statusMessage: "Analyzing Root Cause...",
-    });
+  private async runRcaStep(incidentId: string) {
+    const incident = await this.loadIncident(incidentId);
+    await this.updateStatus(incident, "RCA_IN_PROGRESS", "Analyzing Root Cause...");
+
+    // Rules that don't depend on the patch can already decide
+    const remediation = await this.decideRemediation(incident);
+    if (remediation.action === "IGNORE") {
+      await this.updateStatus(incident, "WONT_FIX", "Ignored by remediation policy");
+      return { output: { ignored: true } };
+    }
 
-    // 1. RCA
-    // Ensure we have a valid GitHub token (fetched from Secrets Manager if redacted or missing)
-    const meta = incident.metadata as any;
-    if (meta?.projectId && (!meta.token || meta.token === "REDACTED")) {
-      console.log(`[Orchestrator] Fetching secure token for project: ${meta.projectId}`);
-      const secureToken = await this.secretsManager.getGitHubToken(meta.projectId);
-      if (secureToken) {
-        meta.token = secureToken;
-        incident.metadata = meta;
-      }
+    // Over the monthly LLM budget: no more model calls for this project
+    const budget = await this.checkLLMBudget(incident);
+    if (budget?.exceeded) {
+      const reason = `Auto-remediation paused: monthly LLM budget reached ($${budget.spentUsd.toFixed(2)} of $${budget.budgetUsd!.toFixed(2)})`;
+      await this.logAgentRun(incident.id, "Budget", AgentStatus.COMPLETED, reason);
+      await this.updateStatus(incident, "WONT_FIX", reason);
+      return { output: { budgetExceeded: true } };
     }
 
     await this.logAgentRun(incident.id, "RCA", AgentStatus.WORKING, "Starting analysis...");
-    const rcaResult = await this.rcaAgent.execute(incident);
+    const rcaResult = await this.rcaAgent.execute(
+      incident,
+      await resolveExecutionContext(incident),
+    );
     await this.logAgentRun(
       incident.id,
       "RCA",
@@ -166,19 +352,38 @@ export class AgentOrchestrator {
     );
 
     if (!rcaResult.success) {
-      console.warn("[Orchestrator] RCA failed (expected in scaffold). Proceeding to Patch Demo...");
-    } else {
-      incident.metadata = { ...incident.metadata, rcaData: rcaResult.data };
-      this.socketService.emitIncidentUpdate({ ...incident, statusMessage: "RCA Complete" });
+      console.error("[Orchestrator] RCA Failed. Stopping.");
+      await this.failIncident(incident, `RCA Failed: ${rcaResult.error}`);
+      return { output: { success: false, error: rcaResult.error } };
     }
 
-    // Step 2: Patch
+    await this.saveMetadata(incident, { rcaData: rcaResult.data });
+    this.socketService.emitIncidentUpdate({ ...incident, statusMessage: "RCA Complete" });
+
+    if (remediation.action === "RCA_ONLY") {
+      await this.updateStatus(incident, "WONT_FIX", "RCA complete (remediation policy: RCA only)");
+      return { output: { success: true, rcaOnly: true } };
+    }
+
+    return { output: { success: true }, next: { name: "patch" as const } };
+  }
+
+  /**
+   * Step 2: Patch, then branch on the error source
+   */
+  private async runPatchStep(incidentId: string) {
+    const incident = await this.loadIncident(incidentId);
+    const rcaData = (incident.metadata as any)?.rcaData;
+
     console.log("[2/4] Patch Agent starting...");
-    (incident as any).status = "PATCH_IN_PROGRESS";
-    this.socketService.emitIncidentUpdate({ ...incident, statusMessage: "Generating Code Fix..." });
+    await this.updateStatus(incident, "PATCH_IN_PROGRESS", "Generating Code Fix...");
 
     await this.logAgentRun(incident.id, "Patch", AgentStatus.WORKING, "Generating fix...");
-    const patchResult = await this.patchAgent.execute({ incident, rcaContext: rcaResult.data });
+    const patchResult = await this.patchAgent.execute({
+      incident,
+      rcaContext: rcaData,
+      context: await resolveExecutionContext(incident),
+    });
     await this.logAgentRun(
       incident.id,
       "Patch",
@@ -188,39 +393,249 @@ export class AgentOrchestrator {
 
     if (!patchResult.success) {
       console.error("[Orchestrator] Patch Failed. Stopping.");
-      (incident as any).status = "FAILED";
-      this.socketService.emitIncidentUpdate({
-        ...incident,
-        status: "FAILED",
-        statusMessage: "Patch Generation Failed",
-      });
-      await db.incident.update({
-        where: { id: incident.id },
-        data: { status: "FAILED" },
-      });
-      return;
+      await this.failIncident(incident, "Patch Generation Failed");
+      return { output: { success: false, error: patchResult.error } };
     }
 
-    incident.metadata = { ...incident.metadata, patchData: patchResult.data };
+    await this.saveMetadata(incident, { patchData: patchResult.data });
     this.socketService.emitIncidentUpdate({ ...incident, statusMessage: "Patch Generated" });
 
-    // Determine workflow based on error source
+    // Decided before RCA unless a rule looks at the patch (files, size)
+    const decided = (incident.metadata as any)?.remediation;
+    let action = decided
+      ? decided.action
+      : (await this.decideRemediation(incident, patchResult.data)).action;
+
+    // Protected paths / blast radius: flagged patches don't ship without a human
+    const guard = await this.guardPatch(incident, patchResult.data);
+    if (action === "AUTO_PR" && !guard.passed) {
+      console.log("[Orchestrator] Patch guard flagged the patch - requesting approval instead...");
+      action = "REQUIRE_APPROVAL";
+    }
+    const output = { success: true, files: patchResult.data?.files, action, guard: guard.passed };
+
+    if (action === "AUTO_PR") {
+      // Auto-fix workflow: self-healing verification, then PR (no approval needed)
+      console.log("[Orchestrator] Remediation policy: auto-fixing...");
+      return { output, next: { name: "verify" as const, input: { source: "ci-cd" } } };
+    }
+
+    if (action === "REQUIRE_APPROVAL") {
+      console.log("[Orchestrator] Remediation policy: requesting approval...");
+      return { output, next: { name: "approval" as const } };
+    }
+
+    // RCA only / ignore: keep the patch on the incident for reference, ship nothing
+    await this.updateStatus(
+      incident,
+      "WONT_FIX",
+      `Patch not shipped (remediation policy: ${action === "RCA_ONLY" ? "RCA only" : "ignore"})`,
+    );
+    return { output };
+  }
+
+  /**
+   * Applies the project's remediation policy to an incident (and its patch, once
+   * there is one). Final decisions are kept in `metadata.remediation` and shown on
+   * the incident timeline.
+   */
+  private async decideRemediation(incident: IncidentEvent, patchData?: any) {
+    const projectId = (incident.metadata as any)?.projectId;
+    const project = projectId
+      ? await db.project.findUnique({
+          where: { id: projectId },
+          select: { remediationPolicy: true },
+        })
+      : null;
+    const decision = evaluateRemediationPolicy(
+      parseRemediationPolicy(project?.remediationPolicy),
+      remediationFacts(incident, patchData),
+    );
+
+    // Re-runs start from scratch: the policy may have changed since
+    await this.saveMetadata(incident, {
+      remediation: decision.final ? { action: decision.action, rule: decision.rule } : null,
+    });
+    if (decision.final) {
+      await this.logAgentRun(
+        incident.id,
+        "Policy",
+        AgentStatus.COMPLETED,
+        `${decision.rule ? `Rule "${decision.rule}"` : "No rule matched, default"}: ${decision.action}`,
+      );
+    }
+    return decision;
+  }
+
+  /**
+   * The project's LLM spend this month. Null (no limit) when the check fails,
+   * so an accounting problem doesn't stop remediation.
+   */
+  private async checkLLMBudget(incident: IncidentEvent) {
+    const projectId = (incident.metadata as any)?.projectId;
+    if (!projectId) return null;
+    try {
+      return await getLLMBudgetStatus(projectId);
+    } catch (e) {
+      console.warn("[Orchestrator] LLM budget check failed (ignoring):", e);
+      return null;
+    }
+  }
+
+  /**
+   * Checks a patch against the project's guard (protected paths, max files and
+   * lines). The verdict is kept in `metadata.patchGuard` for the approval panel
+   * and the PR body.
+   */
+  private async guardPatch(incident: IncidentEvent, patchData: any) {
+    const projectId = (incident.metadata as any)?.projectId;
+    const project = projectId
+      ? await db.project.findUnique({ where: { id: projectId }, select: { patchGuard: true } })
+      : null;
+    const verdict = checkPatch(parsePatchGuard(project?.patchGuard), patchData || {});
+
+    await this.saveMetadata(incident, { patchGuard: verdict });
+    await this.logAgentRun(
+      incident.id,
+      "Guard",
+      AgentStatus.COMPLETED,
+      verdict.passed
+        ? `Patch guard passed (${verdict.files} file(s), ${verdict.lines} line(s))`
+        : `⚠️ Patch guard: approval required\n${verdict.violations.map((v) => `- ${v}`).join("\n")}`,
+    );
+    return verdict;
+  }
+
+  /**
+   * Step 3a (production): ask for approval. The workflow pauses here until
+   * handleApproval / handleRejection is called, or the project's escalation
+   * policy expires the request.
+   */
+  private async runApprovalStep(incidentId: string) {
+    const incident = await this.loadIncident(incidentId);
+    const { rcaData, patchData } = incident.metadata as any;
+
+    // A retry after the request went out: don't post the Slack card again
+    const stored = await db.incident.findUnique({
+      where: { id: incidentId },
+      select: { status: true, metadata: true },
+    });
+    if (stored?.status === "AWAITING_APPROVAL" && (stored.metadata as any)?.awaitingApproval) {
+      console.log(`[Orchestrator] Approval already requested for incident: ${incidentId}`);
+    } else {
+      await this.requestApproval(incident, rcaData, patchData);
+    }
+
     const metadata = incident.metadata as any;
-    const errorSource = metadata?.errorSource || "production"; // Default to safer option
+    const project = metadata.projectId
+      ? await db.project.findUnique({
+          where: { id: metadata.projectId },
+          select: { approvalPolicy: true },
+        })
+      : null;
+    const schedule = escalationSchedule(
+      parseApprovalPolicy(project?.approvalPolicy),
+      incident.severity,
+    );
 
-    if (errorSource === "ci-cd") {
-      // CI/CD: Auto-fix workflow (no approval needed)
-      console.log("[Orchestrator] CI/CD error detected - auto-fixing...");
-      await this.runAutoFixWorkflow(incident, rcaResult.data, patchResult.data);
-      return;
+    return {
+      output: { awaitingApproval: true, escalations: schedule.length },
+      next: this.escalationTimer({ round: metadata.approvalRequestedAt, schedule, index: 0 }),
+    };
+  }
+
+  /**
+   * The durable timer for the next escalation step of an approval round, if any.
+   */
+  private escalationTimer(input: EscalationInput) {
+    const step = input.schedule[input.index];
+    if (!step) return undefined;
+    return {
+      name: "escalation" as const,
+      input,
+      runAfter: new Date(new Date(input.round).getTime() + step.afterMinutes * 60_000),
+    };
+  }
+
+  /**
+   * Step 3b (timer): remind the approvers, escalate to on-call or auto-reject
+   * an incident that is still waiting for approval. Posted to the approval card's
+   * Slack thread and recorded as an "Escalation" agent run.
+   */
+  private async runEscalationStep(incidentId: string, input: EscalationInput) {
+    const stored = await db.incident.findUnique({ where: { id: incidentId } });
+    const metadata = (stored?.metadata as any) || {};
+
+    // Decided, re-run or expired since the timer was set: nothing to do
+    if (
+      stored?.status !== "AWAITING_APPROVAL" ||
+      !metadata.awaitingApproval ||
+      metadata.approvalRequestedAt !== input.round
+    ) {
+      return { output: { skipped: true } };
     }
 
-    if (errorSource === "production") {
-      // Production: Request approval before proceeding
-      console.log("[Orchestrator] Production error detected - requesting approval...");
-      await this.requestApproval(incident, rcaResult.data, patchResult.data);
-      return;
+    const step = input.schedule[input.index];
+    const waited = formatWait(step.afterMinutes);
+    const incident = await this.loadIncident(incidentId);
+    const project = metadata.projectId
+      ? await db.project.findUnique({
+          where: { id: metadata.projectId },
+          select: { approvalPolicy: true },
+        })
+      : null;
+    const policy = parseApprovalPolicy(project?.approvalPolicy);
+
+    const slackService = await this.getSlackService(metadata.projectId || "");
+    const thread = metadata.slackThread as { channelId: string; threadTs: string } | undefined;
+    const replyInThread = async (text: string) => {
+      if (slackService && thread) {
+        await slackService.replyToThread(thread.channelId, thread.threadTs, text);
+      }
+    };
+
+    let message: string;
+    if (step.action === "REMIND") {
+      const mentions = stored.orgId ? await approverSlackIds(stored.orgId, policy) : [];
+      message = `⏰ Still waiting for approval after ${waited}.`;
+      await replyInThread(
+        mentions.length ? `${message} ${mentions.map((id) => `<@${id}>`).join(" ")}` : message,
+      );
+    } else if (step.action === "ESCALATE") {
+      const target = policy.onCallChannelId ? `<#${policy.onCallChannelId}>` : "the channel";
+      message = `📣 No decision after ${waited}. Escalated to on-call.`;
+      if (slackService) {
+        const link = thread
+          ? await slackService.getPermalink(thread.channelId, thread.threadTs)
+          : null;
+        await slackService.postMessage(
+          `🚨 *Approval overdue* (${stored.severity}): ${stored.title} has waited ${waited} for a decision.${link ? ` <${link}|Open the approval thread>` : ""}`,
+          policy.onCallChannelId,
+        );
+      }
+      await replyInThread(`📣 No decision after ${waited}. Escalated to ${target}.`);
+    } else {
+      // Same claim as the approval quorum: a concurrent approval wins or loses atomically
+      const reason = `Approval expired after ${waited}`;
+      const closed = await this.closeApprovalRound(
+        incident,
+        { rejectedBy: "system", rejectionReason: reason },
+        { reason, actor: "system" },
+      );
+      if (!closed) return { output: { skipped: true } };
+
+      message = `⌛ No decision after ${waited}. The fix was auto-rejected.`;
+      this.socketService.emitIncidentUpdate({ ...incident, statusMessage: reason });
+      await replyInThread(message);
     }
+
+    console.log(`[Orchestrator] Escalation ${step.action} for incident ${incidentId}`);
+    await this.logAgentRun(incidentId, "Escalation", AgentStatus.COMPLETED, message);
+
+    return {
+      output: { action: step.action },
+      next: this.escalationTimer({ ...input, index: input.index + 1 }),
+    };
   }
 
   private async logAgentRun(incidentId: string, name: string, status: AgentStatus, log: string) {
@@ -250,7 +665,7 @@ export class AgentOrchestrator {
       }
 
       // 3. Emit live log & run status
-      const projectId = (incident?.metadata as any)?.projectId || "unknown";
+      const projectId = (incident?.metadata as any)?.projectId;
       this.socketService.emitLog(
         projectId,
         log,
@@ -258,7 +673,7 @@ export class AgentOrchestrator {
         name,
         incidentId,
       );
-      this.socketService.emitAgentRun(incidentId, run);
+      this.socketService.emitAgentRun(projectId, incidentId, run);
 
       // Also emit incident update to refresh basic status
       if (incident) {
@@ -270,14 +685,19 @@ export class AgentOrchestrator {
   }
 
   /**
-  /**
-   * CI/CD Auto-Fix Workflow: Verify -> PR -> Slack Notification
+   * Step 3: Verify in the sandbox.
+   * CI/CD runs a self-healing loop (re-patch on failure); production verifies
+   * the approved patch once.
    */
-  private async runAutoFixWorkflow(incident: IncidentEvent, rcaData: any, patchData: any) {
-    // Step 3: Verify with Self-Healing Loop
+  private async runVerifyStep(incidentId: string, input: { source: string }) {
+    const incident = await this.loadIncident(incidentId);
+    const { rcaData, patchData } = incident.metadata as any;
+    const source = input?.source || "ci-cd";
+    const context = await resolveExecutionContext(incident);
+
     let verified = false;
     let attempt = 0;
-    const MAX_RETRIES = 3;
+    const MAX_RETRIES = source === "ci-cd" ? 3 : 1;
     let currentPatchData = patchData;
     let verificationLogs: string[] = [];
 
@@ -302,6 +722,7 @@ export class AgentOrchestrator {
           incident,
           rcaContext: rcaData,
           previousFailures: verificationLogs,
+          context,
         });
 
         if (!retryPatchResult.success) {
@@ -320,11 +741,11 @@ export class AgentOrchestrator {
 
       // 3.2 Verify
       console.log(`[3/4] Verification Agent starting (Attempt ${attempt + 1})...`);
-      (incident as any).status = "VERIFY_IN_PROGRESS";
-      this.socketService.emitIncidentUpdate({
-        ...incident,
-        statusMessage: `Verifying Fix in Sandbox (Attempt ${attempt + 1})...`,
-      });
+      await this.updateStatus(
+        incident,
+        "VERIFY_IN_PROGRESS",
+        `Verifying Fix in Sandbox (Attempt ${attempt + 1})...`,
+      );
 
       await this.logAgentRun(
         incident.id,
@@ -336,6 +757,7 @@ export class AgentOrchestrator {
         incident,
         currentPatchData,
         rcaData,
+        context,
       );
 
       await this.logAgentRun(
@@ -347,6 +769,7 @@ export class AgentOrchestrator {
 
       if (verifyResult.success) {
         verified = true;
+        currentPatchData = { ...currentPatchData, verification: verifyResult.data?.comparison };
         console.log("[Orchestrator] Verification Successful!");
       } else {
         verificationLogs = verifyResult.data?.logs || [verifyResult.error || "Unknown error"];
@@ -356,30 +779,43 @@ export class AgentOrchestrator {
 
     if (!verified) {
       console.error("[Orchestrator] All verification attempts failed. Stopping auto-fix.");
-      this.socketService.emitIncidentUpdate({
-        ...incident,
-        status: "FAILED",
-        statusMessage: "Verification Failed (Max Retries Exceeded)",
-      });
-      return;
+      await this.failIncident(
+        incident,
+        source === "ci-cd" ? "Verification Failed (Max Retries Exceeded)" : "Verification Failed",
+      );
+      return { output: { verified: false, attempts: attempt } };
+    }
+
+    await this.saveMetadata(incident, { patchData: currentPatchData });
+
+    // Self-healing re-patches skipped the guard after the Patch step: check again
+    if (source === "ci-cd" && attempt > 0) {
+      const guard = await this.guardPatch(incident, currentPatchData);
+      if (!guard.passed) {
+        console.log("[Orchestrator] Patch guard flagged the re-patch - requesting approval...");
+        return {
+          output: { verified: true, attempts: attempt + 1, guard: false },
+          next: { name: "approval" as const },
+        };
+      }
     }
 
     // Step 4: Create PR and notify
-    await this.createPRAndNotify(incident, currentPatchData, rcaData, "ci-cd");
+    return {
+      output: { verified: true, attempts: attempt + 1 },
+      next: { name: "pr" as const, input: { source } },
+    };
   }
 
   /**
    * Production Approval Workflow: Send Slack notification -> Wait for approval
    */
   private async requestApproval(incident: IncidentEvent, rcaData: any, patchData: any) {
-    (incident as any).status = "AWAITING_APPROVAL";
-    this.socketService.emitIncidentUpdate({
-      ...incident,
-      statusMessage: "Waiting for Approval (Slack)...",
-    });
+    await this.updateStatus(incident, "AWAITING_APPROVAL", "Waiting for Approval (Slack)...");
 
     const projectId = (incident.metadata as any)?.projectId;
     const slackService = await this.getSlackService(projectId);
+    let slackThread = null;
 
     if (!slackService) {
       console.warn(
@@ -388,8 +824,8 @@ export class AgentOrchestrator {
       // DO NOT Auto-Fix. User requested manual confirmation.
       // We retain AWAITING_APPROVAL status so Dashboard can show buttons.
     } else {
-      // Send approval request to Slack
-      await slackService.sendIncidentNotification({
+      // Send approval request to Slack; reminders and escalations go to its thread
+      slackThread = await slackService.sendIncidentNotification({
         id: incident.id,
         title: incident.title || "Unknown Incident",
         rcaAnalysis: rcaData?.analysis || "RCA analysis pending",
@@ -398,199 +834,234 @@ export class AgentOrchestrator {
       console.log(`[Orchestrator] Approval request sent to Slack for incident: ${incident.id}`);
     }
 
-    // Store incident data for when user approves
-    await db.incident.update({
-      where: { id: incident.id },
-      data: {
-        metadata: {
-          ...(incident.metadata as any),
-          rcaData,
-          patchData,
-          awaitingApproval: true,
-        },
-      },
+    // Store incident data for when user approves. Approvals before this don't count.
+    await this.saveMetadata(incident, {
+      rcaData,
+      patchData,
+      awaitingApproval: true,
+      approvalRequestedAt: new Date().toISOString(),
+      slackThread,
     });
   }
 
   /**
-   * Verified in Sandbox (Triggered by Slack)
+   * Re-runs sandbox verification of the pending patch (Slack button or dashboard).
+   * Logs stream to the incident terminal; the result is also posted to the Slack
+   * thread when the request came from Slack.
    */
-  async handleVerificationRequest(incidentId: string, channelId: string, threadTs: string) {
+  async handleVerificationRequest(
+    incidentId: string,
+    slackThread?: { channelId: string; threadTs: string },
+  ) {
     console.log(`[Orchestrator] Manual verification requested for: ${incidentId}`);
 
     let slackService: SlackService | null = null;
+    let projectId: string | undefined;
 
-    try {
-      const incident = await db.incident.findUnique({ where: { id: incidentId } });
-      if (!incident) {
-        throw new Error("Incident not found");
+    const report = async (message: string, level = "INFO") => {
+      this.socketService.emitLog(projectId, message, level, "Verify", incidentId);
+      if (slackService && slackThread) {
+        await slackService.replyToThread(slackThread.channelId, slackThread.threadTs, message);
       }
+    };
+
+    try {
+      const incident = await this.loadIncident(incidentId);
+      projectId = (incident.metadata as any)?.projectId;
 
       this.socketService.emitIncidentUpdate({
         ...incident,
         statusMessage: "Manual Verification Requested...",
       });
 
-      const projectId = (incident.metadata as any)?.projectId || "";
-      slackService = await this.getSlackService(projectId);
-
-      if (slackService) {
-        await slackService.replyToThread(
-          channelId,
-          threadTs,
-          "🧪 Starting E2B Sandbox Verification... (This may take a minute)",
-        );
-      }
-
-      const metadata = incident.metadata as any;
-      const { patchData } = metadata;
+      if (slackThread) slackService = await this.getSlackService(projectId || "");
+      await report("🧪 Starting Sandbox Verification... (This may take a minute)");
 
+      const { patchData } = incident.metadata as any;
       if (!patchData) {
         throw new Error("No patch data found to verify");
       }
 
       // Run Verification
-      const verifyResult = await this.verificationAgent.execute(incident as any, patchData);
+      const verifyResult = await this.verificationAgent.execute(
+        incident,
+        patchData,
+        undefined,
+        await resolveExecutionContext(incident),
+      );
+
+      const comparison = verifyResult.data?.comparison;
+      const comparisonLine = comparison?.before
+        ? `\nBefore patch: ${comparison.before.passed ? "✅" : "❌"}  After patch: ${comparison.after?.passed ? "✅" : "❌"}  (${comparison.outcome})`
+        : "";
 
       const logOutput = verifyResult.success
-        ? "✅ Verification Passed! Tests are green."
-        : `❌ Verification Failed.\n\nLogs:\n${JSON.stringify(verifyResult.data?.error || "Unknown error", null, 2)}`;
+        ? `✅ Verification Passed! Tests are green with the patch applied.${comparisonLine}`
+        : `❌ Verification Failed.${comparisonLine}\n\nLogs:\n${JSON.stringify(verifyResult.data?.error || "Unknown error", null, 2)}`;
 
-      // Reply to thread with results
-      if (slackService) {
-        await slackService.replyToThread(channelId, threadTs, logOutput);
-      }
+      await report(logOutput, verifyResult.success ? "INFO" : "ERROR");
     } catch (error: any) {
       console.error("[Orchestrator] Verification failed:", error);
-      if (slackService) {
-        await slackService.replyToThread(
-          channelId,
-          threadTs,
-          `⚠️ Verification process error: ${error.message}`,
-        );
-      }
+      await report(`⚠️ Verification process error: ${error.message}`, "ERROR").catch(() => {});
     }
   }
 
   /**
-   * Called when user approves in Slack
+   * Called when a user approves (Slack or dashboard). The fix ships once the
+   * project's approval policy is met.
+   *
+   * @throws InsufficientRoleError / ApproverNotAllowedError if the approver isn't allowed
    */
-  async handleApproval(incidentId: string) {
+  async handleApproval(incidentId: string, approver: IncidentActor, channel: ApprovalChannel) {
+    const stored = await db.incident.findUnique({ where: { id: incidentId } });
+    if (!stored) {
+      console.error(`[Orchestrator] Incident not found: ${incidentId}`);
+      return null;
+    }
+    if (!(stored.metadata as any)?.awaitingApproval) {
+      console.warn(`[Orchestrator] Incident ${incidentId} is not awaiting approval. Ignoring.`);
+      return null;
+    }
+
+    const tally = await recordApprovalDecision(incidentId, approver, "APPROVED", channel);
+    console.log(
+      `[Orchestrator] Approval received for: ${incidentId} (${tally.approval.login}, ${tally.approvers.length}/${tally.required})`,
+    );
+
     try {
-      const incident = await db.incident.findUnique({ where: { id: incidentId } });
-      if (!incident) {
-        console.error(`[Orchestrator] Incident not found: ${incidentId}`);
-        return;
-      }
+      const event = await this.loadIncident(incidentId);
+      await this.refreshApprovals(event);
 
-      const metadata = incident.metadata as any;
-      const { rcaData, patchData } = metadata;
+      if (!tally.approved) {
+        this.socketService.emitIncidentUpdate({
+          ...event,
+          statusMessage: `Approved by ${tally.approvers.join(", ")} (${tally.approvers.length}/${tally.required}). Waiting for more approvals...`,
+        });
+        return tally;
+      }
 
-      console.log(`[Orchestrator] Approval received for: ${incidentId}`);
+      // Concurrent approvals can both reach quorum: only one resumes the workflow
+      if (!(await this.closeApprovalRound(event, { approvedBy: tally.approvers }))) return tally;
 
       this.socketService.emitIncidentUpdate({
-        ...incident,
+        ...event,
         statusMessage: "Approval Received. Resuming...",
       });
 
       // Continue with verification and PR creation
-      await this.createPRAndNotify(incident as any, patchData, rcaData, "production");
+      await this.engine.enqueue(
+        incidentId,
+        "verify",
+        { source: "production" },
+        this.queueOptions(event),
+      );
     } catch (error) {
       console.error("[Orchestrator] Approval handling failed:", error);
     }
+    return tally;
   }
 
   /**
-   * Called when user REJECTS in Slack
+   * Called when a user rejects (Slack or dashboard). One rejection from an
+   * allowed approver is enough.
+   *
+   * @throws InsufficientRoleError / ApproverNotAllowedError if the user isn't allowed to reject
    */
-  async handleRejection(incidentId: string) {
-    try {
-      const incident = await db.incident.findUnique({ where: { id: incidentId } });
-      if (!incident) {
-        console.error(`[Orchestrator] Incident not found for rejection: ${incidentId}`);
-        return;
-      }
-
-      console.log(`[Orchestrator] Rejection received for: ${incidentId}`);
-
-      // Update in DB
-      await db.incident.update({
-        where: { id: incidentId },
-        data: {
-          status: "RESOLVED", // or CANCELLED if we prefer
-          metadata: {
-            ...(incident.metadata as any),
-            rejectedBy: "user",
-            rejectionReason: "Slack Interaction",
-          },
-        },
-      });
+  async handleRejection(incidentId: string, rejecter: IncidentActor, channel: ApprovalChannel) {
+    const stored = await db.incident.findUnique({ where: { id: incidentId } });
+    if (!stored) {
+      console.error(`[Orchestrator] Incident not found for rejection: ${incidentId}`);
+      return null;
+    }
+    if (!(stored.metadata as any)?.awaitingApproval) {
+      console.warn(`[Orchestrator] Incident ${incidentId} is not awaiting approval. Ignoring.`);
+      return null;
+    }
 
-      // Emit socket update
-      this.socketService.emitIncidentUpdate({
-        ...incident,
-        status: "RESOLVED",
-        statusMessage: "Fix Rejected by User (Won't Fix)",
-      });
+    const { approval } = await recordApprovalDecision(incidentId, rejecter, "REJECTED", channel);
+    const rejectedBy = approval.login;
+    console.log(`[Orchestrator] Rejection received for: ${incidentId} (${rejectedBy})`);
 
-      // Update memory state
-      if (this.activeIncidents.has(incidentId)) {
-        const cached = this.activeIncidents.get(incidentId);
-        if (cached) {
-          (cached as any).status = "RESOLVED";
-          this.activeIncidents.set(incidentId, cached);
-        }
-      }
+    try {
+      // Rejected fixes are not resolutions: keep them out of MTTR / success rate
+      const incident = await this.loadIncident(incidentId);
+      await this.refreshApprovals(incident);
+      const statusMessage = "Fix Rejected by User (Won't Fix)";
+      const closed = await this.closeApprovalRound(
+        incident,
+        { rejectedBy, rejectionReason: channel === "SLACK" ? "Slack Interaction" : "Dashboard" },
+        { reason: statusMessage, actor: rejectedBy },
+      );
+      // A concurrent approval reached quorum first
+      if (!closed) return approval;
+      this.socketService.emitIncidentUpdate({ ...incident, statusMessage });
     } catch (error) {
       console.error("[Orchestrator] Rejection handling failed:", error);
     }
+    return approval;
+  }
+
+  // Approval records, for the incident timeline
+  private async refreshApprovals(incident: IncidentEvent) {
+    (incident as any).approvals = await db.approval.findMany({
+      where: { incidentId: incident.id },
+      orderBy: { createdAt: "asc" },
+    });
   }
 
   /**
-   *  Shared PR creation and notification logic
+   * Ends the approval round if the incident is still awaiting a decision.
+   * Merges only the decision keys into the stored metadata, so writes made
+   * since it was read (e.g. by a concurrent decision) aren't overwritten.
+   * A rejection moves the incident to REJECTED in the same statement, so a
+   * crash can't leave it awaiting approval with nobody able to decide it.
+   * Returns false if another decision closed the round first.
    */
-  private async createPRAndNotify(
+  private async closeApprovalRound(
     incident: IncidentEvent,
-    patchData: any,
-    rcaData: any,
-    source: string,
+    decision: Record<string, any>,
+    rejection?: { reason: string; actor: string },
   ) {
-    //Step 3: Verify (for production flow)
-    if (source === "production") {
-      console.log("[3/4] Verification Agent starting...");
-      (incident as any).status = "VERIFY_IN_PROGRESS";
-      this.socketService.emitIncidentUpdate({
-        ...incident,
-        statusMessage: "Verifying Fix in Sandbox...",
-      });
-
-      await this.logAgentRun(incident.id, "Verify", AgentStatus.WORKING, "Verifying fix...");
-      const verifyResult = await this.verificationAgent.execute(incident, patchData, rcaData);
-      await this.logAgentRun(
-        incident.id,
-        "Verify",
-        verifyResult.success ? AgentStatus.COMPLETED : AgentStatus.FAILED,
-        JSON.stringify(verifyResult),
-      );
+    const changes = { ...decision, awaitingApproval: false };
+    const status: IncidentStatus = rejection ? "REJECTED" : "AWAITING_APPROVAL";
+    const transitions: StatusTransition[] = rejection
+      ? [{ from: "AWAITING_APPROVAL", to: status, at: new Date().toISOString(), ...rejection }]
+      : [];
+
+    const rows = await db.$queryRaw<{ status: IncidentStatus; statusHistory: unknown }[]>`
+      UPDATE "Incident"
+      SET "metadata" = "metadata" || ${JSON.stringify(changes)}::jsonb,
+        "status" = ${status}::"IncidentStatus",
+        "statusHistory" = "statusHistory" || ${JSON.stringify(transitions)}::jsonb,
+        "updatedAt" = NOW()
+      WHERE "id" = ${incident.id}
+        AND "status" = 'AWAITING_APPROVAL'
+        AND "metadata" -> 'awaitingApproval' = 'true'::jsonb
+      RETURNING "status", "statusHistory"
+    `;
+    if (rows.length === 0) return false;
+    incident.metadata = { ...(incident.metadata as any), ...changes };
+    (incident as any).status = rows[0].status;
+    (incident as any).statusHistory = rows[0].statusHistory;
+    return true;
+  }
 
-      if (!verifyResult.success) {
-        console.error("[Orchestrator] Verification failed.");
-        this.socketService.emitIncidentUpdate({
-          ...incident,
-          status: "FAILED",
-          statusMessage: "Verification Failed",
-        });
-        return;
-      }
+  /**
+   * Step 4: PR creation and notification (shared by CI/CD and production)
+   */
+  private async runPRStep(incidentId: string, input: { source: string }) {
+    const incident = await this.loadIncident(incidentId);
+    const { rcaData, patchData } = incident.metadata as any;
+    const source = input?.source || "production";
+
+    // A retry after the PR was recorded: don't open (or announce) it twice
+    if ((incident.metadata as any)?.prUrl) {
+      return { output: { success: true, prUrl: (incident.metadata as any).prUrl } };
     }
 
     // Step 4: PR Creation
     console.log('[4/4] PR Agent: "Creating Pull Request..."');
-    (incident as any).status = "PR_CREATION_IN_PROGRESS";
-    this.socketService.emitIncidentUpdate({
-      ...incident,
-      statusMessage: "Creating Pull Request...",
-    });
+    await this.updateStatus(incident, "PR_CREATION_IN_PROGRESS", "Creating Pull Request...");
 
     const metadata = incident.metadata as any;
     const owner = metadata?.owner;
@@ -598,15 +1069,39 @@ export class AgentOrchestrator {
 
     if (!owner || !repo) {
       console.warn("[Orchestrator] Skipped PR: Missing owner/repo.");
-      return;
+      return { output: { skipped: true } };
+    }
+
+    // Never push a patch that adds credentials, whoever approved it
+    const secrets = scanPatchForSecrets(patchData?.diff || "").filter((f) => f.kind === "secret");
+    if (secrets.length > 0) {
+      console.warn(`[Orchestrator] PR blocked: patch adds ${secrets.length} secret(s).`);
+      await recordSecretFindings(incident.id, "PATCH", secrets, "BLOCKED");
+      await this.failIncident(incident, "PR blocked: patch contains secrets");
+      return { output: { success: false, blocked: "secrets" } };
+    }
+
+    // Fixed before the first attempt, so a retry finds the branch and PR it created
+    if (!metadata.prBranch) {
+      await this.saveMetadata(incident, {
+        prBranch: `fix/incident-${incident.id.substring(0, 8)}-${Date.now()}`,
+      });
     }
 
     await this.logAgentRun(incident.id, "PR", AgentStatus.WORKING, "Creating PR...");
     const prResult = await this.prAgent.execute(
       incident,
-      { owner, repo, fileUpdates: patchData.fileUpdates },
+      {
+        owner,
+        repo,
+        branch: (incident.metadata as any).prBranch,
+        fileUpdates: patchData.fileUpdates,
+        verification: patchData.verification, // Before/after test comparison from the sandbox
+        guard: metadata?.patchGuard,
+        approvedBy: metadata?.approvedBy,
+      },
       rcaData, // Pass RCA data for better PR body
-      metadata?.token,
+      (await resolveExecutionContext(incident)).githubToken || "",
     );
 
     await this.logAgentRun(
@@ -618,42 +1113,17 @@ export class AgentOrchestrator {
 
     if (!prResult.success) {
       console.error("[Orchestrator] PR creation failed.");
-      this.socketService.emitIncidentUpdate({
-        ...incident,
-        status: "FAILED",
-        statusMessage: "PR Creation Failed",
-      });
-      return;
+      await this.failIncident(incident, "PR Creation Failed");
+      return { output: { success: false, error: prResult.error } };
     }
 
     const prUrl = prResult.data.prUrl;
     console.log(`[Orchestrator] PR created: ${prUrl}`);
 
-    (incident as any).status = "RESOLVED";
-
     // Persist Resolution to DB
-    try {
-      await db.incident.update({
-        where: { id: incident.id },
-        data: {
-          status: "RESOLVED",
-          metadata: {
-            ...(incident.metadata as any), // preserve existing metadata
-            prUrl,
-            resolvedAt: new Date(),
-          },
-        },
-      });
-    } catch (e) {
-      console.error("[Orchestrator] Failed to persist resolution status:", e);
-    }
-
-    this.socketService.emitIncidentUpdate({
-      ...incident,
-      status: "RESOLVED",
-      statusMessage: "PR Created!",
-      prUrl,
-    });
+    incident.metadata = { ...(incident.metadata as any), prUrl, resolvedAt: new Date() };
+    (incident as any).prUrl = prUrl;
+    await this.updateStatus(incident, "RESOLVED", "PR Created!", { metadata: incident.metadata });
 
     // Send Slack notification based on source
     const projectId = (incident.metadata as any)?.projectId || "";
@@ -671,6 +1141,8 @@ export class AgentOrchestrator {
         await slackService.sendPRCreatedNotification(prUrl, incident.title || "PR Created");
       }
     }
+
+    return { output: { success: true, prUrl } };
   }
 }
 
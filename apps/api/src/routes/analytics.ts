@@ -1,13 +1,22 @@
-import { Router } from "express";
-import { db } from "@devops-guardian/shared";
+import { Request, Router } from "express";
+import { db, NOT_FIXED_INCIDENT_STATUSES, startOfMonth } from "@devops-guardian/shared";
+import { accessibleOrgIds, incidentAccessFilter, requireAuth } from "../middleware/auth.js";
 
 export const analyticsRouter = Router();
 
+analyticsRouter.use(requireAuth);
+
+// Analytics only count incidents from the signed-in user's organizations
+async function incidentScope(req: Request) {
+  return incidentAccessFilter(await accessibleOrgIds(req.auth!.user));
+}
+
 // GET /analytics/mttr
 analyticsRouter.get("/mttr", async (req, res) => {
   try {
+    const scope = await incidentScope(req);
     const incidents = await db.incident.findMany({
-      where: { status: "RESOLVED" },
+      where: { ...scope, status: "RESOLVED" },
       select: {
         createdAt: true,
         metadata: true,
@@ -48,6 +57,7 @@ analyticsRouter.get("/severity-distribution", async (req, res) => {
   try {
     const distribution = await db.incident.groupBy({
       by: ["severity"],
+      where: await incidentScope(req),
       _count: true,
     });
 
@@ -63,11 +73,33 @@ analyticsRouter.get("/severity-distribution", async (req, res) => {
   }
 });
 
+// GET /analytics/status-distribution
+analyticsRouter.get("/status-distribution", async (req, res) => {
+  try {
+    const distribution = await db.incident.groupBy({
+      by: ["status"],
+      where: await incidentScope(req),
+      _count: true,
+    });
+
+    res.json({
+      distribution: distribution.map((d: any) => ({
+        status: d.status,
+        count: d._count,
+      })),
+    });
+  } catch (error) {
+    console.error("[Analytics] Status distribution error:", error);
+    res.status(500).json({ error: "Failed to get status distribution" });
+  }
+});
+
 // GET /analytics/agent-performance
 analyticsRouter.get("/agent-performance", async (req, res) => {
   try {
     const agentRuns = await db.agentRun.groupBy({
       by: ["agentName", "status"],
+      where: { incident: await incidentScope(req) },
       _count: true,
     });
 
@@ -94,17 +126,25 @@ analyticsRouter.get("/agent-performance", async (req, res) => {
 // GET /analytics/summary
 analyticsRouter.get("/summary", async (req, res) => {
   try {
-    const totalIncidents = await db.incident.count();
+    const scope = await incidentScope(req);
+    const totalIncidents = await db.incident.count({ where: scope });
     const resolvedIncidents = await db.incident.count({
-      where: { status: "RESOLVED" },
+      where: { ...scope, status: "RESOLVED" },
+    });
+    // Rejected / won't-fix: a human decided not to ship the fix. Not a resolution, not a failure.
+    const rejectedIncidents = await db.incident.count({
+      where: { ...scope, status: { in: NOT_FIXED_INCIDENT_STATUSES } },
+    });
+    const failedIncidents = await db.incident.count({
+      where: { ...scope, status: "FAILED" },
     });
     const criticalIncidents = await db.incident.count({
-      where: { severity: "CRITICAL" },
+      where: { ...scope, severity: "CRITICAL" },
     });
 
     // Get MTTR
     const incidents = await db.incident.findMany({
-      where: { status: "RESOLVED" },
+      where: { ...scope, status: "RESOLVED" },
       select: { createdAt: true, metadata: true },
     });
 
@@ -122,12 +162,17 @@ analyticsRouter.get("/summary", async (req, res) => {
         ? Math.round(durations.reduce((sum: any, d: any) => sum + d!, 0) / durations.length)
         : 0;
 
+    const decidedIncidents = totalIncidents - rejectedIncidents;
+
     res.json({
       totalIncidents,
       resolvedIncidents,
+      rejectedIncidents,
+      failedIncidents,
       criticalIncidents,
       avgMTTR,
-      successRate: totalIncidents > 0 ? Math.round((resolvedIncidents / totalIncidents) * 100) : 0,
+      successRate:
+        decidedIncidents > 0 ? Math.round((resolvedIncidents / decidedIncidents) * 100) : 0,
     });
   } catch (error) {
     console.error("[Analytics] Summary error:", error);
@@ -144,6 +189,7 @@ analyticsRouter.get("/incident-trend", async (req, res) => {
 
     const incidents = await db.incident.findMany({
       where: {
+        ...(await incidentScope(req)),
         createdAt: { gte: startDate },
       },
       select: {
@@ -154,16 +200,21 @@ analyticsRouter.get("/incident-trend", async (req, res) => {
     });
 
     // Group by day
-    const trendMap: Record<string, { date: string; total: number; resolved: number }> = {};
+    const trendMap: Record<
+      string,
+      { date: string; total: number; resolved: number; rejected: number }
+    > = {};
 
     incidents.forEach((incident: any) => {
       const day = incident.createdAt.toISOString().split("T")[0];
       if (!trendMap[day]) {
-        trendMap[day] = { date: day, total: 0, resolved: 0 };
+        trendMap[day] = { date: day, total: 0, resolved: 0, rejected: 0 };
       }
       trendMap[day].total++;
       if (incident.status === "RESOLVED") {
         trendMap[day].resolved++;
+      } else if (NOT_FIXED_INCIDENT_STATUSES.includes(incident.status)) {
+        trendMap[day].rejected++;
       }
     });
 
@@ -183,7 +234,7 @@ analyticsRouter.get("/self-healing-stats", async (req, res) => {
   try {
     // Get all resolved incidents with their agent runs
     const incidents = await db.incident.findMany({
-      where: { status: "RESOLVED" },
+      where: { ...(await incidentScope(req)), status: "RESOLVED" },
       include: {
         agentRuns: {
           where: { agentName: "Verify" },
@@ -233,6 +284,7 @@ analyticsRouter.get("/recent-activity", async (req, res) => {
     const limit = parseInt(req.query.limit as string) || 5;
 
     const recentIncidents = await db.incident.findMany({
+      where: await incidentScope(req),
       orderBy: { createdAt: "desc" },
       take: limit,
       select: {
@@ -265,3 +317,84 @@ analyticsRouter.get("/recent-activity", async (req, res) => {
     res.status(500).json({ error: "Failed to get recent activity" });
   }
 });
+
+// GET /analytics/llm-usage?days=30&projectId=... - Model calls, tokens and estimated cost
+analyticsRouter.get("/llm-usage", async (req, res) => {
+  try {
+    const orgIds = await accessibleOrgIds(req.auth!.user);
+    const days = parseInt(req.query.days as string) || 30;
+    const since = new Date();
+    since.setDate(since.getDate() - days);
+    const projectId = typeof req.query.projectId === "string" ? req.query.projectId : undefined;
+
+    // Calls billed to the user's projects or incidents; server-wide calls (memory, onboarding) aren't shown
+    const where = {
+      createdAt: { gte: since },
+      ...(projectId ? { projectId } : {}),
+      OR: [{ project: { orgId: { in: orgIds } } }, { incident: incidentAccessFilter(orgIds) }],
+    };
+    const sums = {
+      inputTokens: true,
+      outputTokens: true,
+      thinkingTokens: true,
+      cachedTokens: true,
+      costUsd: true,
+    } as const;
+
+    const [totals, cacheHits, byModel, byAgent, byProject] = await Promise.all([
+      db.llmUsage.aggregate({ where, _count: true, _sum: sums, _avg: { latencyMs: true } }),
+      db.llmUsage.count({ where: { ...where, cachedTokens: { gt: 0 } } }),
+      db.llmUsage.groupBy({ by: ["provider", "model"], where, _count: true, _sum: sums }),
+      db.llmUsage.groupBy({ by: ["agent"], where, _count: true, _sum: sums }),
+      db.llmUsage.groupBy({ by: ["projectId"], where, _count: true, _sum: sums }),
+    ]);
+
+    // Budgets are monthly, whatever the requested window
+    const projectIds = byProject.map((p: any) => p.projectId).filter(Boolean) as string[];
+    const [projects, monthToDate] = await Promise.all([
+      db.project.findMany({
+        where: { id: { in: projectIds } },
+        select: { id: true, name: true, llmBudgetUsd: true },
+      }),
+      db.llmUsage.groupBy({
+        by: ["projectId"],
+        where: { projectId: { in: projectIds }, createdAt: { gte: startOfMonth() } },
+        _sum: { costUsd: true },
+      }),
+    ]);
+
+    const row = (r: any) => ({
+      calls: r._count,
+      inputTokens: r._sum.inputTokens || 0,
+      outputTokens: r._sum.outputTokens || 0,
+      thinkingTokens: r._sum.thinkingTokens || 0,
+      cachedTokens: r._sum.cachedTokens || 0,
+      costUsd: r._sum.costUsd || 0,
+    });
+
+    res.json({
+      since,
+      totals: {
+        ...row(totals),
+        cacheHits,
+        avgLatencyMs: Math.round(totals._avg.latencyMs || 0),
+      },
+      byModel: byModel.map((m: any) => ({ provider: m.provider, model: m.model, ...row(m) })),
+      byAgent: byAgent.map((a: any) => ({ agent: a.agent || "unknown", ...row(a) })),
+      byProject: byProject.map((p: any) => {
+        const project = projects.find((pr) => pr.id === p.projectId);
+        return {
+          projectId: p.projectId,
+          name: project?.name || "Unknown",
+          ...row(p),
+          budgetUsd: project?.llmBudgetUsd ?? null,
+          monthToDateUsd:
+            monthToDate.find((m: any) => m.projectId === p.projectId)?._sum.costUsd || 0,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("[Analytics] LLM usage error:", error);
+    res.status(500).json({ error: "Failed to get LLM usage" });
+  }
+});
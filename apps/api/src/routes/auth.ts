@@ -1,16 +1,30 @@
 import { Router, Request, Response } from "express";
 import axios from "axios";
-import { db } from "@devops-guardian/shared";
+import crypto from "crypto";
+import {
+  SESSION_COOKIE,
+  SessionService,
+  parseCookies,
+  sessionCookieOptions,
+} from "../services/SessionService.js";
+import { requireAuth } from "../middleware/auth.js";
+import { requireSameSiteRequest } from "../middleware/csrf.js";
 
 const router = Router();
+const sessions = SessionService.getInstance();
 
 const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:3002";
-const AUTH_REDIRECT = `${FRONTEND_URL}/onboarding`;
+const OAUTH_STATE_COOKIE = "guardian_oauth_state";
+
+// Only same-app paths: "//evil.com" or absolute URLs would be an open redirect
+function safeRedirectPath(path: string | undefined) {
+  return path && path.startsWith("/") && !path.startsWith("//") ? path : "/";
+}
 
 // 1. Redirect to GitHub
 router.get("/github", (req, res) => {
   const CLIENT_ID = process.env.GITHUB_CLIENT_ID;
-  const redirectPath = (req.query.redirect as string) || "/"; // Default to root
+  const redirectPath = safeRedirectPath(req.query.redirect as string); // Default to root
 
   console.log(
     "[Auth] Initiating GitHub OAuth with Client ID:",
@@ -21,7 +35,11 @@ router.get("/github", (req, res) => {
 
   const redirectUri = "https://github.com/login/oauth/authorize";
   const scope = "repo workflow user"; // Read user + Write/Read Repo + Workflows
-  const state = Buffer.from(redirectPath).toString("base64"); // Encode path in state
+
+  // State = nonce (checked against a cookie on callback) + redirect path
+  const nonce = crypto.randomBytes(16).toString("base64url");
+  const state = `${nonce}.${Buffer.from(redirectPath).toString("base64url")}`;
+  res.cookie(OAUTH_STATE_COOKIE, nonce, sessionCookieOptions(10 * 60 * 1000));
 
   const url = `${redirectUri}?client_id=${CLIENT_ID}&scope=${scope}&state=${state}`;
   res.redirect(url);
@@ -30,7 +48,7 @@ router.get("/github", (req, res) => {
 // 2. Callback
 router.get("/github/callback", async (req: Request, res: Response): Promise<any> => {
   const code = req.query.code as string;
-  const state = req.query.state as string;
+  const state = (req.query.state as string) || "";
   const CLIENT_ID = process.env.GITHUB_CLIENT_ID;
   const CLIENT_SECRET = process.env.GITHUB_CLIENT_SECRET;
 
@@ -38,12 +56,18 @@ router.get("/github/callback", async (req: Request, res: Response): Promise<any>
     return res.status(400).send("No code provided");
   }
 
+  const [nonce, encodedPath] = state.split(".");
+  const expectedNonce = parseCookies(req.headers.cookie)[OAUTH_STATE_COOKIE];
+  res.clearCookie(OAUTH_STATE_COOKIE, { ...sessionCookieOptions(), maxAge: undefined });
+  if (!nonce || nonce !== expectedNonce) {
+    console.warn("[Auth] OAuth state mismatch, rejecting callback");
+    return res.status(400).send("Invalid OAuth state");
+  }
+
   // Decode redirect path from state
   let redirectPath = "/";
   try {
-    if (state) {
-      redirectPath = Buffer.from(state, "base64").toString("utf-8");
-    }
+    redirectPath = safeRedirectPath(Buffer.from(encodedPath || "", "base64url").toString("utf-8"));
   } catch (e) {
     console.warn("[Auth] Failed to decode state, defaulting to root");
   }
@@ -66,15 +90,52 @@ router.get("/github/callback", async (req: Request, res: Response): Promise<any>
       throw new Error(error || "No access token code");
     }
 
-    console.log(`[Auth] GitHub Token Obtained: ${access_token.substring(0, 5)}...`);
+    // The token stays server-side; the browser only gets the session cookie
+    const { token } = await sessions.create(access_token);
+    res.cookie(SESSION_COOKIE, token, sessionCookieOptions());
 
-    // Redirect back to specific path with token
-    const separator = redirectPath.includes("?") ? "&" : "?";
-    res.redirect(`${FRONTEND_URL}${redirectPath}${separator}token=${access_token}`);
+    res.redirect(`${FRONTEND_URL}${redirectPath}`);
   } catch (error: any) {
     console.error("[Auth] Callback Failed:", error.message);
     res.status(500).send("Authentication Failed");
   }
 });
 
+// POST /api/auth/token - Sign in with a Personal Access Token instead of OAuth
+router.post("/token", requireSameSiteRequest, async (req: Request, res: Response): Promise<any> => {
+  try {
+    const { githubToken } = req.body;
+    if (!githubToken) return res.status(400).json({ error: "Missing token" });
+
+    const { token, user } = await sessions.create(githubToken);
+    res.cookie(SESSION_COOKIE, token, sessionCookieOptions());
+
+    return res.json({ user });
+  } catch (error: any) {
+    console.error("[Auth] Token sign-in failed:", error.message);
+    return res.status(401).json({ error: error.message });
+  }
+});
+
+// GET /api/auth/me - Current user
+router.get("/me", requireAuth, (req: Request, res: Response) => {
+  res.json({ user: req.auth!.user });
+});
+
+// POST /api/auth/logout
+router.post(
+  "/logout",
+  requireSameSiteRequest,
+  async (req: Request, res: Response): Promise<any> => {
+    try {
+      await sessions.destroy(parseCookies(req.headers.cookie)[SESSION_COOKIE]);
+      res.clearCookie(SESSION_COOKIE, { ...sessionCookieOptions(), maxAge: undefined });
+      return res.json({ success: true });
+    } catch (error: any) {
+      console.error("[Auth] Logout failed:", error.message);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+);
+
 export const authRouter = router;
@@ -0,0 +1,122 @@
+import { Router, Request, Response } from "express";
+import {
+  db,
+  assertIncidentRole,
+  InsufficientRoleError,
+  ApproverNotAllowedError,
+} from "@devops-guardian/shared";
+import { orchestrator } from "../orchestrator.js";
+import { requireAuth } from "../middleware/auth.js";
+
+const router = Router();
+
+// Dashboard counterparts of the Slack buttons; they share the orchestrator paths.
+// GET /incidents itself lives in index.ts.
+router.use("/:id", requireAuth);
+
+const dashboardActor = (req: Request) => ({
+  userId: req.auth!.user.id,
+  name: req.auth!.user.login,
+});
+
+function handleError(res: Response, action: string, error: any) {
+  if (error instanceof InsufficientRoleError || error instanceof ApproverNotAllowedError) {
+    return res.status(403).json({ error: error.message });
+  }
+  console.error(`[Incidents] ${action} failed:`, error);
+  return res.status(500).json({ error: error.message });
+}
+
+// Only members of the incident's organization get past this
+router.use("/:id", async (req: Request, res: Response, next) => {
+  try {
+    await assertIncidentRole(req.params.id, dashboardActor(req), "VIEWER");
+    next();
+  } catch (error: any) {
+    handleError(res, "Access check", error);
+  }
+});
+
+// POST /incidents/:id/approve
+router.post("/:id/approve", async (req: Request, res: Response): Promise<any> => {
+  try {
+    const tally = await orchestrator.handleApproval(
+      req.params.id,
+      dashboardActor(req),
+      "DASHBOARD",
+    );
+    if (!tally) return res.status(409).json({ error: "Incident is not awaiting approval" });
+
+    return res.json({
+      approved: tally.approved,
+      approvers: tally.approvers,
+      required: tally.required,
+    });
+  } catch (error: any) {
+    return handleError(res, "Approval", error);
+  }
+});
+
+// POST /incidents/:id/reject
+router.post("/:id/reject", async (req: Request, res: Response): Promise<any> => {
+  try {
+    const approval = await orchestrator.handleRejection(
+      req.params.id,
+      dashboardActor(req),
+      "DASHBOARD",
+    );
+    if (!approval) return res.status(409).json({ error: "Incident is not awaiting approval" });
+
+    return res.json({ rejected: true });
+  } catch (error: any) {
+    return handleError(res, "Rejection", error);
+  }
+});
+
+// POST /incidents/:id/verify - Re-run sandbox verification; logs stream to the terminal
+router.post("/:id/verify", async (req: Request, res: Response): Promise<any> => {
+  try {
+    const { id } = req.params;
+    await assertIncidentRole(id, dashboardActor(req), "RESPONDER");
+
+    const incident = await db.incident.findUnique({ where: { id }, select: { metadata: true } });
+    if (!(incident?.metadata as any)?.patchData) {
+      return res.status(409).json({ error: "No patch to verify yet" });
+    }
+
+    // Takes minutes: don't hold the request
+    orchestrator.handleVerificationRequest(id);
+    return res.status(202).json({ message: "Verification started" });
+  } catch (error: any) {
+    return handleError(res, "Verification", error);
+  }
+});
+
+// GET /incidents/:id/secret-findings - What was redacted from prompts or blocked in patches
+router.get("/:id/secret-findings", async (req: Request, res: Response): Promise<any> => {
+  try {
+    const findings = await db.secretFinding.findMany({
+      where: { incidentId: req.params.id },
+      orderBy: { createdAt: "asc" },
+    });
+    return res.json({ findings });
+  } catch (error: any) {
+    return handleError(res, "Secret findings", error);
+  }
+});
+
+// GET /incidents/:id/llm-usage - Model calls made for the incident, with estimated cost
+router.get("/:id/llm-usage", async (req: Request, res: Response): Promise<any> => {
+  try {
+    const usage = await db.llmUsage.findMany({
+      where: { incidentId: req.params.id },
+      orderBy: { createdAt: "asc" },
+    });
+    const totalCostUsd = usage.reduce((sum, u) => sum + u.costUsd, 0);
+    return res.json({ usage, totalCostUsd });
+  } catch (error: any) {
+    return handleError(res, "LLM usage", error);
+  }
+});
+
+export const incidentsRouter = router;
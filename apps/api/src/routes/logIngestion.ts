@@ -1,9 +1,10 @@
 import { Router, Request, Response, NextFunction } from "express";
 import { orchestrator } from "../orchestrator.js";
-import { db } from "@devops-guardian/shared";
+import { db, NOT_FIXED_INCIDENT_STATUSES } from "@devops-guardian/shared";
 import zlib from "zlib";
 import crypto from "crypto";
 import rateLimit from "express-rate-limit";
+import { requireAuth, requireProjectAccess } from "../middleware/auth.js";
 
 const router = Router();
 
@@ -28,7 +29,13 @@ async function getOrCreateProjectToken(projectId: string): Promise<string> {
     return project.webhookToken;
   }
 
-  // Generate new token
+  return rotateProjectToken(projectId);
+}
+
+/**
+ * Generate a new webhook token, replacing (and invalidating) the current one
+ */
+async function rotateProjectToken(projectId: string): Promise<string> {
   const token = `gdn_${crypto.randomBytes(32).toString("hex")}`;
   await db.project.update({
     where: { id: projectId },
@@ -216,7 +223,7 @@ router.post(
         where: {
           fingerprint,
           status: {
-            not: "RESOLVED",
+            notIn: ["RESOLVED", ...NOT_FIXED_INCIDENT_STATUSES, "CLOSED"],
           },
         },
       });
@@ -237,6 +244,15 @@ router.post(
         });
       }
 
+      // Backpressure: refuse new incidents while the queue is saturated
+      const admission = await orchestrator.admitIncident(projectId);
+      if (!admission.accepted) {
+        return res
+          .status(429)
+          .set("Retry-After", String(admission.retryAfterSeconds))
+          .json({ error: admission.reason });
+      }
+
       // 3. Extract Rich Metadata
       const metadata = extractMetadata(payload, firstError, projectId, project);
 
@@ -286,7 +302,6 @@ function extractMetadata(payload: any, errorLog: any, projectId: string, project
     projectId,
     owner,
     repo,
-    token: "REDACTED",
     logSource: "webhook",
     timestamp: new Date().toISOString(),
     errorSource: "production",
@@ -324,8 +339,13 @@ function extractMetadata(payload: any, errorLog: any, projectId: string, project
 
 /**
  * GET /api/v1/logs/:projectId/token
- * Get or create webhook token for a project
+ * Get or create webhook token for a project (dashboard only: project admins)
  */
+router.use(
+  "/:projectId/token",
+  requireAuth,
+  requireProjectAccess((req) => req.params.projectId, "ADMIN"),
+);
 router.get("/:projectId/token", async (req: Request, res: Response): Promise<any> => {
   try {
     const { projectId } = req.params;
@@ -341,4 +361,24 @@ router.get("/:projectId/token", async (req: Request, res: Response): Promise<any
   }
 });
 
+/**
+ * POST /api/v1/logs/:projectId/token/rotate
+ * Replace the webhook token. Senders using the old one are rejected immediately.
+ */
+router.post("/:projectId/token/rotate", async (req: Request, res: Response): Promise<any> => {
+  try {
+    const { projectId } = req.params;
+    const token = await rotateProjectToken(projectId);
+    console.log(`[LogIngestion] Webhook token rotated for ${projectId} by ${req.auth!.user.login}`);
+
+    return res.json({
+      projectId,
+      token,
+      webhookUrl: `${req.protocol}://${req.get("host")}/api/v1/logs/${projectId}`,
+    });
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
+});
+
 export { router as logIngestionRouter };
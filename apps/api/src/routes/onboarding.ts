@@ -1,17 +1,30 @@
 import { Router, Request, Response } from "express";
-import { db, GitHubService, GeminiProvider } from "@devops-guardian/shared";
-import { SecretsManagerService } from "@devops-guardian/shared";
+import { db, GitHubService, createLLMProvider } from "@devops-guardian/shared";
+import {
+  SecretsManagerService,
+  ensurePersonalOrganization,
+  getOrgRole,
+  hasRole,
+  InsufficientRoleError,
+} from "@devops-guardian/shared";
 import { PipelineAgent } from "../agents/pipeline.js";
+import { requireAuth, requireProjectAccess } from "../middleware/auth.js";
 
 const router = Router();
 
-// POST /api/onboarding/repos - List repositories for a token
+// GitHub calls use the signed-in user's token from the session, never one from the browser
+router.use(requireAuth);
+
+// A pipeline for a connected repo uses its project's settings: only for the project's admins
+const pipelineProjectAccess = requireProjectAccess((req) => req.body.projectId, "ADMIN");
+router.use("/pipeline", (req, res, next) =>
+  req.body?.projectId ? pipelineProjectAccess(req, res, next) : next(),
+);
+
+// POST /api/onboarding/repos - List repositories for the signed-in user
 router.post("/repos", async (req: Request, res: Response): Promise<any> => {
   try {
-    const { githubToken } = req.body;
-    if (!githubToken) return res.status(400).json({ error: "Missing token" });
-
-    const gh = new GitHubService(githubToken);
+    const gh = new GitHubService(req.auth!.githubToken);
     const repos = await gh.getUserRepositories();
 
     return res.json({ repos });
@@ -24,14 +37,15 @@ router.post("/repos", async (req: Request, res: Response): Promise<any> => {
 // POST /api/onboarding/analyze - Check for pipelines
 router.post("/analyze", async (req: Request, res: Response): Promise<any> => {
   try {
-    const { githubRepo, githubToken } = req.body;
-    if (!githubRepo || !githubToken)
-      return res.status(400).json({ error: "Missing repo or token" });
+    const { githubRepo } = req.body;
+    if (!githubRepo) return res.status(400).json({ error: "Missing repo" });
 
     const [owner, repo] = githubRepo.split("/");
-    const apiKey = process.env.GEMINI_API_KEY || "";
-    const gemini = new GeminiProvider(apiKey);
-    const agent = new PipelineAgent(githubToken, gemini);
+    // No project yet: the server's default model
+    const agent = new PipelineAgent(
+      req.auth!.githubToken,
+      createLLMProvider(undefined, undefined, { agent: "pipeline" }),
+    );
     const result = await agent.analyze(owner, repo);
 
     return res.json({ result });
@@ -44,14 +58,16 @@ router.post("/analyze", async (req: Request, res: Response): Promise<any> => {
 // POST /api/onboarding/pipeline - Create new pipeline
 router.post("/pipeline", async (req: Request, res: Response): Promise<any> => {
   try {
-    const { githubRepo, githubToken, type, stack, env } = req.body;
-    if (!githubRepo || !githubToken || !type)
-      return res.status(400).json({ error: "Missing required fields" });
+    const { githubRepo, type, stack, env, projectId } = req.body;
+    if (!githubRepo || !type) return res.status(400).json({ error: "Missing required fields" });
 
     const [owner, repo] = githubRepo.split("/");
-    const apiKey = process.env.GEMINI_API_KEY || "";
-    const gemini = new GeminiProvider(apiKey);
-    const agent = new PipelineAgent(githubToken, gemini);
+    // The server's default model; project settings only if the repo is already connected
+    const agent = new PipelineAgent(
+      req.auth!.githubToken,
+      createLLMProvider(undefined, undefined, { agent: "pipeline" }),
+      projectId,
+    );
 
     console.log(`[Onboarding] Generating pipeline for ${githubRepo} (Stack: ${stack || "node"})`);
     const result = await agent.generatePipeline(owner, repo, type, stack || "node", env);
@@ -66,28 +82,34 @@ router.post("/pipeline", async (req: Request, res: Response): Promise<any> => {
 // POST /api/onboarding/connect
 router.post("/connect", async (req: Request, res: Response): Promise<any> => {
   try {
-    const { name, githubRepo, githubToken } = req.body;
+    const { name, githubRepo, orgId } = req.body;
+    const { user, githubToken } = req.auth!;
 
-    if (!name || !githubRepo || !githubToken) {
+    if (!name || !githubRepo) {
       return res.status(400).json({ error: "Missing required fields" });
     }
 
-    // 1. Validate Token with GitHub
-    const gh = new GitHubService(githubToken);
-    const user = await gh.getAuthenticatedUser();
-    console.log(`[Onboarding] Token Validated for User: ${user.login}`);
+    // Projects go into the chosen organization (admins only) or the user's own
+    if (orgId) {
+      const role = await getOrgRole(user.id, orgId);
+      if (!hasRole(role, "ADMIN")) {
+        return res.status(403).json({ error: new InsufficientRoleError("ADMIN", role).message });
+      }
+    }
+    const org = orgId ? { id: orgId } : await ensurePersonalOrganization(user);
 
-    // 2. Save Project
+    // 1. Save Project
     const project = await db.project.create({
       data: {
         name,
         githubRepo, // "facebook/react"
         githubToken: "REDACTED", // Token is now in Secrets Manager
         ownerId: user.login,
+        orgId: org.id,
       },
     });
 
-    // 3. Store Token in Secrets Manager
+    // 2. Store Token in Secrets Manager
     console.log(`[Onboarding] Attempting to secure GitHub token for project: ${project.id}...`);
     const secretsManager = new SecretsManagerService();
     try {
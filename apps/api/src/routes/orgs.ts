@@ -0,0 +1,175 @@
+import { Router, Request, Response } from "express";
+import { db, isOrgRole } from "@devops-guardian/shared";
+import { requireAuth, requireOrgRole } from "../middleware/auth.js";
+
+const router = Router();
+
+router.use(requireAuth);
+
+const memberSelect = {
+  userId: true,
+  role: true,
+  slackUserId: true,
+  createdAt: true,
+  user: { select: { login: true, name: true, avatarUrl: true } },
+} as const;
+
+// An organization must keep at least one admin
+async function isLastAdmin(orgId: string, userId: string) {
+  const admins = await db.membership.findMany({
+    where: { orgId, role: "ADMIN" },
+    select: { userId: true },
+  });
+  return admins.length === 1 && admins[0].userId === userId;
+}
+
+// GET /api/orgs - Organizations the user belongs to, with their role
+router.get("/", async (req: Request, res: Response): Promise<any> => {
+  try {
+    const memberships = await db.membership.findMany({
+      where: { userId: req.auth!.user.id },
+      include: {
+        org: { include: { _count: { select: { members: true, projects: true } } } },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return res.json({
+      orgs: memberships.map((m) => ({
+        id: m.org.id,
+        name: m.org.name,
+        role: m.role,
+        members: m.org._count.members,
+        projects: m.org._count.projects,
+      })),
+    });
+  } catch (error: any) {
+    console.error("[Orgs] Failed to list organizations:", error.message);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/orgs - Create an organization (creator becomes ADMIN)
+router.post("/", async (req: Request, res: Response): Promise<any> => {
+  try {
+    const { name } = req.body;
+    if (!name) return res.status(400).json({ error: "Missing name" });
+
+    const org = await db.organization.create({
+      data: { name, members: { create: { userId: req.auth!.user.id, role: "ADMIN" } } },
+    });
+
+    console.log(`[Orgs] ${req.auth!.user.login} created organization ${org.name}`);
+    return res.json({ org: { ...org, role: "ADMIN" } });
+  } catch (error: any) {
+    console.error("[Orgs] Failed to create organization:", error.message);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/orgs/:id/members
+router.get(
+  "/:id/members",
+  requireOrgRole("VIEWER"),
+  async (req: Request, res: Response): Promise<any> => {
+    try {
+      const members = await db.membership.findMany({
+        where: { orgId: req.params.id },
+        select: memberSelect,
+        orderBy: { createdAt: "asc" },
+      });
+      return res.json({ members });
+    } catch (error: any) {
+      console.error("[Orgs] Failed to list members:", error.message);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+);
+
+// POST /api/orgs/:id/members - Add a user by GitHub login
+router.post(
+  "/:id/members",
+  requireOrgRole("ADMIN"),
+  async (req: Request, res: Response): Promise<any> => {
+    try {
+      const { login, role = "VIEWER", slackUserId } = req.body;
+      if (!login) return res.status(400).json({ error: "Missing login" });
+      if (!isOrgRole(role)) return res.status(400).json({ error: `Invalid role: ${role}` });
+
+      const user = await db.user.findUnique({ where: { login } });
+      if (!user) {
+        return res.status(404).json({ error: `${login} has not signed in to DevOps Guardian yet` });
+      }
+
+      const member = await db.membership.upsert({
+        where: { orgId_userId: { orgId: req.params.id, userId: user.id } },
+        create: { orgId: req.params.id, userId: user.id, role, slackUserId: slackUserId || null },
+        update: { role, slackUserId: slackUserId || undefined },
+        select: memberSelect,
+      });
+
+      console.log(`[Orgs] ${req.auth!.user.login} added ${login} as ${role} to ${req.params.id}`);
+      return res.json({ member });
+    } catch (error: any) {
+      console.error("[Orgs] Failed to add member:", error.message);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+);
+
+// PUT /api/orgs/:id/members/:userId - Change role and/or linked Slack user
+router.put(
+  "/:id/members/:userId",
+  requireOrgRole("ADMIN"),
+  async (req: Request, res: Response): Promise<any> => {
+    try {
+      const { id, userId } = req.params;
+      const { role, slackUserId } = req.body;
+      if (role !== undefined && !isOrgRole(role)) {
+        return res.status(400).json({ error: `Invalid role: ${role}` });
+      }
+      if (role && role !== "ADMIN" && (await isLastAdmin(id, userId))) {
+        return res.status(400).json({ error: "An organization needs at least one admin" });
+      }
+
+      const member = await db.membership.update({
+        where: { orgId_userId: { orgId: id, userId } },
+        // Empty string unlinks Slack
+        data: { role, slackUserId: slackUserId === undefined ? undefined : slackUserId || null },
+        select: memberSelect,
+      });
+
+      return res.json({ member });
+    } catch (error: any) {
+      if (error.code === "P2025") return res.status(404).json({ error: "Member not found" });
+      if (error.code === "P2002") {
+        return res.status(409).json({ error: "That Slack user is linked to another member" });
+      }
+      console.error("[Orgs] Failed to update member:", error.message);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+);
+
+// DELETE /api/orgs/:id/members/:userId
+router.delete(
+  "/:id/members/:userId",
+  requireOrgRole("ADMIN"),
+  async (req: Request, res: Response): Promise<any> => {
+    try {
+      const { id, userId } = req.params;
+      if (await isLastAdmin(id, userId)) {
+        return res.status(400).json({ error: "An organization needs at least one admin" });
+      }
+
+      await db.membership.delete({ where: { orgId_userId: { orgId: id, userId } } });
+      return res.json({ success: true });
+    } catch (error: any) {
+      if (error.code === "P2025") return res.status(404).json({ error: "Member not found" });
+      console.error("[Orgs] Failed to remove member:", error.message);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+);
+
+export const orgsRouter = router;
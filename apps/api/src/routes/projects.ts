@@ -1,55 +1,90 @@
 import { Router, Request, Response } from "express";
 import { db } from "@devops-guardian/shared";
-import axios from "axios";
-import { SecretsManagerService } from "@devops-guardian/shared";
+import {
+  Prisma,
+  SecretsManagerService,
+  SANDBOX_BACKENDS,
+  allowedSandboxBackends,
+  VerificationRecipeSchema,
+  ApprovalPolicySchema,
+  RemediationPolicySchema,
+  PatchGuardSchema,
+  LLMConfigSchema,
+  parseRemediationPolicy,
+  parseRemediationPolicyDocument,
+  evaluateRemediationPolicy,
+  remediationFacts,
+  parseGuardianConfig,
+  getProjectRole,
+} from "@devops-guardian/shared";
+import crypto from "crypto";
+import { projectAccessFilter, requireAuth, requireProjectAccess } from "../middleware/auth.js";
 
 const router = Router();
 
-// GET /api/projects - List all projects
-router.get("/", async (req: Request, res: Response): Promise<any> => {
-  try {
-    const authHeader = req.headers.authorization;
-    let userLogin: string | null = null;
+// Everything here is scoped to the signed-in user's organizations
+router.use(requireAuth);
+router.use("/:id", requireProjectAccess());
+router.use(
+  "/:id/settings",
+  requireProjectAccess((req) => req.params.id, "ADMIN"),
+);
+router.use(
+  "/:id/scan",
+  requireProjectAccess((req) => req.params.id, "RESPONDER"),
+);
+router.use(
+  "/:id/webhook-secret",
+  requireProjectAccess((req) => req.params.id, "ADMIN"),
+);
 
-    // 1. If Token provided, fetch GitHub User
-    if (authHeader) {
-      try {
-        const userRes = await axios.get("https://api.github.com/user", {
-          headers: { Authorization: authHeader },
-        });
-        userLogin = userRes.data.login;
-        console.log(`[Projects] Filtering for GitHub User: ${userLogin}`);
-      } catch (e: any) {
-        console.warn("[Projects] Failed to validate GitHub token:", e.message);
-        return res.status(401).json({ error: "Invalid GitHub Token" });
-      }
-    }
+/**
+ * Generate a new CI webhook secret, replacing (and invalidating) the current one
+ */
+async function rotateWebhookSecret(projectId: string): Promise<string> {
+  const secret = `whsec_${crypto.randomBytes(32).toString("hex")}`;
+  await db.project.update({ where: { id: projectId }, data: { webhookSecret: secret } });
+  return secret;
+}
 
-    // 2. Fetch User's Projects
-    const whereCondition: any = {};
-    if (userLogin) {
-      whereCondition.OR = [
-        { ownerId: userLogin },
-        { ownerId: null }, // Legacy support for projects created before auth
-      ];
-    } else {
-      whereCondition.ownerId = null; // Guests only see legacy/public
-    }
+/**
+ * A project row without its credentials (GitHub token, CI webhook secret,
+ * log ingestion token). Each has its own ADMIN-only route.
+ */
+function toPublicProject<
+  T extends { githubToken?: unknown; webhookSecret?: unknown; webhookToken?: unknown },
+>(project: T) {
+  const { githubToken, webhookSecret, webhookToken, ...rest } = project;
+  return { ...rest, githubToken: "REDACTED" };
+}
 
+function webhookEndpoints(req: Request) {
+  const base = `${req.protocol}://${req.get("host")}`;
+  return { githubUrl: `${base}/webhook/github`, jenkinsUrl: `${base}/webhook/jenkins` };
+}
+
+// GET /api/projects - List all projects
+router.get("/", async (req: Request, res: Response): Promise<any> => {
+  try {
     const projects = await db.project.findMany({
-      where: whereCondition,
+      where: projectAccessFilter(req.auth!.user),
       orderBy: { createdAt: "desc" },
     });
+    const memberships = await db.membership.findMany({
+      where: { userId: req.auth!.user.id },
+      select: { orgId: true, role: true },
+    });
+    const roles = new Map(memberships.map((m) => [m.orgId, m.role]));
 
-    // 3. Inject Slack Configuration Status & Redact Tokens
+    // Inject Slack Configuration Status & Redact Tokens
     const secretsManager = new SecretsManagerService();
     const projectsWithStatus = await Promise.all(
       projects.map(async (p: any) => {
         const slackConfig = await secretsManager.getSlackConfig(p.id);
         return {
-          ...p,
-          githubToken: "REDACTED", // Never expose token in list
+          ...toPublicProject(p),
           slackConfigured: !!(slackConfig.botToken && slackConfig.channelId),
+          role: roles.get(p.orgId), // Lets the UI hide actions the user can't perform
         };
       }),
     );
@@ -76,9 +111,9 @@ router.get("/:id", async (req: Request, res: Response): Promise<any> => {
 
     return res.json({
       project: {
-        ...project,
-        githubToken: "REDACTED", // Redact token
+        ...toPublicProject(project),
         slackConfigured: !!(slackConfig.botToken && slackConfig.channelId),
+        role: await getProjectRole(req.auth!.user.id, project.id),
       },
     });
   } catch (error: any) {
@@ -87,6 +122,234 @@ router.get("/:id", async (req: Request, res: Response): Promise<any> => {
   }
 });
 
+// PUT /api/projects/:id/settings - Update project settings
+router.put("/:id/settings", async (req: Request, res: Response): Promise<any> => {
+  try {
+    const { id } = req.params;
+    const {
+      sandboxProvider,
+      verificationConfig,
+      approvalPolicy,
+      remediationPolicy,
+      patchGuard,
+      llmConfig,
+      llmApiKey,
+      llmBudgetUsd,
+    } = req.body;
+
+    // Host backends run the repo's code on this server: only where the operator enabled them
+    const allowedBackends = allowedSandboxBackends();
+    if (sandboxProvider && !allowedBackends.includes(sandboxProvider)) {
+      return res.status(400).json({
+        error: SANDBOX_BACKENDS.includes(sandboxProvider)
+          ? `Sandbox "${sandboxProvider}" is not enabled on this server (SANDBOX_HOST_BACKENDS)`
+          : `Invalid sandboxProvider. Expected one of: ${allowedBackends.join(", ")}`,
+      });
+    }
+
+    // Verification recipe: YAML text (same format as .guardian.yml), an object, or null to clear
+    let recipe: any = undefined;
+    if (verificationConfig === null || verificationConfig === "") {
+      recipe = Prisma.DbNull;
+    } else if (verificationConfig !== undefined) {
+      try {
+        recipe =
+          typeof verificationConfig === "string"
+            ? parseGuardianConfig(verificationConfig)
+            : VerificationRecipeSchema.parse(verificationConfig);
+      } catch (e: any) {
+        return res.status(400).json({ error: `Invalid verification recipe: ${e.message}` });
+      }
+    }
+
+    // Approval policy: object, or null to go back to the default (1 approver, any APPROVER)
+    let policy: any = undefined;
+    if (approvalPolicy === null) {
+      policy = Prisma.DbNull;
+    } else if (approvalPolicy !== undefined) {
+      const parsed = ApprovalPolicySchema.safeParse(approvalPolicy);
+      if (!parsed.success) {
+        return res.status(400).json({ error: `Invalid approval policy: ${parsed.error.message}` });
+      }
+      policy = parsed.data;
+    }
+
+    // Remediation policy: YAML text, an object, or null to go back to the default
+    let remediation: any = undefined;
+    if (remediationPolicy === null || remediationPolicy === "") {
+      remediation = Prisma.DbNull;
+    } else if (remediationPolicy !== undefined) {
+      try {
+        remediation =
+          typeof remediationPolicy === "string"
+            ? parseRemediationPolicyDocument(remediationPolicy)
+            : RemediationPolicySchema.parse(remediationPolicy);
+      } catch (e: any) {
+        return res.status(400).json({ error: `Invalid remediation policy: ${e.message}` });
+      }
+    }
+
+    // Patch guard: object, or null to go back to the default protected paths and limits
+    let guard: any = undefined;
+    if (patchGuard === null) {
+      guard = Prisma.DbNull;
+    } else if (patchGuard !== undefined) {
+      const parsed = PatchGuardSchema.safeParse(patchGuard);
+      if (!parsed.success) {
+        return res.status(400).json({ error: `Invalid patch guard: ${parsed.error.message}` });
+      }
+      guard = parsed.data;
+    }
+
+    // Model backend: object, or null to go back to the server default
+    let llm: any = undefined;
+    if (llmConfig === null) {
+      llm = Prisma.DbNull;
+    } else if (llmConfig !== undefined) {
+      const parsed = LLMConfigSchema.safeParse(llmConfig);
+      if (!parsed.success) {
+        return res.status(400).json({ error: `Invalid LLM config: ${parsed.error.message}` });
+      }
+      llm = parsed.data;
+    }
+
+    // Monthly LLM budget in USD, or null for no limit
+    if (
+      llmBudgetUsd !== undefined &&
+      llmBudgetUsd !== null &&
+      !(typeof llmBudgetUsd === "number" && Number.isFinite(llmBudgetUsd) && llmBudgetUsd >= 0)
+    ) {
+      return res
+        .status(400)
+        .json({ error: "Invalid llmBudgetUsd: expected a number >= 0 or null" });
+    }
+
+    const existing = await db.project.findUnique({ where: { id } });
+    if (!existing) return res.status(404).json({ error: "Project not found" });
+
+    // Key for the project's own endpoint lives in Secrets Manager, never on the project
+    if (typeof llmApiKey === "string") {
+      await new SecretsManagerService().storeLLMApiKey(id, llmApiKey.trim());
+    }
+
+    const project = await db.project.update({
+      where: { id },
+      data: {
+        sandboxProvider: sandboxProvider || existing.sandboxProvider,
+        verificationConfig: recipe,
+        approvalPolicy: policy,
+        remediationPolicy: remediation,
+        patchGuard: guard,
+        llmConfig: llm,
+        llmBudgetUsd,
+      },
+    });
+
+    return res.json({
+      project: toPublicProject(project),
+    });
+  } catch (error: any) {
+    console.error("[Projects] Failed to update settings:", error.message);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/projects/:id/webhook-secret - Secret for signing GitHub/Jenkins webhooks
+router.get("/:id/webhook-secret", async (req: Request, res: Response): Promise<any> => {
+  try {
+    const project = await db.project.findUnique({
+      where: { id: req.params.id },
+      select: { webhookSecret: true },
+    });
+    const secret = project?.webhookSecret || (await rotateWebhookSecret(req.params.id));
+    return res.json({ secret, ...webhookEndpoints(req) });
+  } catch (error: any) {
+    console.error("[Projects] Failed to get webhook secret:", error.message);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/projects/:id/webhook-secret/rotate - Deliveries signed with the old secret are rejected
+router.post("/:id/webhook-secret/rotate", async (req: Request, res: Response): Promise<any> => {
+  try {
+    const secret = await rotateWebhookSecret(req.params.id);
+    console.log(
+      `[Projects] Webhook secret rotated for ${req.params.id} by ${req.auth!.user.login}`,
+    );
+    return res.json({ secret, ...webhookEndpoints(req) });
+  } catch (error: any) {
+    console.error("[Projects] Failed to rotate webhook secret:", error.message);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/projects/:id/webhook-rejections - Deliveries that failed signature verification
+router.get("/:id/webhook-rejections", async (req: Request, res: Response): Promise<any> => {
+  try {
+    const rejections = await db.webhookRejection.findMany({
+      where: { projectId: req.params.id },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+    });
+    return res.json({ rejections });
+  } catch (error: any) {
+    console.error("[Projects] Failed to list webhook rejections:", error.message);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/projects/:id/remediation-policy/dry-run - Which rule would fire for a sample incident
+// Body: { incident: { source, severity, service?, branch?, files?, diff? | patchLines? }, policy? }
+// `policy` (YAML text or object) tests a draft instead of the saved policy.
+router.post(
+  "/:id/remediation-policy/dry-run",
+  async (req: Request, res: Response): Promise<any> => {
+    try {
+      const sample = req.body.incident || {};
+      if (!sample.source || !sample.severity) {
+        return res
+          .status(400)
+          .json({ error: "incident.source and incident.severity are required" });
+      }
+
+      let policy;
+      if (req.body.policy) {
+        try {
+          policy =
+            typeof req.body.policy === "string"
+              ? parseRemediationPolicyDocument(req.body.policy)
+              : RemediationPolicySchema.parse(req.body.policy);
+        } catch (e: any) {
+          return res.status(400).json({ error: `Invalid remediation policy: ${e.message}` });
+        }
+      } else {
+        const project = await db.project.findUnique({
+          where: { id: req.params.id },
+          select: { remediationPolicy: true },
+        });
+        policy = parseRemediationPolicy(project?.remediationPolicy);
+      }
+
+      // Without files / a diff the sample is evaluated as it would be before the patch
+      const hasPatch = sample.files || sample.diff || sample.patchLines !== undefined;
+      const facts = remediationFacts(
+        {
+          source: sample.source,
+          severity: sample.severity,
+          metadata: { service: sample.service, branch: sample.branch },
+        },
+        hasPatch ? { files: sample.files, diff: sample.diff } : undefined,
+      );
+      if (sample.patchLines !== undefined) facts.patchLines = Number(sample.patchLines);
+
+      return res.json({ facts, decision: evaluateRemediationPolicy(policy, facts) });
+    } catch (error: any) {
+      console.error("[Projects] Remediation dry run failed:", error.message);
+      return res.status(500).json({ error: error.message });
+    }
+  },
+);
+
 // POST /api/projects/:id/scan - Trigger a Manual Scan
 router.post("/:id/scan", async (req: Request, res: Response): Promise<any> => {
   try {
@@ -99,6 +362,14 @@ router.post("/:id/scan", async (req: Request, res: Response): Promise<any> => {
     const { orchestrator } = await import("../orchestrator.js");
     const { SocketService } = await import("../services/SocketService.js");
 
+    const admission = await orchestrator.admitIncident(project.id);
+    if (!admission.accepted) {
+      return res
+        .status(429)
+        .set("Retry-After", String(admission.retryAfterSeconds))
+        .json({ error: admission.reason });
+    }
+
     console.log(`[Projects] Triggering manual scan for ${project.name}...`);
 
     const incident = {
@@ -0,0 +1,23 @@
+import { Router } from "express";
+import { orchestrator } from "../orchestrator.js";
+import { accessibleProjectIds, requireAuth } from "../middleware/auth.js";
+
+export const queueRouter = Router();
+
+queueRouter.use(requireAuth);
+
+// GET /api/queue/stats - Queue depth, running steps and wait times (global + per project)
+queueRouter.get("/stats", async (req, res) => {
+  try {
+    const stats = await orchestrator.getQueueStats();
+    // Global totals describe shared capacity; the per-project breakdown is limited to the user's projects
+    const projectIds = new Set(await accessibleProjectIds(req.auth!.user));
+    res.json({
+      ...stats,
+      projects: stats.projects.filter((p) => p.projectId && projectIds.has(p.projectId)),
+    });
+  } catch (error: any) {
+    console.error("[Queue] Failed to load stats:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
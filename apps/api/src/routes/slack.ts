@@ -1,18 +1,62 @@
 import { Router, Request, Response } from "express";
-import { SlackService, SecretsManagerService } from "@devops-guardian/shared";
+import {
+  db,
+  SlackService,
+  SecretsManagerService,
+  assertIncidentRole,
+  InsufficientRoleError,
+  ApproverNotAllowedError,
+} from "@devops-guardian/shared";
+import { requireAuth, requireProjectAccess } from "../middleware/auth.js";
+import { verifySlackSignature } from "../middleware/signatures.js";
 
 const router = Router();
 const secretsManager = new SecretsManagerService();
 
+// Dashboard endpoints. /interactions is called by Slack, not the browser.
+router.use(["/config", "/test"], requireAuth);
+router.use(
+  "/config",
+  requireProjectAccess((req) => req.body.projectId, "ADMIN"),
+);
+
+/**
+ * Interactions carry the incident ID; the incident's project decides which
+ * signing secret applies. Falls back to SLACK_SIGNING_SECRET, like the bot token.
+ */
+async function slackSigningSecret(req: Request): Promise<string | undefined> {
+  let incidentId: string | undefined;
+  try {
+    incidentId = JSON.parse(req.body.payload).actions?.[0]?.value;
+  } catch {
+    // No usable payload, only the global secret can apply
+  }
+
+  if (incidentId) {
+    const incident = await db.incident.findUnique({
+      where: { id: incidentId },
+      select: { metadata: true },
+    });
+    const projectId = (incident?.metadata as any)?.projectId;
+    if (projectId) {
+      const secrets = await secretsManager.getSlackConfig(projectId);
+      if (secrets.signingSecret) return secrets.signingSecret;
+    }
+  }
+  return process.env.SLACK_SIGNING_SECRET;
+}
+
+router.use("/interactions", verifySlackSignature(slackSigningSecret));
+
 // POST /api/slack/config - Store Slack Configuration
 router.post("/config", async (req: Request, res: Response): Promise<any> => {
   try {
-    const { projectId, botToken, channelId } = req.body;
+    const { projectId, botToken, channelId, signingSecret } = req.body;
 
-    if (!projectId || !botToken || !channelId) {
-      return res
-        .status(400)
-        .json({ error: "Missing required fields: projectId, botToken, channelId" });
+    if (!projectId || !botToken || !channelId || !signingSecret) {
+      return res.status(400).json({
+        error: "Missing required fields: projectId, botToken, channelId, signingSecret",
+      });
     }
 
     // Verify token works
@@ -24,7 +68,7 @@ router.post("/config", async (req: Request, res: Response): Promise<any> => {
     }
 
     // Store in Secrets Manager
-    await secretsManager.storeSlackConfig(projectId, botToken, channelId);
+    await secretsManager.storeSlackConfig(projectId, botToken, channelId, signingSecret);
 
     return res.json({ success: true, message: "Slack configuration saved successfully" });
   } catch (error: any) {
@@ -81,38 +125,52 @@ router.post("/interactions", async (req: Request, res: Response): Promise<any> =
       // Import orchestrator
       const { orchestrator } = await import("../orchestrator");
 
+      // Slack users are matched to org members through Membership.slackUserId
+      const actor = { slackUserId: payload.user?.id, name: payload.user?.name };
+
       if (action.action_id === "verify_fix") {
+        await assertIncidentRole(incidentId, actor, "RESPONDER");
         // Trigger verification and thread reply
-        orchestrator.handleVerificationRequest(incidentId, channelId, threadTs);
+        orchestrator.handleVerificationRequest(incidentId, { channelId, threadTs });
         return res.status(200).send();
       }
 
       if (action.action_id === "approve_pr") {
-        // Ack immediately to prevent timeout
-        orchestrator
-          .handleApproval(incidentId)
-          .then(() => console.log(`[Slack] Approval handled for ${incidentId}`))
-          .catch((err) => console.error(`[Slack] Approval failed for ${incidentId}:`, err));
-
+        // Role check + enqueue only, well within Slack's 3s ack window
+        const tally = await orchestrator.handleApproval(incidentId, actor, "SLACK");
+        console.log(`[Slack] Approval handled for ${incidentId}`);
+        if (tally && !tally.approved) {
+          return res.status(200).json({
+            response_type: "ephemeral",
+            replace_original: false,
+            text: `✅ Approval recorded (${tally.approvers.length}/${tally.required}). Waiting for more approvers.`,
+          });
+        }
         return res.status(200).send();
       }
 
       if (action.action_id === "reject_fix") {
         console.log(`[Slack] Fix rejected for incident: ${incidentId}`);
-        // Ack immediately
-        orchestrator
-          .handleRejection(incidentId)
-          .then(() => console.log(`[Slack] Rejection handled for ${incidentId}`))
-          .catch((err) => console.error(`[Slack] Rejection failed for ${incidentId}:`, err));
-
-        return res
-          .status(200)
-          .json({ text: "❌ Fix rejected. Incident marked as RESOLVED (User Rejected)." });
+        await orchestrator.handleRejection(incidentId, actor, "SLACK");
+        console.log(`[Slack] Rejection handled for ${incidentId}`);
+        return res.status(200).json({ text: "❌ Fix rejected. Incident marked as REJECTED." });
       }
     }
 
     return res.status(200).send();
   } catch (error: any) {
+    if (error instanceof InsufficientRoleError || error instanceof ApproverNotAllowedError) {
+      console.warn(`[Slack] Action denied: ${error.message}`);
+      const hint =
+        error instanceof InsufficientRoleError
+          ? "Ask an org admin to link your Slack account in DevOps Guardian."
+          : "See the project's approval policy in DevOps Guardian.";
+      return res.status(200).json({
+        response_type: "ephemeral",
+        replace_original: false,
+        text: `🚫 ${error.message}. ${hint}`,
+      });
+    }
     console.error("[Slack] Interaction failed:", error);
     return res.status(500).json({ error: error.message });
   }
@@ -1,24 +1,38 @@
 import { Router, Request, Response } from "express";
 import { ProductionWatcherAgent } from "../agents/watcher.js";
-import { GeminiProvider, SecretsManagerService } from "@devops-guardian/shared";
+import { createLLMProvider, SecretsManagerService } from "@devops-guardian/shared";
 import { MemoryAgent } from "../agents/memory.js";
+import { requireAuth, requireProjectAccess } from "../middleware/auth.js";
 
 const router = Router();
 
-// Singleton watcher instance
-let watcherAgent: ProductionWatcherAgent | null = null;
+// One watcher per project, each running with its own project's credentials
+const watchers = new Map<string, ProductionWatcherAgent>();
 const secretsManager = new SecretsManagerService();
 
-// Initialize watcher lazily
-function getWatcher(): ProductionWatcherAgent {
-  if (!watcherAgent) {
-    const gemini = new GeminiProvider(process.env.GEMINI_API_KEY || "");
-    const memory = new MemoryAgent(gemini);
-    watcherAgent = new ProductionWatcherAgent(gemini, memory);
+// Initialize a project's watcher lazily
+function getWatcher(projectId: string): ProductionWatcherAgent {
+  let watcher = watchers.get(projectId);
+  if (!watcher) {
+    watcher = new ProductionWatcherAgent(
+      new MemoryAgent(createLLMProvider(undefined, undefined, { agent: "memory" })),
+    );
+    watchers.set(projectId, watcher);
   }
-  return watcherAgent;
+  return watcher;
 }
 
+router.use(requireAuth);
+// Watcher credentials are project secrets: admins only
+router.use(
+  ["/configure", "/start", "/stop"],
+  requireProjectAccess((req) => req.body.projectId, "ADMIN"),
+);
+router.use(
+  "/status",
+  requireProjectAccess((req) => req.query.projectId as string | undefined),
+);
+
 /**
  * POST /api/watcher/configure
  * Configure the watcher with log source credentials
@@ -35,7 +49,7 @@ router.post("/configure", async (req: Request, res: Response): Promise<any> => {
       datadogApiKey,
       datadogAppKey,
       datadogSite,
-      projectId, // Optional: identify which project this is for
+      projectId,
     } = req.body;
 
     if (!provider) {
@@ -65,25 +79,26 @@ router.post("/configure", async (req: Request, res: Response): Promise<any> => {
     }
 
     // Store in AWS Secrets Manager
-    const secretName = projectId
-      ? `devops-guardian/monitoring/${projectId}`
-      : `devops-guardian/monitoring/global`;
+    const secretName = `devops-guardian/monitoring/${projectId}`;
 
     console.log(`[Watcher] Storing credentials in Secrets Manager: ${secretName}`);
     await secretsManager.storeSecrets(secretName, credentials);
 
     // Configure the watcher in-memory
-    const watcher = getWatcher();
-    watcher.configure({
-      provider,
-      awsRegion,
-      awsAccessKeyId,
-      awsSecretAccessKey,
-      logGroupName,
-      datadogApiKey,
-      datadogAppKey,
-      datadogSite,
-    });
+    const watcher = getWatcher(projectId);
+    watcher.configure(
+      {
+        provider,
+        awsRegion,
+        awsAccessKeyId,
+        awsSecretAccessKey,
+        logGroupName,
+        datadogApiKey,
+        datadogAppKey,
+        datadogSite,
+      },
+      projectId,
+    );
 
     return res.json({
       success: true,
@@ -103,7 +118,7 @@ router.post("/configure", async (req: Request, res: Response): Promise<any> => {
 router.post("/start", async (req: Request, res: Response): Promise<any> => {
   try {
     const { intervalMs = 60000, projectId } = req.body;
-    const watcher = getWatcher();
+    const watcher = getWatcher(projectId);
 
     // Try to auto-load credentials from Secrets Manager if watcher is not configured
     if (!watcher["config"]) {
@@ -111,24 +126,25 @@ router.post("/start", async (req: Request, res: Response): Promise<any> => {
         "[Watcher] No config found in memory. Attempting to load from Secrets Manager...",
       );
       try {
-        const secretName = projectId
-          ? `devops-guardian/monitoring/${projectId}`
-          : `devops-guardian/monitoring/global`;
+        const secretName = `devops-guardian/monitoring/${projectId}`;
 
         const credentials = await secretsManager.getSecrets(secretName);
 
         if (credentials && credentials.provider) {
           console.log(`[Watcher] Loaded credentials from Secrets Manager: ${secretName}`);
-          watcher.configure({
-            provider: credentials.provider as "cloudwatch" | "datadog",
-            awsRegion: credentials.awsRegion,
-            awsAccessKeyId: credentials.awsAccessKeyId,
-            awsSecretAccessKey: credentials.awsSecretAccessKey,
-            logGroupName: credentials.logGroupName,
-            datadogApiKey: credentials.datadogApiKey,
-            datadogAppKey: credentials.datadogAppKey,
-            datadogSite: credentials.datadogSite,
-          });
+          watcher.configure(
+            {
+              provider: credentials.provider as "cloudwatch" | "datadog",
+              awsRegion: credentials.awsRegion,
+              awsAccessKeyId: credentials.awsAccessKeyId,
+              awsSecretAccessKey: credentials.awsSecretAccessKey,
+              logGroupName: credentials.logGroupName,
+              datadogApiKey: credentials.datadogApiKey,
+              datadogAppKey: credentials.datadogAppKey,
+              datadogSite: credentials.datadogSite,
+            },
+            projectId,
+          );
         } else {
           return res.status(400).json({
             error: "Watcher not configured. Please configure via /api/watcher/configure first.",
@@ -153,12 +169,11 @@ router.post("/start", async (req: Request, res: Response): Promise<any> => {
 
 /**
  * POST /api/watcher/stop
- * Stop log monitoring
+ * Stop log monitoring for a project
  */
 router.post("/stop", async (req: Request, res: Response): Promise<any> => {
   try {
-    const watcher = getWatcher();
-    watcher.stopWatching();
+    watchers.get(req.body.projectId)?.stopWatching();
 
     return res.json({ success: true, message: "Watcher stopped" });
   } catch (error: any) {
@@ -168,12 +183,12 @@ router.post("/stop", async (req: Request, res: Response): Promise<any> => {
 });
 
 /**
- * GET /api/watcher/status
- * Get current watcher status
+ * GET /api/watcher/status?projectId=...
+ * Get a project's watcher status
  */
 router.get("/status", async (req: Request, res: Response): Promise<any> => {
   try {
-    const watcher = getWatcher();
+    const watcher = getWatcher(req.query.projectId as string);
     return res.json({
       status: watcher.status,
       name: watcher.name,
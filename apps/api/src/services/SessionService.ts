@@ -0,0 +1,188 @@
+import crypto from "crypto";
+import { db, ensurePersonalOrganization, GitHubService } from "@devops-guardian/shared";
+
+export const SESSION_COOKIE = "guardian_session";
+
+const SESSION_TTL_MS = Number(process.env.SESSION_TTL_HOURS || 168) * 60 * 60 * 1000;
+// Don't write lastSeenAt on every request
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+export type AuthUser = {
+  id: string;
+  login: string;
+  name: string | null;
+  avatarUrl: string | null;
+};
+
+export type AuthSession = {
+  id: string;
+  user: AuthUser;
+  // Decrypted GitHub token, server-side only
+  githubToken: string;
+  expiresAt: Date;
+};
+
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Parses a Cookie header (Express doesn't, and socket.io handshakes need it too).
+ */
+export function parseCookies(header?: string): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+  for (const part of header.split(";")) {
+    const index = part.indexOf("=");
+    if (index === -1) continue;
+    const name = part.slice(0, index).trim();
+    try {
+      cookies[name] = decodeURIComponent(part.slice(index + 1).trim());
+    } catch {
+      // Malformed value, ignore the cookie
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Cookie flags for the session cookie. The dashboard and API live on different
+ * domains in production, which requires SameSite=None (and therefore Secure).
+ */
+export function sessionCookieOptions(maxAge = SESSION_TTL_MS) {
+  const production = process.env.NODE_ENV === "production";
+  return {
+    httpOnly: true,
+    secure: production,
+    sameSite: (production ? "none" : "lax") as "none" | "lax",
+    path: "/",
+    maxAge,
+  };
+}
+
+/**
+ * Issues and resolves dashboard login sessions after GitHub OAuth.
+ */
+export class SessionService {
+  private static instance: SessionService;
+  private key: Buffer;
+
+  private constructor() {
+    const secret = process.env.SESSION_SECRET;
+    if (!secret) {
+      console.warn(
+        "[Auth] SESSION_SECRET is not set. Using a random key: sessions end when the server restarts.",
+      );
+    }
+    this.key = crypto
+      .createHash("sha256")
+      .update(secret || crypto.randomBytes(32))
+      .digest();
+  }
+
+  public static getInstance(): SessionService {
+    if (!SessionService.instance) {
+      SessionService.instance = new SessionService();
+    }
+    return SessionService.instance;
+  }
+
+  /**
+   * Validates a GitHub token, upserts the user and opens a session.
+   * Returns the opaque cookie value; it is not stored anywhere server-side.
+   */
+  public async create(githubToken: string): Promise<{ token: string; user: AuthUser }> {
+    const profile = await new GitHubService(githubToken).getAuthenticatedUser();
+
+    const user = await db.user.upsert({
+      where: { githubId: profile.id },
+      create: {
+        githubId: profile.id,
+        login: profile.login,
+        name: profile.name,
+        avatarUrl: profile.avatar_url,
+      },
+      update: { login: profile.login, name: profile.name, avatarUrl: profile.avatar_url },
+    });
+    await ensurePersonalOrganization(user);
+
+    const token = crypto.randomBytes(32).toString("base64url");
+    await db.session.create({
+      data: {
+        tokenHash: hashToken(token),
+        userId: user.id,
+        githubToken: this.encrypt(githubToken),
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+      },
+    });
+
+    console.log(`[Auth] Session opened for ${user.login}`);
+    return { token, user: this.toAuthUser(user) };
+  }
+
+  /**
+   * Looks up the session for a cookie value. Expired sessions are deleted.
+   */
+  public async resolve(token: string | undefined): Promise<AuthSession | null> {
+    if (!token) return null;
+
+    const session = await db.session.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { user: true },
+    });
+    if (!session) return null;
+
+    if (session.expiresAt.getTime() <= Date.now()) {
+      await db.session.delete({ where: { id: session.id } }).catch(() => undefined);
+      return null;
+    }
+
+    let githubToken: string;
+    try {
+      githubToken = this.decrypt(session.githubToken);
+    } catch {
+      // Encrypted with a different SESSION_SECRET
+      return null;
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > TOUCH_INTERVAL_MS) {
+      await db.session
+        .update({ where: { id: session.id }, data: { lastSeenAt: new Date() } })
+        .catch(() => undefined);
+    }
+
+    return {
+      id: session.id,
+      user: this.toAuthUser(session.user),
+      githubToken,
+      expiresAt: session.expiresAt,
+    };
+  }
+
+  public async destroy(token: string | undefined) {
+    if (!token) return;
+    await db.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+  }
+
+  private toAuthUser(user: {
+    id: string;
+    login: string;
+    name: string | null;
+    avatarUrl: string | null;
+  }): AuthUser {
+    return { id: user.id, login: user.login, name: user.name, avatarUrl: user.avatarUrl };
+  }
+
+  // iv.tag.ciphertext, base64url
+  private encrypt(value: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.key, iv);
+    const encrypted = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map((b) => b.toString("base64url")).join(".");
+  }
+
+  private decrypt(value: string): string {
+    const [iv, tag, encrypted] = value.split(".").map((part) => Buffer.from(part, "base64url"));
+    const decipher = crypto.createDecipheriv("aes-256-gcm", this.key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+  }
+}
@@ -1,5 +1,10 @@
 import { Server as HttpServer } from "http";
 import { Server, Socket } from "socket.io";
+import { getProjectRole } from "@devops-guardian/shared";
+import { SESSION_COOKIE, SessionService, parseCookies } from "./SessionService.js";
+import { accessibleProjectIds } from "../middleware/auth.js";
+
+const projectRoom = (projectId: string) => `project:${projectId}`;
 
 export class SocketService {
   private static instance: SocketService;
@@ -23,40 +28,71 @@ export class SocketService {
       },
     });
 
-    this.io.on("connection", (socket: Socket) => {
-      console.log(`[Socket] Client connected: ${socket.id}`);
+    // Same session cookie as the REST API
+    this.io.use(async (socket, next) => {
+      try {
+        const token = parseCookies(socket.handshake.headers.cookie)[SESSION_COOKIE];
+        const session = await SessionService.getInstance().resolve(token);
+        if (!session) return next(new Error("Not authenticated"));
+        socket.data.user = session.user;
+        next();
+      } catch (error: any) {
+        console.error("[Socket] Handshake auth failed:", error.message);
+        next(new Error("Failed to verify session"));
+      }
+    });
+
+    this.io.on("connection", async (socket: Socket) => {
+      console.log(`[Socket] Client connected: ${socket.id} (${socket.data.user.login})`);
+
+      // Projects created after the socket connected
+      socket.on("project:subscribe", async (projectId: string) => {
+        const role = await getProjectRole(socket.data.user.id, String(projectId)).catch(() => null);
+        if (role) {
+          socket.join(projectRoom(projectId));
+        }
+      });
 
       socket.on("disconnect", () => {
         console.log(`[Socket] Client disconnected: ${socket.id}`);
       });
+
+      // Events are only delivered to rooms of projects the user can access
+      try {
+        const projectIds = await accessibleProjectIds(socket.data.user);
+        socket.join(projectIds.map(projectRoom));
+      } catch (error: any) {
+        console.error("[Socket] Failed to join project rooms:", error.message);
+      }
     });
 
     console.log("[Socket] Service initialized and listening for connections.");
   }
 
   /**
-   * Broadcast an event to all connected clients
+   * Send an event to the clients allowed to see the project.
+   * Events without a project are dropped: nobody owns them.
    */
-  public emit(event: string, data: any) {
-    if (this.io) {
-      this.io.emit(event, data);
-      // console.log(`[Socket] Broadcast event: ${event}`);
-    } else {
+  private emitToProject(projectId: string | undefined, event: string, data: any) {
+    if (!this.io) {
       console.warn("[Socket] Attempted to emit event before initialization");
+      return;
     }
+    if (!projectId) return;
+    this.io.to(projectRoom(projectId)).emit(event, data);
   }
 
   /**
    * Emit log line to specific project room
    */
   public emitLog(
-    projectId: string,
+    projectId: string | undefined,
     log: string,
     level: string = "INFO",
     source: string = "System",
     incidentId?: string,
   ) {
-    this.emit("log:received", {
+    this.emitToProject(projectId, "log:received", {
       projectId,
       incidentId,
       log,
@@ -67,10 +103,10 @@ export class SocketService {
   }
 
   public emitIncidentUpdate(incident: any) {
-    this.emit("incident:update", incident);
+    this.emitToProject(incident?.metadata?.projectId, "incident:update", incident);
   }
 
-  public emitAgentRun(incidentId: string, agentRun: any) {
-    this.emit("agent:run", { incidentId, agentRun });
+  public emitAgentRun(projectId: string | undefined, incidentId: string, agentRun: any) {
+    this.emitToProject(projectId, "agent:run", { incidentId, agentRun });
   }
 }
@@ -0,0 +1,431 @@
+import os from "os";
+import crypto from "crypto";
+import { db } from "@devops-guardian/shared";
+
+export type WorkflowStepName = "rca" | "patch" | "approval" | "verify" | "pr" | "escalation";
+
+export type StepOutcome = {
+  // Persisted on the step row (kept small: summaries, not whole agent results)
+  output?: any;
+  // Step to schedule once this one is committed (not before `runAfter`, e.g. timers)
+  next?: { name: WorkflowStepName; input?: any; runAfter?: Date };
+};
+
+export type StepHandler = (incidentId: string, input: any) => Promise<StepOutcome>;
+
+type StepRow = Awaited<ReturnType<typeof db.workflowStep.findFirstOrThrow>>;
+
+export type EnqueueOptions = {
+  projectId?: string;
+  priority?: number;
+  maxAttempts?: number;
+};
+
+export type Admission = {
+  accepted: boolean;
+  reason?: string;
+  retryAfterSeconds?: number;
+};
+
+type WorkflowEngineOptions = {
+  leaseMs: number;
+  pollMs: number;
+  // Running steps across all API instances
+  maxConcurrent: number;
+  // Running steps per project, so one noisy project can't take every slot
+  maxPerProject: number;
+  // Pending steps before new incidents are refused (backpressure)
+  maxQueueDepth: number;
+  maxProjectQueueDepth: number;
+  // Called once a step has exhausted its retries
+  onStepFailed?: (incidentId: string, step: string, error: string) => Promise<void>;
+};
+
+/**
+ * Postgres-backed step runner for incident workflows.
+ *
+ * Each step is a `WorkflowStep` row. A worker claims a step by writing its
+ * id into `leaseOwner` and keeps the lease alive while the handler runs.
+ * If the API dies mid-step the lease expires and the step is picked up again
+ * (on this or another instance), so incidents resume from their last
+ * completed step instead of staying stuck.
+ *
+ * The step table doubles as the job queue: steps run by priority, then FIFO,
+ * within a global and a per-project concurrency cap. Steps with a future
+ * `runAfter` double as timers; they don't count as queued until they are due.
+ */
+export class WorkflowEngine {
+  private handlers = new Map<string, StepHandler>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  private options: WorkflowEngineOptions;
+
+  readonly workerId = `${os.hostname()}-${process.pid}-${crypto.randomUUID().substring(0, 8)}`;
+
+  constructor(options: Partial<WorkflowEngineOptions> = {}) {
+    this.options = {
+      leaseMs: Number(process.env.WORKFLOW_LEASE_MS) || 60_000,
+      pollMs: Number(process.env.WORKFLOW_POLL_MS) || 5_000,
+      maxConcurrent: Number(process.env.WORKFLOW_MAX_CONCURRENCY) || 4,
+      maxPerProject: Number(process.env.WORKFLOW_MAX_PER_PROJECT) || 2,
+      maxQueueDepth: Number(process.env.WORKFLOW_MAX_QUEUE_DEPTH) || 200,
+      maxProjectQueueDepth: Number(process.env.WORKFLOW_MAX_PROJECT_QUEUE_DEPTH) || 50,
+      ...options,
+    };
+  }
+
+  register(name: WorkflowStepName, handler: StepHandler) {
+    this.handlers.set(name, handler);
+  }
+
+  /**
+   * Schedules a step and wakes the poller.
+   */
+  async enqueue(
+    incidentId: string,
+    name: WorkflowStepName,
+    input?: any,
+    options: EnqueueOptions = {},
+  ) {
+    const step = await db.workflowStep.create({
+      data: {
+        incidentId,
+        name,
+        input: input ?? undefined,
+        projectId: options.projectId,
+        priority: options.priority ?? 0,
+        maxAttempts: options.maxAttempts ?? 3,
+      },
+    });
+    console.log(
+      `[Workflow] Enqueued ${name} for incident ${incidentId} (priority ${step.priority})`,
+    );
+    this.kick();
+    return step;
+  }
+
+  start() {
+    if (this.timer) return;
+    console.log(`[Workflow] Engine started (worker ${this.workerId})`);
+    this.timer = setInterval(() => this.kick(), this.options.pollMs);
+    this.timer.unref();
+    this.kick();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Steps of an incident, oldest first (for the timeline / debugging).
+   */
+  getSteps(incidentId: string) {
+    return db.workflowStep.findMany({ where: { incidentId }, orderBy: { createdAt: "asc" } });
+  }
+
+  /**
+   * Backpressure check for new incidents: refuses work once the queue
+   * (globally or for this project) is deeper than we can drain.
+   */
+  async admit(projectId?: string): Promise<Admission> {
+    const due = { status: "PENDING" as const, runAfter: { lte: new Date() } };
+    const [pending, projectPending] = await Promise.all([
+      db.workflowStep.count({ where: due }),
+      projectId ? db.workflowStep.count({ where: { ...due, projectId } }) : 0,
+    ]);
+
+    const retryAfterSeconds = 60;
+    if (pending >= this.options.maxQueueDepth) {
+      return {
+        accepted: false,
+        reason: `Incident queue is full (${pending} pending). Retry later.`,
+        retryAfterSeconds,
+      };
+    }
+    if (projectPending >= this.options.maxProjectQueueDepth) {
+      return {
+        accepted: false,
+        reason: `Too many queued incidents for this project (${projectPending} pending). Retry later.`,
+        retryAfterSeconds,
+      };
+    }
+    return { accepted: true };
+  }
+
+  /**
+   * Queue depth, running steps and wait times, globally and per project.
+   */
+  async getStats() {
+    const now = new Date();
+    const hourAgo = new Date(now.getTime() - 60 * 60 * 1000);
+    // Timers and retry backoffs aren't waiting on a worker yet
+    const active = {
+      OR: [{ status: "RUNNING" as const }, { status: "PENDING" as const, runAfter: { lte: now } }],
+    };
+
+    const [byProject, byStep, oldestPending, started] = await Promise.all([
+      db.workflowStep.groupBy({
+        by: ["projectId", "status"],
+        where: active,
+        _count: { _all: true },
+        _min: { runAfter: true },
+      }),
+      db.workflowStep.groupBy({
+        by: ["name", "status"],
+        where: active,
+        _count: { _all: true },
+      }),
+      db.workflowStep.findFirst({
+        where: { status: "PENDING", runAfter: { lte: now } },
+        orderBy: { runAfter: "asc" },
+        select: { runAfter: true },
+      }),
+      db.workflowStep.findMany({
+        where: { startedAt: { gte: hourAgo } },
+        select: { runAfter: true, startedAt: true },
+        orderBy: { startedAt: "desc" },
+        take: 1000,
+      }),
+    ]);
+
+    const projects = new Map<
+      string,
+      { projectId: string | null; pending: number; running: number; oldestPendingWaitMs: number }
+    >();
+    for (const row of byProject) {
+      const key = row.projectId ?? "";
+      const entry = projects.get(key) || {
+        projectId: row.projectId,
+        pending: 0,
+        running: 0,
+        oldestPendingWaitMs: 0,
+      };
+      if (row.status === "PENDING") {
+        entry.pending = row._count._all;
+        entry.oldestPendingWaitMs = row._min.runAfter
+          ? now.getTime() - row._min.runAfter.getTime()
+          : 0;
+      } else {
+        entry.running = row._count._all;
+      }
+      projects.set(key, entry);
+    }
+
+    const steps: Record<string, { pending: number; running: number }> = {};
+    for (const row of byStep) {
+      steps[row.name] ||= { pending: 0, running: 0 };
+      steps[row.name][row.status === "PENDING" ? "pending" : "running"] = row._count._all;
+    }
+
+    // Time between becoming due and (last) start, for steps started in the past hour
+    const waits = started
+      .map((s) => Math.max(0, s.startedAt!.getTime() - s.runAfter.getTime()))
+      .sort((a, b) => a - b);
+    const percentile = (p: number) =>
+      waits.length ? waits[Math.min(waits.length - 1, Math.floor(waits.length * p))] : 0;
+
+    const projectList = [...projects.values()];
+    return {
+      limits: {
+        maxConcurrent: this.options.maxConcurrent,
+        maxPerProject: this.options.maxPerProject,
+        maxQueueDepth: this.options.maxQueueDepth,
+        maxProjectQueueDepth: this.options.maxProjectQueueDepth,
+      },
+      pending: projectList.reduce((sum, p) => sum + p.pending, 0),
+      running: projectList.reduce((sum, p) => sum + p.running, 0),
+      oldestPendingWaitMs: oldestPending ? now.getTime() - oldestPending.runAfter.getTime() : 0,
+      waitTime: {
+        samples: waits.length,
+        avgMs: waits.length ? Math.round(waits.reduce((a, b) => a + b, 0) / waits.length) : 0,
+        p50Ms: percentile(0.5),
+        p95Ms: percentile(0.95),
+        maxMs: waits.length ? waits[waits.length - 1] : 0,
+      },
+      steps,
+      projects: projectList.sort((a, b) => b.pending - a.pending),
+    };
+  }
+
+  private kick() {
+    this.poll().catch((error) => console.error("[Workflow] Poll failed:", error));
+  }
+
+  private async poll() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const now = new Date();
+
+      // Live leases across all instances, per project
+      const active = await db.workflowStep.groupBy({
+        by: ["projectId"],
+        where: { status: "RUNNING", leaseExpiresAt: { gte: now } },
+        _count: { _all: true },
+      });
+      const runningByProject = new Map(active.map((row) => [row.projectId ?? "", row._count._all]));
+      const runningTotal = active.reduce((sum, row) => sum + row._count._all, 0);
+
+      let slots = this.options.maxConcurrent - runningTotal;
+      if (slots <= 0) return;
+
+      const due = await db.workflowStep.findMany({
+        where: {
+          OR: [
+            { status: "PENDING", runAfter: { lte: now } },
+            // Lease expired: the worker running it crashed or was restarted
+            { status: "RUNNING", leaseExpiresAt: { lt: now } },
+          ],
+        },
+        orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+        // Look past the first few rows: they may belong to projects at their cap
+        take: Math.max(slots * 5, 25),
+      });
+
+      for (const step of due) {
+        if (slots <= 0) break;
+
+        const projectKey = step.projectId ?? "";
+        const projectRunning = runningByProject.get(projectKey) ?? 0;
+        if (step.projectId && projectRunning >= this.options.maxPerProject) continue;
+
+        if (step.status === "RUNNING") {
+          console.warn(
+            `[Workflow] Reclaiming ${step.name} for incident ${step.incidentId} (lease held by ${step.leaseOwner} expired)`,
+          );
+          if (step.attempts >= step.maxAttempts) {
+            await this.giveUp(step, step.error || "Worker lease expired");
+            continue;
+          }
+        }
+
+        const claimed = await this.claim(step);
+        if (claimed) {
+          slots--;
+          runningByProject.set(projectKey, projectRunning + 1);
+          void this.execute(claimed);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Optimistic claim: only succeeds if nobody touched the row since we read it.
+   */
+  private async claim(step: StepRow): Promise<StepRow | null> {
+    const { count } = await db.workflowStep.updateMany({
+      where: { id: step.id, status: step.status, updatedAt: step.updatedAt },
+      data: {
+        status: "RUNNING",
+        leaseOwner: this.workerId,
+        leaseExpiresAt: new Date(Date.now() + this.options.leaseMs),
+        attempts: { increment: 1 },
+        startedAt: new Date(),
+      },
+    });
+    if (count !== 1) return null;
+    return db.workflowStep.findUnique({ where: { id: step.id } });
+  }
+
+  private async execute(step: StepRow) {
+    const handler = this.handlers.get(step.name);
+
+    // Keep the lease alive while the handler runs (verification can take minutes)
+    const heartbeat = setInterval(() => {
+      db.workflowStep
+        .updateMany({
+          where: { id: step.id, leaseOwner: this.workerId },
+          data: { leaseExpiresAt: new Date(Date.now() + this.options.leaseMs) },
+        })
+        .catch((error) => console.warn(`[Workflow] Heartbeat failed for ${step.id}:`, error));
+    }, this.options.leaseMs / 3);
+
+    try {
+      if (!handler) throw new Error(`No handler registered for step "${step.name}"`);
+
+      console.log(
+        `[Workflow] Running ${step.name} for incident ${step.incidentId} (attempt ${step.attempts}/${step.maxAttempts})`,
+      );
+      const outcome = await handler(step.incidentId, step.input);
+
+      const committed = await db.$transaction(async (tx) => {
+        const { count } = await tx.workflowStep.updateMany({
+          where: { id: step.id, leaseOwner: this.workerId },
+          data: {
+            status: "COMPLETED",
+            output: outcome.output ?? undefined,
+            error: null,
+            leaseOwner: null,
+            leaseExpiresAt: null,
+            completedAt: new Date(),
+          },
+        });
+        // Lease was lost (e.g. a long GC pause); another worker owns this step now
+        if (count !== 1) return false;
+
+        if (outcome.next) {
+          await tx.workflowStep.create({
+            data: {
+              incidentId: step.incidentId,
+              name: outcome.next.name,
+              input: outcome.next.input ?? undefined,
+              runAfter: outcome.next.runAfter,
+              // Follow-up steps keep the incident's queue position
+              projectId: step.projectId,
+              priority: step.priority,
+            },
+          });
+        }
+        return true;
+      });
+
+      if (!committed) {
+        console.warn(`[Workflow] Lost lease on ${step.name} (${step.id}); discarding result`);
+      }
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      console.error(`[Workflow] ${step.name} failed for incident ${step.incidentId}:`, message);
+
+      if (step.attempts >= step.maxAttempts) {
+        await this.giveUp(step, message);
+      } else {
+        // Exponential backoff: 10s, 20s, 40s...
+        const delayMs = 5_000 * 2 ** step.attempts;
+        await db.workflowStep
+          .updateMany({
+            where: { id: step.id, leaseOwner: this.workerId },
+            data: {
+              status: "PENDING",
+              error: message,
+              leaseOwner: null,
+              leaseExpiresAt: null,
+              runAfter: new Date(Date.now() + delayMs),
+            },
+          })
+          .catch((e) => console.error(`[Workflow] Failed to schedule retry for ${step.id}:`, e));
+      }
+    } finally {
+      clearInterval(heartbeat);
+      this.kick();
+    }
+  }
+
+  private async giveUp(step: StepRow, message: string) {
+    try {
+      await db.workflowStep.update({
+        where: { id: step.id },
+        data: { status: "FAILED", error: message, leaseOwner: null, leaseExpiresAt: null },
+      });
+      console.error(
+        `[Workflow] ${step.name} for incident ${step.incidentId} failed after ${step.attempts} attempt(s)`,
+      );
+      await this.options.onStepFailed?.(step.incidentId, step.name, message);
+    } catch (error) {
+      console.error(`[Workflow] Failed to mark ${step.id} as failed:`, error);
+    }
+  }
+}
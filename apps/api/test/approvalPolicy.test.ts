@@ -0,0 +1,172 @@
+import { test, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ApproverNotAllowedError,
+  db,
+  DEFAULT_APPROVAL_POLICY,
+  escalationSchedule,
+  InsufficientRoleError,
+  isAllowedApprover,
+  parseApprovalPolicy,
+  recordApprovalDecision,
+  requiredApprovals,
+} from "@devops-guardian/shared";
+import { stubDb } from "./helpers/db.js";
+
+const MEMBERS: Record<string, { role: string; login: string; slackUserId?: string }> = {
+  u1: { role: "APPROVER", login: "alice", slackUserId: "SALICE" },
+  u2: { role: "ADMIN", login: "bob" },
+  u3: { role: "APPROVER", login: "carol" },
+  u4: { role: "RESPONDER", login: "dave" },
+};
+
+/**
+ * An incident in org1 awaiting approval, with its project's policy and the
+ * approvals recorded so far kept in memory.
+ */
+function stubIncident(
+  t: TestContext,
+  options: { policy?: unknown; severity?: string; approvalRequestedAt?: string } = {},
+) {
+  const approvals: any[] = [];
+  stubDb(t, db.incident, "findUnique", async () => ({ orgId: "org1" }));
+  stubDb(t, db.incident, "findUniqueOrThrow", async () => ({
+    severity: options.severity ?? "CRITICAL",
+    metadata: { projectId: "p1", approvalRequestedAt: options.approvalRequestedAt },
+  }));
+  stubDb(t, db.project, "findUnique", async () => ({ approvalPolicy: options.policy ?? null }));
+  stubDb(t, db.membership, "findFirst", async ({ where }: any) => {
+    const userId = Object.keys(MEMBERS).find((id) =>
+      where.userId ? id === where.userId : MEMBERS[id].slackUserId === where.slackUserId,
+    );
+    if (!userId) return null;
+    const { role, login } = MEMBERS[userId];
+    return { userId, orgId: "org1", role, user: { login } };
+  });
+  stubDb(t, db.approval, "create", async ({ data }: any) => {
+    const approval = { id: `a${approvals.length + 1}`, createdAt: new Date(), ...data };
+    approvals.push(approval);
+    return approval;
+  });
+  stubDb(t, db.approval, "findMany", async ({ where }: any) =>
+    approvals.filter(
+      (a) =>
+        a.incidentId === where.incidentId &&
+        a.decision === where.decision &&
+        (!where.createdAt || a.createdAt >= where.createdAt.gte),
+    ),
+  );
+  return approvals;
+}
+
+const CRITICAL_TWO = { requiredApprovals: { CRITICAL: 2 } };
+
+test("quorum needs distinct approvers", async (t) => {
+  stubIncident(t, { policy: CRITICAL_TWO });
+
+  const first = await recordApprovalDecision("inc1", { userId: "u1" }, "APPROVED", "DASHBOARD");
+  assert.deepEqual([first.approvers, first.required, first.approved], [["alice"], 2, false]);
+
+  // Approving twice (e.g. dashboard, then Slack) still counts once
+  const again = await recordApprovalDecision(
+    "inc1",
+    { slackUserId: "SALICE" },
+    "APPROVED",
+    "SLACK",
+  );
+  assert.equal(again.approved, false);
+  assert.equal(again.approval.slackUserId, "SALICE");
+
+  const second = await recordApprovalDecision("inc1", { userId: "u2" }, "APPROVED", "DASHBOARD");
+  assert.deepEqual([second.approvers, second.approved], [["alice", "bob"], true]);
+});
+
+test("one approval is enough when the policy doesn't say otherwise", async (t) => {
+  stubIncident(t, { policy: CRITICAL_TWO, severity: "WARNING" });
+  const tally = await recordApprovalDecision("inc1", { userId: "u3" }, "APPROVED", "DASHBOARD");
+  assert.deepEqual([tally.required, tally.approved], [1, true]);
+});
+
+test("a rejection never reaches quorum", async (t) => {
+  stubIncident(t);
+  const tally = await recordApprovalDecision("inc1", { userId: "u1" }, "REJECTED", "DASHBOARD");
+  assert.deepEqual([tally.approvers, tally.approved], [[], false]);
+});
+
+test("approvals from an earlier round don't count", async (t) => {
+  const approvals = stubIncident(t, {
+    policy: CRITICAL_TWO,
+    approvalRequestedAt: new Date(Date.now() - 1000).toISOString(),
+  });
+  approvals.push({
+    incidentId: "inc1",
+    decision: "APPROVED",
+    login: "carol",
+    createdAt: new Date(Date.now() - 60_000),
+  });
+
+  const tally = await recordApprovalDecision("inc1", { userId: "u1" }, "APPROVED", "DASHBOARD");
+  assert.deepEqual([tally.approvers, tally.approved], [["alice"], false]);
+});
+
+test("only listed approvers and role groups may approve", async (t) => {
+  const approvals = stubIncident(t, { policy: { allowedApprovers: ["Alice", "role:ADMIN"] } });
+
+  await assert.rejects(
+    recordApprovalDecision("inc1", { userId: "u3" }, "APPROVED", "DASHBOARD"),
+    (error: unknown) => error instanceof ApproverNotAllowedError && error.login === "carol",
+  );
+  assert.equal(approvals.length, 0);
+
+  // Logins match case-insensitively; ADMIN is covered by the role group
+  assert.equal(
+    (await recordApprovalDecision("inc1", { userId: "u1" }, "APPROVED", "DASHBOARD")).approved,
+    true,
+  );
+  assert.equal(
+    (await recordApprovalDecision("inc1", { userId: "u2" }, "APPROVED", "DASHBOARD")).approved,
+    true,
+  );
+});
+
+test("responders and unknown Slack users can't approve", async (t) => {
+  stubIncident(t);
+  await assert.rejects(
+    recordApprovalDecision("inc1", { userId: "u4" }, "APPROVED", "DASHBOARD"),
+    InsufficientRoleError,
+  );
+  await assert.rejects(
+    recordApprovalDecision("inc1", { slackUserId: "SUNKNOWN" }, "APPROVED", "SLACK"),
+    InsufficientRoleError,
+  );
+});
+
+test("invalid stored policies fall back to the default", () => {
+  assert.deepEqual(
+    parseApprovalPolicy({ requiredApprovals: { CRITICAL: 0 } }),
+    DEFAULT_APPROVAL_POLICY,
+  );
+  assert.deepEqual(
+    parseApprovalPolicy({ allowedApprovers: ["role:OWNER"] }),
+    DEFAULT_APPROVAL_POLICY,
+  );
+  assert.equal(requiredApprovals(DEFAULT_APPROVAL_POLICY, "CRITICAL"), 1);
+  assert.equal(
+    isAllowedApprover(DEFAULT_APPROVAL_POLICY, { login: "anyone", role: "APPROVER" }),
+    true,
+  );
+});
+
+test("escalation steps fire in order and stop at expiry", () => {
+  const policy = parseApprovalPolicy({
+    escalation: {
+      CRITICAL: { remindAfterMinutes: 90, escalateAfterMinutes: 15, expireAfterMinutes: 60 },
+    },
+  });
+
+  assert.deepEqual(escalationSchedule(policy, "CRITICAL"), [
+    { action: "ESCALATE", afterMinutes: 15 },
+    { action: "EXPIRE", afterMinutes: 60 },
+  ]);
+  assert.deepEqual(escalationSchedule(policy, "INFO"), []);
+});
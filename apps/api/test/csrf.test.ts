@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Request } from "express";
+import { csrfViolation } from "../src/middleware/csrf.js";
+
+function request(method: string, headers: Record<string, string> = {}): Request {
+  return {
+    method,
+    headers,
+    is: (type: string) => (headers["content-type"]?.startsWith(type) ? type : false),
+  } as unknown as Request;
+}
+
+const DASHBOARD = { "x-requested-with": "XMLHttpRequest", origin: "http://localhost:3002" };
+
+test("reads are never blocked", () => {
+  assert.equal(csrfViolation(request("GET", { origin: "https://evil.example" })), null);
+});
+
+test("dashboard requests pass, with or without a JSON body", () => {
+  const json = { ...DASHBOARD, "content-type": "application/json", "content-length": "2" };
+  assert.equal(csrfViolation(request("POST", json)), null);
+  assert.equal(csrfViolation(request("POST", { ...DASHBOARD, "content-length": "0" })), null);
+});
+
+test("requests from another origin are rejected", () => {
+  const headers = { ...DASHBOARD, origin: "https://evil.example" };
+  assert.match(csrfViolation(request("PUT", headers)) || "", /not allowed/);
+});
+
+test("requests without the custom header are rejected", () => {
+  assert.match(csrfViolation(request("POST", { origin: DASHBOARD.origin })) || "", /header/);
+});
+
+test("form posts are rejected", () => {
+  const headers = {
+    ...DASHBOARD,
+    "content-type": "application/x-www-form-urlencoded",
+    "content-length": "3",
+  };
+  assert.match(csrfViolation(request("POST", headers)) || "", /JSON/);
+});
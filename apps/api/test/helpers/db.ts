@@ -0,0 +1,18 @@
+import type { TestContext } from "node:test";
+
+/**
+ * Replaces a Prisma delegate method (e.g. `db.project.findMany`) for one test.
+ * Delegate methods are proxied getters, which `t.mock.method` can't wrap.
+ */
+export function stubDb<T extends object, K extends keyof T>(
+  t: TestContext,
+  delegate: T,
+  method: K,
+  implementation: (...args: any[]) => Promise<unknown>,
+) {
+  const original = delegate[method];
+  (delegate as any)[method] = implementation;
+  t.after(() => {
+    delegate[method] = original;
+  });
+}
@@ -0,0 +1,130 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { fileURLToPath } from "url";
+
+// End-to-end run of the workflow against a Postgres database, with Gemini,
+// GitHub, the sandbox and Slack replayed from a fixture.
+const FIXTURE = fileURLToPath(new URL("./fixtures/github-ci-typeerror.json", import.meta.url));
+
+// Constructors still check for credentials; replayed services never use them
+process.env.GEMINI_API_KEY ||= "replay";
+process.env.SLACK_BOT_TOKEN ||= "replay";
+process.env.SLACK_CHANNEL_ID ||= "replay";
+process.env.WORKFLOW_POLL_MS ||= "200";
+
+test(
+  "CI failure goes RCA -> Patch -> Verify -> PR with replayed services",
+  { skip: !process.env.DATABASE_URL && "needs DATABASE_URL (Postgres)" },
+  async (t) => {
+    // Loaded here so a skipped run never starts the Prisma client
+    const {
+      FixtureReplayer,
+      SecretsManagerService,
+      TERMINAL_INCIDENT_STATUSES,
+      setReplaySession,
+      db,
+    } = await import("@devops-guardian/shared");
+
+    // No stored secrets: the GitHub token comes from Project.githubToken,
+    // Slack from SLACK_BOT_TOKEN / SLACK_CHANNEL_ID
+    t.mock.method(SecretsManagerService.prototype, "getSecrets", async () => ({}));
+
+    async function waitForWorkflow(incidentId: string, timeoutMs = 30_000) {
+      const deadline = Date.now() + timeoutMs;
+      while (Date.now() < deadline) {
+        const [incident, busy] = await Promise.all([
+          db.incident.findUnique({ where: { id: incidentId } }),
+          db.workflowStep.count({
+            where: { incidentId, status: { in: ["PENDING", "RUNNING"] } },
+          }),
+        ]);
+        if (incident && TERMINAL_INCIDENT_STATUSES.includes(incident.status as any) && busy === 0) {
+          return incident;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 200));
+      }
+      throw new Error(`Workflow for ${incidentId} did not finish within ${timeoutMs} ms`);
+    }
+
+    const replayer = new FixtureReplayer(FIXTURE);
+    setReplaySession(replayer);
+    // Imported after the session is set: the orchestrator creates its memory provider on load
+    const { orchestrator } = await import("../src/orchestrator.js");
+
+    const project = await db.project.create({
+      data: { name: "Replay test", githubRepo: "acme/shop-api", githubToken: "replay" },
+    });
+    const incidentId = randomUUID();
+
+    try {
+      await orchestrator.handleIncident({
+        id: incidentId,
+        source: "GITHUB",
+        severity: "CRITICAL",
+        title: "CI failed: npm test",
+        message: "TypeError: Cannot read properties of undefined (reading 'port')",
+        description: "TypeError: Cannot read properties of undefined (reading 'port')",
+        metadata: { projectId: project.id, owner: "acme", repo: "shop-api", branch: "main" },
+        timestamp: new Date(),
+      });
+
+      const incident = await waitForWorkflow(incidentId);
+      const metadata = incident.metadata as any;
+
+      assert.equal(incident.status, "RESOLVED");
+      assert.deepEqual(
+        (incident.statusHistory as any[]).map((t) => t.to),
+        [
+          "OPEN",
+          "RCA_IN_PROGRESS",
+          "PATCH_IN_PROGRESS",
+          "VERIFY_IN_PROGRESS",
+          "PR_CREATION_IN_PROGRESS",
+          "RESOLVED",
+        ],
+      );
+
+      assert.equal(metadata.rcaData.category, "CODE");
+      assert.deepEqual(metadata.patchData.files, ["src/config.js"]);
+      assert.match(metadata.patchData.diff, /\+ {2}port: Number\(env\.PORT\) \|\| 3000,/);
+      assert.equal(metadata.patchData.verification.outcome, "FIXED");
+      assert.equal(metadata.patchGuard.passed, true);
+      assert.equal(metadata.prUrl, "https://github.com/acme/shop-api/pull/42");
+
+      const runs = await db.agentRun.findMany({ where: { incidentId, status: "COMPLETED" } });
+      for (const agent of ["Policy", "RCA", "Patch", "Guard", "Verify", "PR"]) {
+        assert.ok(
+          runs.some((run) => run.agentName === agent),
+          `missing completed ${agent} run`,
+        );
+      }
+
+      const steps = await db.workflowStep.findMany({
+        where: { incidentId },
+        orderBy: { createdAt: "asc" },
+      });
+      assert.deepEqual(
+        steps.map((s) => [s.name, s.status]),
+        [
+          ["rca", "COMPLETED"],
+          ["patch", "COMPLETED"],
+          ["verify", "COMPLETED"],
+          ["pr", "COMPLETED"],
+        ],
+      );
+
+      assert.deepEqual(
+        replayer.unused().map((call) => `${call.service}.${call.method}`),
+        [],
+      );
+    } finally {
+      await db.workflowStep.deleteMany({ where: { incidentId } });
+      await db.agentRun.deleteMany({ where: { incidentId } });
+      await db.incident.deleteMany({ where: { id: incidentId } });
+      await db.project.delete({ where: { id: project.id } });
+      setReplaySession(null);
+      await db.$disconnect();
+    }
+  },
+);
@@ -0,0 +1,104 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  applyFileChange,
+  applySearchReplace,
+  applyUnifiedDiff,
+  createUnifiedDiff,
+  PatchApplyError,
+} from "@devops-guardian/shared";
+
+const CONFIG =
+  "const env = process.env;\n\nmodule.exports = {\n  port: env.server.port || 3000,\n};\n";
+
+test("applies search/replace hunks and reports the diff", () => {
+  const applied = applyFileChange(
+    {
+      path: "src/config.js",
+      edits: [
+        {
+          search: "  port: env.server.port || 3000,",
+          replace: "  port: Number(env.PORT) || 3000,",
+        },
+      ],
+    },
+    CONFIG,
+  );
+
+  assert.equal(applied.content, CONFIG.replace("env.server.port", "Number(env.PORT)"));
+  assert.equal(applied.isNew, false);
+  assert.equal(applied.linesAdded, 1);
+  assert.equal(applied.linesRemoved, 1);
+  assert.match(applied.diff, /^--- a\/src\/config\.js$/m);
+  assert.match(applied.diff, /^\+ {2}port: Number\(env\.PORT\) \|\| 3000,$/m);
+});
+
+test("applies a unified diff", () => {
+  const updated = CONFIG.replace("3000", "8080");
+  const diff = createUnifiedDiff("src/config.js", CONFIG, updated);
+
+  assert.equal(applyUnifiedDiff("src/config.js", CONFIG, diff), updated);
+});
+
+test("creates new files from full content only", () => {
+  const applied = applyFileChange({ path: "src/new.js", content: "export {};\n" }, null);
+  assert.equal(applied.isNew, true);
+  assert.match(applied.diff, /^--- \/dev\/null$/m);
+
+  assert.throws(
+    () => applyFileChange({ path: "src/missing.js", edits: [{ search: "a", replace: "b" }] }, null),
+    /does not exist/,
+  );
+  assert.throws(
+    () => applyFileChange({ path: "src/config.js", content: "rewritten\n" }, CONFIG),
+    /edits or a diff/,
+  );
+});
+
+test("rejects hunks that don't match exactly once", () => {
+  assert.throws(
+    () => applySearchReplace("src/config.js", CONFIG, [{ search: "nope", replace: "x" }]),
+    (error: unknown) =>
+      error instanceof PatchApplyError &&
+      error.path === "src/config.js" &&
+      /does not match/.test(error.message),
+  );
+  assert.throws(
+    () => applySearchReplace("src/config.js", CONFIG, [{ search: "env", replace: "x" }]),
+    /more than once/,
+  );
+  assert.throws(
+    () => applySearchReplace("src/config.js", CONFIG, [{ search: "", replace: "x" }]),
+    /empty search block/,
+  );
+});
+
+test("rejects diffs that don't apply and no-op changes", () => {
+  const diff = createUnifiedDiff("src/config.js", CONFIG.replace("port", "host"), CONFIG);
+  assert.throws(() => applyUnifiedDiff("src/config.js", CONFIG, diff), /does not apply cleanly/);
+
+  assert.throws(
+    () =>
+      applyFileChange(
+        { path: "src/config.js", edits: [{ search: "3000", replace: "3000" }] },
+        CONFIG,
+      ),
+    /no-op/,
+  );
+});
+
+test("keeps CRLF line endings", () => {
+  const crlf = CONFIG.replace(/\n/g, "\r\n");
+  const applied = applyFileChange(
+    {
+      path: "src/config.js",
+      edits: [{ search: "3000,\n};", replace: "3000,\n  host: env.HOST,\n};" }],
+    },
+    crlf,
+  );
+
+  assert.equal(applied.content, crlf.replace("3000,\r\n", "3000,\r\n  host: env.HOST,\r\n"));
+  assert.equal(applied.linesAdded, 1);
+  assert.equal(applied.linesRemoved, 0);
+  assert.equal(applyUnifiedDiff("src/config.js", crlf, applied.diff), applied.content);
+});
@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkPatch, DEFAULT_PATCH_GUARD, parsePatchGuard } from "@devops-guardian/shared";
+
+const DIFF = "--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1,2 +1,2 @@\n-old\n+new\n context\n";
+
+test("passes a small patch outside protected paths", () => {
+  const verdict = checkPatch(DEFAULT_PATCH_GUARD, { files: ["src/a.ts"], diff: DIFF });
+  assert.deepEqual(
+    [verdict.passed, verdict.files, verdict.lines, verdict.violations],
+    [true, 1, 2, []],
+  );
+});
+
+test("flags protected paths, including nested lockfiles and env files", () => {
+  const verdict = checkPatch(DEFAULT_PATCH_GUARD, {
+    files: [".github/workflows/ci.yml", "./apps/web/package-lock.json", "config/.env.production"],
+    fileUpdates: [{ path: ".github/workflows/ci.yml" }, { path: "src/a.ts" }],
+    diff: DIFF,
+  });
+
+  assert.equal(verdict.passed, false);
+  // Files listed twice are counted once
+  assert.equal(verdict.files, 4);
+  assert.deepEqual(verdict.violations, [
+    ".github/workflows/ci.yml is protected (.github/**)",
+    "./apps/web/package-lock.json is protected (**/package-lock.json)",
+    "config/.env.production is protected (**/.env*)",
+  ]);
+});
+
+test("flags files outside the allowed paths", () => {
+  const guard = parsePatchGuard({ allowedPaths: ["src/**"], protectedPaths: [] });
+  const verdict = checkPatch(guard, { files: ["src/a.ts", "scripts/deploy.sh"], diff: DIFF });
+  assert.deepEqual(verdict.violations, ["scripts/deploy.sh is outside the allowed paths"]);
+});
+
+test("flags patches over the file and line limits", () => {
+  const guard = parsePatchGuard({ maxFiles: 1, maxLines: 1 });
+  const verdict = checkPatch(guard, { files: ["src/a.ts", "src/b.ts"], diff: DIFF });
+  assert.deepEqual(verdict.violations, ["2 files changed (max 1)", "2 lines changed (max 1)"]);
+});
+
+test("invalid configs fall back to the default guard", () => {
+  assert.equal(parsePatchGuard({ maxFiles: 0 }), DEFAULT_PATCH_GUARD);
+  assert.equal(parsePatchGuard(undefined), DEFAULT_PATCH_GUARD);
+  // Setting protectedPaths replaces the defaults
+  assert.deepEqual(parsePatchGuard({ protectedPaths: ["infra/**"] }).protectedPaths, ["infra/**"]);
+});
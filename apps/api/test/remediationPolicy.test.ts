@@ -0,0 +1,145 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  countPatchLines,
+  DEFAULT_REMEDIATION_POLICY,
+  evaluateRemediationPolicy,
+  matchesGlob,
+  parseRemediationPolicy,
+  parseRemediationPolicyDocument,
+  remediationFacts,
+} from "@devops-guardian/shared";
+
+const POLICY = parseRemediationPolicyDocument(`
+rules:
+  - name: Ignore docs builds
+    sources: [GITHUB]
+    branches: ["docs/**"]
+    action: IGNORE
+  - name: Payments needs a human
+    services: ["payments-*"]
+    action: REQUIRE_APPROVAL
+  - name: Small CI fixes
+    sources: [GITHUB, JENKINS]
+    files: ["src/**/*.ts"]
+    maxPatchLines: 20
+    action: AUTO_PR
+defaultAction: RCA_ONLY
+`);
+
+const DIFF = "--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-old\n+new\n";
+
+test("the first matching rule wins", () => {
+  const decision = evaluateRemediationPolicy(POLICY, {
+    source: "GITHUB",
+    severity: "CRITICAL",
+    service: "payments-api",
+    branch: "main",
+  });
+
+  assert.deepEqual(
+    [decision.action, decision.rule, decision.final],
+    ["REQUIRE_APPROVAL", "Payments needs a human", true],
+  );
+  assert.deepEqual(decision.trace, [
+    { rule: "Ignore docs builds", matched: false, reason: "branch main doesn't match" },
+    { rule: "Payments needs a human", matched: true, reason: undefined },
+  ]);
+});
+
+test("patch conditions wait for the patch, then decide", () => {
+  const incident = { source: "GITHUB", severity: "CRITICAL", metadata: { branch: "main" } };
+
+  const before = evaluateRemediationPolicy(POLICY, remediationFacts(incident));
+  assert.deepEqual([before.action, before.final], [null, false]);
+  assert.equal(before.trace.at(-1)?.reason, "depends on the patch");
+
+  const after = evaluateRemediationPolicy(
+    POLICY,
+    remediationFacts(incident, { files: ["src/api/a.ts"], diff: DIFF }),
+  );
+  assert.deepEqual([after.action, after.rule, after.final], ["AUTO_PR", "Small CI fixes", true]);
+});
+
+test("falls back to the default action when no rule matches", () => {
+  const tooBig = evaluateRemediationPolicy(POLICY, {
+    source: "JENKINS",
+    severity: "WARNING",
+    branch: "main",
+    files: ["src/a.ts"],
+    patchLines: 21,
+  });
+  assert.deepEqual([tooBig.action, tooBig.rule], ["RCA_ONLY", null]);
+  assert.equal(tooBig.trace.at(-1)?.reason, "patch has 21 line(s), max 20");
+
+  const otherFiles = evaluateRemediationPolicy(POLICY, {
+    source: "GITHUB",
+    severity: "WARNING",
+    files: ["README.md"],
+    patchLines: 2,
+  });
+  assert.equal(otherFiles.action, "RCA_ONLY");
+  assert.equal(otherFiles.trace.at(-1)?.reason, "no touched file matches");
+});
+
+test("rules on sources and severities", () => {
+  const policy = parseRemediationPolicy({
+    rules: [
+      {
+        name: "Critical logs",
+        sources: ["LOG_INGESTION"],
+        severities: ["CRITICAL"],
+        action: "IGNORE",
+      },
+    ],
+  });
+
+  assert.equal(
+    evaluateRemediationPolicy(policy, { source: "LOG_INGESTION", severity: "CRITICAL" }).action,
+    "IGNORE",
+  );
+  assert.equal(
+    evaluateRemediationPolicy(policy, { source: "LOG_INGESTION", severity: "INFO" }).trace[0]
+      .reason,
+    "severity INFO not in [CRITICAL]",
+  );
+  assert.equal(
+    evaluateRemediationPolicy(policy, { source: "GITHUB", severity: "CRITICAL" }).trace[0].reason,
+    "source GITHUB not in [LOG_INGESTION]",
+  );
+});
+
+test("the default policy auto-fixes CI failures only", () => {
+  const ci = evaluateRemediationPolicy(DEFAULT_REMEDIATION_POLICY, {
+    source: "JENKINS",
+    severity: "CRITICAL",
+  });
+  const logs = evaluateRemediationPolicy(DEFAULT_REMEDIATION_POLICY, {
+    source: "LOG_INGESTION",
+    severity: "CRITICAL",
+  });
+  assert.equal(ci.action, "AUTO_PR");
+  assert.equal(logs.action, "REQUIRE_APPROVAL");
+});
+
+test("invalid policies are rejected or fall back to the default", () => {
+  assert.throws(() => parseRemediationPolicyDocument("rules:\n  - name: x\n    action: DEPLOY\n"));
+  assert.throws(() => parseRemediationPolicyDocument("rules: [unclosed"));
+  assert.equal(parseRemediationPolicy({ defaultAction: "MERGE" }), DEFAULT_REMEDIATION_POLICY);
+  assert.equal(parseRemediationPolicy(null), DEFAULT_REMEDIATION_POLICY);
+});
+
+test("globs: ** crosses directories, * and ? don't", () => {
+  assert.equal(matchesGlob("src/**/*.ts", "src/a.ts"), true);
+  assert.equal(matchesGlob("src/**/*.ts", "src/api/v1/a.ts"), true);
+  assert.equal(matchesGlob("src/*.ts", "src/api/a.ts"), false);
+  assert.equal(matchesGlob("release/v?", "release/v2"), true);
+  assert.equal(matchesGlob("release/v?", "release/v10"), false);
+  assert.equal(matchesGlob("*.env", "prod.env"), true);
+  assert.equal(matchesGlob("a.b", "axb"), false);
+});
+
+test("counts changed lines without file headers", () => {
+  assert.equal(countPatchLines(DIFF), 2);
+  assert.equal(countPatchLines(""), 0);
+});
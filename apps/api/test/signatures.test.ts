@@ -0,0 +1,209 @@
+import { test, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { once } from "events";
+import type { AddressInfo } from "net";
+import express from "express";
+import { db, type Project } from "@devops-guardian/shared";
+import {
+  captureRawBody,
+  signWebhookBody,
+  verifySlackSignature,
+  verifyWebhookSignature,
+} from "../src/middleware/signatures.js";
+import { stubDb } from "./helpers/db.js";
+
+const SLACK_SECRET = "slack-signing-secret";
+
+/**
+ * Posts `body` to `app` over HTTP, so the body parsers and raw body capture run as in production.
+ */
+async function post(app: express.Express, body: string, headers: Record<string, string>) {
+  const server = app.listen(0);
+  await once(server, "listening");
+  try {
+    const { port } = server.address() as AddressInfo;
+    const res = await fetch(`http://127.0.0.1:${port}/hook`, { method: "POST", headers, body });
+    return { status: res.status, body: await res.json() };
+  } finally {
+    server.close();
+  }
+}
+
+function slackApp(getSecret = async (): Promise<string | undefined> => SLACK_SECRET) {
+  const app = express();
+  app.use(express.urlencoded({ extended: true, verify: captureRawBody }));
+  app.post("/hook", verifySlackSignature(getSecret), (_req, res) => {
+    res.json({ ok: true });
+  });
+  return app;
+}
+
+function slackHeaders(body: string, options: { secret?: string; age?: number } = {}) {
+  const timestamp = String(Math.floor(Date.now() / 1000) - (options.age ?? 0));
+  const signature =
+    "v0=" +
+    crypto
+      .createHmac("sha256", options.secret ?? SLACK_SECRET)
+      .update(`v0:${timestamp}:${body}`)
+      .digest("hex");
+  return {
+    "content-type": "application/x-www-form-urlencoded",
+    "x-slack-request-timestamp": timestamp,
+    "x-slack-signature": signature,
+  };
+}
+
+const SLACK_BODY = "payload=" + encodeURIComponent(JSON.stringify({ type: "block_actions" }));
+
+test("Slack: accepts a correctly signed request", async () => {
+  const res = await post(slackApp(), SLACK_BODY, slackHeaders(SLACK_BODY));
+  assert.deepEqual(res, { status: 200, body: { ok: true } });
+});
+
+test("Slack: rejects requests without a signature", async () => {
+  const res = await post(slackApp(), SLACK_BODY, {
+    "content-type": "application/x-www-form-urlencoded",
+  });
+  assert.deepEqual(res, { status: 401, body: { error: "Missing Slack signature" } });
+});
+
+test("Slack: rejects requests older than five minutes (replay)", async () => {
+  const res = await post(slackApp(), SLACK_BODY, slackHeaders(SLACK_BODY, { age: 6 * 60 }));
+  assert.deepEqual(res, { status: 401, body: { error: "Stale Slack request" } });
+});
+
+test("Slack: rejects a wrong secret, a tampered body and a truncated signature", async () => {
+  const wrongSecret = await post(
+    slackApp(),
+    SLACK_BODY,
+    slackHeaders(SLACK_BODY, { secret: "other" }),
+  );
+  assert.deepEqual(wrongSecret, { status: 401, body: { error: "Invalid Slack signature" } });
+
+  const tampered = await post(slackApp(), SLACK_BODY + "x", slackHeaders(SLACK_BODY));
+  assert.equal(tampered.status, 401);
+
+  // Length mismatch must not reach timingSafeEqual (it throws on unequal lengths)
+  const headers = slackHeaders(SLACK_BODY);
+  const truncated = await post(slackApp(), SLACK_BODY, {
+    ...headers,
+    "x-slack-signature": headers["x-slack-signature"].slice(0, 10),
+  });
+  assert.deepEqual(truncated, { status: 401, body: { error: "Invalid Slack signature" } });
+});
+
+test("Slack: rejects requests when no signing secret is configured", async () => {
+  const res = await post(
+    slackApp(async () => undefined),
+    SLACK_BODY,
+    slackHeaders(SLACK_BODY),
+  );
+  assert.deepEqual(res, { status: 401, body: { error: "Slack signing secret not configured" } });
+});
+
+function webhookApp() {
+  const app = express();
+  app.use(express.json({ verify: captureRawBody }));
+  app.post(
+    "/hook",
+    verifyWebhookSignature(
+      "GITHUB",
+      "x-hub-signature-256",
+      (req) => req.body?.repository?.full_name,
+    ),
+    (req, res) => {
+      res.json({ project: req.webhookProject?.id });
+    },
+  );
+  return app;
+}
+
+/**
+ * Stubs the projects connected to the repository and collects recorded rejections.
+ */
+function stubProjects(t: TestContext, projects: Partial<Project>[]) {
+  const rejections: any[] = [];
+  stubDb(t, db.project, "findMany", async () => projects);
+  stubDb(t, db.webhookRejection, "createMany", async ({ data }: any) => {
+    rejections.push(...data);
+    return { count: data.length };
+  });
+  return rejections;
+}
+
+const PUSH_BODY = JSON.stringify({ repository: { full_name: "acme/shop-api" } });
+
+test("Webhook: accepts a delivery signed with any connected project's secret", async (t) => {
+  stubProjects(t, [
+    { id: "p1", webhookSecret: "first" },
+    { id: "p2", webhookSecret: "second" },
+  ]);
+  const res = await post(webhookApp(), PUSH_BODY, {
+    "content-type": "application/json",
+    "x-hub-signature-256": signWebhookBody("second", PUSH_BODY),
+  });
+  assert.deepEqual(res, { status: 200, body: { project: "p2" } });
+});
+
+test("Webhook: rejects and records an invalid signature", async (t) => {
+  const rejections = stubProjects(t, [
+    { id: "p1", webhookSecret: "first" },
+    { id: "p2", webhookSecret: null },
+  ]);
+  const res = await post(webhookApp(), PUSH_BODY, {
+    "content-type": "application/json",
+    "x-hub-signature-256": signWebhookBody("guess", PUSH_BODY),
+    "x-github-delivery": "delivery-1",
+  });
+
+  assert.deepEqual(res, { status: 401, body: { error: "Invalid signature" } });
+  assert.deepEqual(
+    rejections.map((r) => [r.source, r.projectId, r.repo, r.reason, r.deliveryId]),
+    [
+      ["GITHUB", "p1", "acme/shop-api", "Invalid signature", "delivery-1"],
+      ["GITHUB", "p2", "acme/shop-api", "Invalid signature", "delivery-1"],
+    ],
+  );
+});
+
+test("Webhook: rejects a truncated signature without throwing", async (t) => {
+  stubProjects(t, [{ id: "p1", webhookSecret: "first" }]);
+  const res = await post(webhookApp(), PUSH_BODY, {
+    "content-type": "application/json",
+    "x-hub-signature-256": "sha256=abc",
+  });
+  assert.deepEqual(res, { status: 401, body: { error: "Invalid signature" } });
+});
+
+test("Webhook: rejects unsigned deliveries, unknown repos and projects without a secret", async (t) => {
+  stubProjects(t, [{ id: "p1", webhookSecret: null }]);
+  const headers = { "content-type": "application/json" };
+
+  assert.deepEqual(await post(webhookApp(), PUSH_BODY, headers), {
+    status: 401,
+    body: { error: "Missing x-hub-signature-256 header" },
+  });
+  assert.deepEqual(
+    await post(webhookApp(), PUSH_BODY, {
+      ...headers,
+      "x-hub-signature-256": signWebhookBody("any", PUSH_BODY),
+    }),
+    { status: 401, body: { error: "No webhook secret configured" } },
+  );
+  assert.deepEqual(await post(webhookApp(), JSON.stringify({}), headers), {
+    status: 401,
+    body: { error: "Missing repository in payload" },
+  });
+});
+
+test("Webhook: rejects deliveries for repositories no project is connected to", async (t) => {
+  const rejections = stubProjects(t, []);
+  const res = await post(webhookApp(), PUSH_BODY, {
+    "content-type": "application/json",
+    "x-hub-signature-256": signWebhookBody("any", PUSH_BODY),
+  });
+
+  assert.deepEqual(res, { status: 401, body: { error: "Unknown repository" } });
+  assert.equal(rejections[0].projectId, null);
+});
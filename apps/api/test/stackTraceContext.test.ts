@@ -0,0 +1,118 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildCodeContext,
+  candidatePaths,
+  parseStackTrace,
+  type GitHubService,
+} from "@devops-guardian/shared";
+
+// Serves files from a map and counts content lookups
+function fakeGitHub(files: Record<string, string>, root = ["src", "package.json"]) {
+  const lookups: string[] = [];
+  const github = {
+    getRepoStructure: async () => root.map((name) => ({ name, path: name })),
+    getFileContent: async (_owner: string, _repo: string, path: string) => {
+      lookups.push(path);
+      if (!(path in files)) throw Object.assign(new Error("Not Found"), { status: 404 });
+      return files[path];
+    },
+  } as unknown as GitHubService;
+  return { github, lookups };
+}
+
+test("parses JS, Python, Go and Java frames and drops vendor frames", () => {
+  const frames = parseStackTrace(
+    [
+      "TypeError: Cannot read properties of undefined (reading 'port')",
+      "    at loadConfig (/usr/src/app/src/config.js:4:20)",
+      "    at Module._compile (node:internal/modules/cjs/loader:1256:14)",
+      "    at /usr/src/app/node_modules/express/lib/router.js:10:3",
+      '  File "/app/api/views.py", line 12, in index',
+      '  File "/app/api/db.py", line 40, in query',
+      "/go/src/app/handlers/user.go:42 +0x1d",
+      "\tat com.acme.orders.OrderService.place(OrderService.java:87)",
+      "\tat java.base/java.lang.Thread.run(Thread.java:833)",
+    ].join("\n"),
+  );
+
+  assert.deepEqual(
+    frames.map((f) => [f.language, f.file, f.line]),
+    [
+      ["javascript", "/usr/src/app/src/config.js", 4],
+      ["go", "/go/src/app/handlers/user.go", 42],
+      ["java", "com/acme/orders/OrderService.java", 87],
+      // Innermost Python frame first
+      ["python", "/app/api/db.py", 40],
+      ["python", "/app/api/views.py", 12],
+    ],
+  );
+  assert.equal(frames[0].function, "loadConfig");
+  assert.equal(frames[0].column, 20);
+});
+
+test("returns no frames for text without a stack trace", () => {
+  assert.deepEqual(parseStackTrace("npm ERR! Test failed. See above for more details."), []);
+});
+
+test("candidate paths start at a repository root entry", () => {
+  const root = new Set(["src", "api"]);
+
+  assert.deepEqual(
+    candidatePaths({ language: "javascript", file: "/usr/src/app/src/config.js", line: 4 }, root),
+    ["src/app/src/config.js", "src/config.js", "config.js"],
+  );
+  assert.deepEqual(
+    candidatePaths({ language: "java", file: "com/acme/OrderService.java", line: 1 }, root),
+    [
+      "src/main/java/com/acme/OrderService.java",
+      "src/main/kotlin/com/acme/OrderService.java",
+      "src/com/acme/OrderService.java",
+      "OrderService.java",
+    ],
+  );
+  assert.deepEqual(
+    candidatePaths({ language: "python", file: "C:\\work\\api\\views.py", line: 1 }, root),
+    ["api/views.py", "views.py"],
+  );
+});
+
+test("builds code windows around resolved frames", async () => {
+  const { github } = fakeGitHub({
+    "src/config.js":
+      "const env = process.env;\n\nmodule.exports = {\n  port: env.server.port,\n};\n",
+  });
+
+  const { frames, context } = await buildCodeContext({
+    github,
+    owner: "acme",
+    repo: "shop-api",
+    text: "at loadConfig (/usr/src/app/src/config.js:4:20)",
+    windowLines: 1,
+  });
+
+  assert.deepEqual(
+    frames.map((f) => f.path),
+    ["src/config.js"],
+  );
+  assert.equal(
+    context,
+    "--- src/config.js:4 (in loadConfig) ---\n   3 | module.exports = {\n>> 4 |   port: env.server.port,\n   5 | };",
+  );
+});
+
+test("stops fetching files once the lookup budget is spent", async () => {
+  const { github, lookups } = fakeGitHub({ "src/app.js": "a\nb\nc\n" });
+  const trace = Array.from({ length: 30 }, (_, i) => `at f${i} (/srv/src/missing${i}.js:1:1)`);
+
+  const { frames } = await buildCodeContext({
+    github,
+    owner: "acme",
+    repo: "shop-api",
+    text: [...trace, "at main (/srv/src/app.js:2:1)"].join("\n"),
+    maxLookups: 10,
+  });
+
+  assert.equal(lookups.length, 10);
+  assert.deepEqual(frames, []);
+});
@@ -0,0 +1,120 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  generateStructured,
+  parseStructured,
+  PatchOutputSchema,
+  StructuredOutputError,
+  toJsonSchema,
+  TriageOutputSchema,
+} from "@devops-guardian/shared";
+
+const TRIAGE = { isIncident: true, rootCause: "Pool exhausted", severity: "CRITICAL" };
+
+test("parses bare JSON, fenced JSON and JSON wrapped in prose", () => {
+  for (const response of [
+    JSON.stringify(TRIAGE),
+    "```json\n" + JSON.stringify(TRIAGE) + "\n```",
+    "Here is the triage:\n" + JSON.stringify(TRIAGE) + "\nLet me know if you need more.",
+  ]) {
+    assert.deepEqual(parseStructured(TriageOutputSchema, response), {
+      success: true,
+      data: TRIAGE,
+    });
+  }
+});
+
+test("keeps code fences inside JSON strings", () => {
+  const patch = {
+    fileUpdates: [
+      {
+        path: "README.md",
+        edits: [{ search: "```sh\nnpm i\n```", replace: "```sh\nnpm ci\n```" }],
+      },
+    ],
+    explanation: "Use `npm ci`:\n```sh\nnpm ci\n```",
+  };
+
+  const parsed = parseStructured(PatchOutputSchema, JSON.stringify(patch));
+  assert.deepEqual(parsed, { success: true, data: patch });
+});
+
+test("reports missing JSON, invalid JSON and schema violations", () => {
+  assert.deepEqual(parseStructured(TriageOutputSchema, "I could not determine the cause."), {
+    success: false,
+    issues: ["response contains no JSON object"],
+  });
+
+  const invalid = parseStructured(TriageOutputSchema, '{"isIncident": true,}');
+  assert.equal(invalid.success, false);
+  assert.match(!invalid.success ? invalid.issues[0] : "", /^invalid JSON/);
+
+  assert.deepEqual(
+    parseStructured(TriageOutputSchema, JSON.stringify({ ...TRIAGE, severity: "HIGH" })),
+    {
+      success: false,
+      issues: [
+        "severity: Invalid enum value. Expected 'INFO' | 'WARNING' | 'CRITICAL', received 'HIGH'",
+      ],
+    },
+  );
+  assert.deepEqual(
+    parseStructured(PatchOutputSchema, '{"fileUpdates": [{"path": "a.js"}], "explanation": "x"}'),
+    {
+      success: false,
+      issues: ["fileUpdates.0: each file update needs edits, diff or content"],
+    },
+  );
+});
+
+test("repairs an invalid response with the issues listed", async () => {
+  const prompts: string[] = [];
+  const responses = [JSON.stringify({ ...TRIAGE, severity: "HIGH" }), JSON.stringify(TRIAGE)];
+
+  const result = await generateStructured({
+    label: "Triage",
+    schema: TriageOutputSchema,
+    prompt: "Triage this log",
+    call: async (prompt) => {
+      prompts.push(prompt);
+      return responses[prompts.length - 1];
+    },
+  });
+
+  assert.deepEqual(result, TRIAGE);
+  assert.equal(prompts.length, 2);
+  assert.match(prompts[1], /^Triage this log/);
+  assert.match(prompts[1], /YOUR PREVIOUS RESPONSE WAS INVALID/);
+  assert.match(prompts[1], /- severity: Invalid enum value/);
+});
+
+test("gives up after the repair attempts", async () => {
+  let calls = 0;
+  await assert.rejects(
+    generateStructured({
+      label: "Triage",
+      schema: TriageOutputSchema,
+      prompt: "Triage this log",
+      call: async () => {
+        calls++;
+        return "not json";
+      },
+      maxRepairs: 2,
+    }),
+    (error: unknown) =>
+      error instanceof StructuredOutputError &&
+      error.response === "not json" &&
+      error.issues[0] === "response contains no JSON object",
+  );
+  assert.equal(calls, 3);
+});
+
+test("sends the schema with descriptions and required fields", () => {
+  const schema = toJsonSchema(TriageOutputSchema);
+  assert.deepEqual(schema.required, ["isIncident", "rootCause", "severity"]);
+  assert.deepEqual(schema.properties.severity, {
+    type: "string",
+    enum: ["INFO", "WARNING", "CRITICAL"],
+  });
+  assert.match(schema.properties.isIncident.description, /real incident/);
+});
@@ -0,0 +1,105 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { strToU8, zipSync } from "fflate";
+import {
+  extractFailingSection,
+  findStepLog,
+  formatWorkflowFailure,
+  stepLogTail,
+  unzipWorkflowLogs,
+} from "@devops-guardian/shared";
+
+const JOB_LOG = [
+  "\uFEFF2026-10-19T09:00:00.0000000Z ##[group]Run actions/checkout@v4",
+  "2026-10-19T09:00:01.0000000Z Checked out acme/shop-api",
+  "2026-10-19T09:00:02.0000000Z ##[group]Run npm test",
+  "2026-10-19T09:00:03.0000000Z > jest",
+  "2026-10-19T09:00:04.0000000Z TypeError: Cannot read properties of undefined (reading 'port')",
+  "2026-10-19T09:00:05.0000000Z ##[error]Process completed with exit code 1.",
+  "2026-10-19T09:00:06.0000000Z Post job cleanup.",
+].join("\r\n");
+
+test("unzips the run log archive and finds step logs by job and number", () => {
+  const archive = zipSync({
+    "build/": new Uint8Array(),
+    "build/1_Set up job.txt": strToU8("setup"),
+    "build/3_Run tests.txt": strToU8("tests failed"),
+    "lint: node 20/3_Run lint.txt": strToU8("lint failed"),
+  });
+  const files = unzipWorkflowLogs(archive);
+
+  assert.deepEqual([...files.keys()].sort(), [
+    "build/1_Set up job.txt",
+    "build/3_Run tests.txt",
+    "lint: node 20/3_Run lint.txt",
+  ]);
+  assert.equal(findStepLog(files, "build", 3), "tests failed");
+  assert.equal(findStepLog(files, "build", 2), undefined);
+  assert.equal(findStepLog(files, "deploy", 3), undefined);
+});
+
+test("drops characters GitHub strips from job folder names", () => {
+  const files = new Map([["lint node 20/3_Run lint.txt", "lint failed"]]);
+  assert.equal(findStepLog(files, "lint: node 20", 3), "lint failed");
+});
+
+test("extracts the failing step from a job log, timestamps stripped", () => {
+  assert.equal(
+    extractFailingSection(JOB_LOG),
+    [
+      "##[group]Run npm test",
+      "> jest",
+      "TypeError: Cannot read properties of undefined (reading 'port')",
+      "##[error]Process completed with exit code 1.",
+      "Post job cleanup.",
+    ].join("\n"),
+  );
+});
+
+test("falls back to the log tail when no error line is found", () => {
+  const log = "2026-10-19T09:00:00Z one\n2026-10-19T09:00:01Z two\n2026-10-19T09:00:02Z three";
+  assert.equal(extractFailingSection(log, 2), "two\nthree");
+  assert.equal(stepLogTail(log, 1), "three");
+});
+
+test("formats failed steps and annotations", () => {
+  const text = formatWorkflowFailure({
+    runId: 7,
+    jobs: [
+      {
+        id: 1,
+        name: "build",
+        failedSteps: [
+          { name: "Run tests", number: 3, logTail: "TypeError" },
+          { name: "Upload", logTail: "" },
+        ],
+        annotations: [
+          {
+            level: "failure",
+            message: "Expected 1",
+            title: "Test",
+            path: "src/a.js",
+            startLine: 4,
+          },
+          { level: "warning", message: "Node 16 is deprecated" },
+        ],
+      },
+    ],
+  });
+
+  assert.equal(
+    text,
+    [
+      "## Job: build",
+      "### Step: Run tests",
+      "TypeError",
+      "",
+      "### Step: Upload",
+      "(no output)",
+      "",
+      "Annotations:",
+      "- [failure] src/a.js:4 Test: Expected 1",
+      "- [warning] Node 16 is deprecated",
+    ].join("\n"),
+  );
+});
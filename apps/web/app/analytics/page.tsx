@@ -16,7 +16,7 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
-import { API_URL } from "@/lib/config";
+import { apiFetch } from "@/lib/api";
 import { ArrowLeft, Activity, TrendingDown, CheckCircle } from "lucide-react";
 import Link from "next/link";
 
@@ -24,24 +24,28 @@ export default function AnalyticsPage() {
   const [summary, setSummary] = useState<any>(null);
   const [severity, setSeverity] = useState<any[]>([]);
   const [agentPerf, setAgentPerf] = useState<any>({});
+  const [llmUsage, setLlmUsage] = useState<any>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const [summaryRes, severityRes, agentRes] = await Promise.all([
-          fetch(`${API_URL}/api/analytics/summary`),
-          fetch(`${API_URL}/api/analytics/severity-distribution`),
-          fetch(`${API_URL}/api/analytics/agent-performance`),
+        const [summaryRes, severityRes, agentRes, llmRes] = await Promise.all([
+          apiFetch(`/api/analytics/summary`),
+          apiFetch(`/api/analytics/severity-distribution`),
+          apiFetch(`/api/analytics/agent-performance`),
+          apiFetch(`/api/analytics/llm-usage?days=30`),
         ]);
 
         const summaryData = await summaryRes.json();
         const severityData = await severityRes.json();
         const agentData = await agentRes.json();
+        const llmData = await llmRes.json();
 
         setSummary(summaryData);
         setSeverity(severityData.distribution || []);
         setAgentPerf(agentData.performance || {});
+        setLlmUsage(llmData.totals ? llmData : null);
       } catch (error) {
         console.error("Failed to fetch analytics:", error);
       } finally {
@@ -202,6 +206,81 @@ export default function AnalyticsPage() {
         </div>
       </div>
 
+      {/* LLM Cost (last 30 days) */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+        <div className="p-6 rounded-2xl border border-zinc-800 bg-zinc-900/30">
+          <h2 className="text-xl font-semibold mb-1 flex items-center gap-2">
+            <span className="text-2xl">💸</span>
+            LLM Cost by Agent
+          </h2>
+          <p className="text-xs text-zinc-500 mb-4">
+            Last 30 days: {formatUsd(llmUsage?.totals?.costUsd || 0)} over{" "}
+            {llmUsage?.totals?.calls || 0} calls ({llmUsage?.totals?.cacheHits || 0} cache hits, avg{" "}
+            {llmUsage?.totals?.avgLatencyMs || 0}ms). Estimated from list prices.
+          </p>
+          {llmUsage?.byAgent?.length > 0 ? (
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={llmUsage.byAgent}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+                <XAxis dataKey="agent" stroke="#71717a" tick={{ fontSize: 12 }} />
+                <YAxis stroke="#71717a" />
+                <Tooltip
+                  contentStyle={{
+                    background: "#18181b",
+                    border: "1px solid #27272a",
+                    borderRadius: "8px",
+                  }}
+                  labelStyle={{ color: "#fff" }}
+                  formatter={(value: any) => formatUsd(Number(value))}
+                />
+                <Bar dataKey="costUsd" fill="#a855f7" name="Cost" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-[220px] flex items-center justify-center text-zinc-500">
+              No model calls recorded
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 rounded-2xl border border-zinc-800 bg-zinc-900/30">
+          <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+            <span className="text-2xl">🧾</span>
+            Monthly Budgets
+          </h2>
+          {llmUsage?.byProject?.length > 0 ? (
+            <div className="space-y-4">
+              {llmUsage.byProject.map((p: any) => {
+                const ratio = p.budgetUsd ? Math.min(p.monthToDateUsd / p.budgetUsd, 1) : 0;
+                return (
+                  <div key={p.projectId || "none"}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-zinc-300">{p.name}</span>
+                      <span className="text-zinc-500">
+                        {formatUsd(p.monthToDateUsd)}
+                        {p.budgetUsd !== null ? ` / ${formatUsd(p.budgetUsd)}` : " (no budget)"}
+                      </span>
+                    </div>
+                    {p.budgetUsd !== null && (
+                      <div className="h-2 rounded-full bg-zinc-800 overflow-hidden">
+                        <div
+                          className={`h-full ${ratio >= 1 ? "bg-red-500" : ratio >= 0.8 ? "bg-yellow-500" : "bg-green-500"}`}
+                          style={{ width: `${ratio * 100}%` }}
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="h-[220px] flex items-center justify-center text-zinc-500">
+              No project spend yet
+            </div>
+          )}
+        </div>
+      </div>
+
       {/* Insights */}
       <div className="mt-8 p-6 rounded-2xl border border-zinc-800 bg-gradient-to-br from-blue-500/10 to-purple-500/10">
         <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -234,6 +313,10 @@ export default function AnalyticsPage() {
   );
 }
 
+function formatUsd(value: number) {
+  return `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+}
+
 function SummaryCard({
   title,
   value,
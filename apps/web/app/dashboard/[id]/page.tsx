@@ -11,7 +11,7 @@ import { toast } from "sonner";
 import { MonitoringSetupGuide } from "@/components/MonitoringSetupGuide";
 import { LiveLogStream } from "@/components/monitoring/LiveLogStream";
 import { IncidentFeed } from "@/components/monitoring/IncidentFeed";
-import { API_URL } from "@/lib/config";
+import { apiFetch } from "@/lib/api";
 import { useIncidentStore } from "@/lib/store";
 import { ReportIncidentDialog } from "@/components/ReportIncidentDialog";
 
@@ -84,20 +84,20 @@ export default function ProjectDetailPage() {
   useEffect(() => {
     const fetchProject = async () => {
       try {
-        const token = localStorage.getItem("github_token");
-        const headers: any = {};
-        if (token) headers["Authorization"] = `Bearer ${token}`;
-
         // Get project by name (or ID if we could, but UI uses name in URL)
         // Since we don't have a direct name-to-id mapping without fetching all,
         // we'll keep the "find" logic but use the project detail API for the specific id once found.
-        const res = await fetch(`${API_URL}/api/projects`, { headers });
+        const res = await apiFetch(`/api/projects`);
+        if (res.status === 401) {
+          router.push("/onboarding");
+          return;
+        }
         const data = await res.json();
         const found = data.projects.find((p: any) => p.name === decodeURIComponent(projectName));
 
         if (found) {
           // Re-fetch specific project details to get full object (including slackConfigured)
-          const detailRes = await fetch(`${API_URL}/api/projects/${found.id}`);
+          const detailRes = await apiFetch(`/api/projects/${found.id}`);
           const detailData = await detailRes.json();
           setProject(detailData.project || null);
         } else {
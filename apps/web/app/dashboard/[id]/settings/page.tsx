@@ -8,6 +8,15 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
 import { Trash2, Copy } from "lucide-react";
+import { SandboxSettings } from "@/components/SandboxSettings";
+import { VerificationRecipeSettings } from "@/components/VerificationRecipeSettings";
+import { TeamSettings } from "@/components/TeamSettings";
+import { ApprovalPolicySettings } from "@/components/ApprovalPolicySettings";
+import { RemediationPolicySettings } from "@/components/RemediationPolicySettings";
+import { PatchGuardSettings } from "@/components/PatchGuardSettings";
+import { LLMSettings } from "@/components/LLMSettings";
+import { WebhookSecurity } from "@/components/WebhookSecurity";
+import { apiFetch } from "@/lib/api";
 
 export default function ProjectSettingsPage() {
   const params = useParams();
@@ -18,7 +27,7 @@ export default function ProjectSettingsPage() {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    fetch("http://localhost:3001/api/projects")
+    apiFetch("/api/projects")
       .then((res) => res.json())
       .then((data) => {
         const found = data.projects.find((p: any) => p.name === projectName);
@@ -147,6 +156,38 @@ export default function ProjectSettingsPage() {
             </CardContent>
           </Card>
 
+          {/* CI webhook signing */}
+          <WebhookSecurity projectId={project.id} role={project.role} />
+
+          {/* Verification Sandbox */}
+          <SandboxSettings projectId={project.id} sandboxProvider={project.sandboxProvider} />
+          <VerificationRecipeSettings
+            projectId={project.id}
+            verificationConfig={project.verificationConfig}
+          />
+
+          {/* Model backend for RCA, patches and triage */}
+          <LLMSettings
+            projectId={project.id}
+            llmConfig={project.llmConfig}
+            llmBudgetUsd={project.llmBudgetUsd}
+          />
+
+          {/* Auto-PR / approval / RCA only / ignore, per incident */}
+          <RemediationPolicySettings
+            projectId={project.id}
+            remediationPolicy={project.remediationPolicy}
+          />
+
+          {/* What a generated patch may touch without approval */}
+          <PatchGuardSettings projectId={project.id} patchGuard={project.patchGuard} />
+
+          {/* Who approves production fixes */}
+          <ApprovalPolicySettings projectId={project.id} approvalPolicy={project.approvalPolicy} />
+
+          {/* Organization members and roles */}
+          {project.orgId && <TeamSettings orgId={project.orgId} role={project.role} />}
+
           {/* Danger Zone */}
           <Card className="bg-red-950/10 border-red-900/30">
             <CardHeader>
@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import { Plus, AlertTriangle } from "lucide-react";
+import { Plus, AlertTriangle, LogOut } from "lucide-react";
 import {
   Card,
   CardContent,
@@ -14,7 +14,8 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { API_URL } from "@/lib/config";
+import { apiFetch } from "@/lib/api";
+import { socketService } from "@/lib/socket";
 
 // Mock Data removed, using API
 interface Project {
@@ -32,22 +33,14 @@ export default function DashboardPage() {
   // ...
 
   useEffect(() => {
-    // 1. Check for Token in URL (from Auth Redirect)
-    const params = new URLSearchParams(window.location.search);
-    const tokenFromUrl = params.get("token");
-    if (tokenFromUrl) {
-      localStorage.setItem("github_token", tokenFromUrl);
-      window.history.replaceState({}, document.title, window.location.pathname); // Clean URL
-    }
-
     const fetchProjects = async () => {
       try {
-        const token = localStorage.getItem("github_token");
-        const headers: any = {};
-        if (token) headers["Authorization"] = `Bearer ${token}`;
-
-        const res = await fetch(`${API_URL}/api/projects`, { headers });
-        // Handle 401 - maybe prompt login?
+        const res = await apiFetch(`/api/projects`);
+        // Not signed in: start the GitHub login
+        if (res.status === 401) {
+          router.push("/onboarding");
+          return;
+        }
 
         const data = await res.json();
         if (data.projects) {
@@ -63,18 +56,33 @@ export default function DashboardPage() {
     fetchProjects();
   }, []);
 
+  const signOut = async () => {
+    await apiFetch(`/api/auth/logout`, { method: "POST" }).catch(() => undefined);
+    socketService.disconnect();
+    router.push("/onboarding");
+  };
+
   return (
     <div className="min-h-screen bg-black text-white p-8 font-sans">
       <div className="max-w-7xl mx-auto">
         {/* Header */}
         <header className="flex justify-between items-center mb-10">
           <h1 className="text-3xl font-bold tracking-tight text-white">Projects</h1>
-          <Button
-            onClick={() => router.push("/onboarding?step=2")}
-            className="bg-purple-600 hover:bg-purple-700 text-white font-medium px-4 py-2 rounded-md flex items-center gap-2"
-          >
-            <Plus className="w-4 h-4" /> New
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={() => router.push("/onboarding?step=2")}
+              className="bg-purple-600 hover:bg-purple-700 text-white font-medium px-4 py-2 rounded-md flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" /> New
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={signOut}
+              className="text-zinc-400 hover:text-white flex items-center gap-2"
+            >
+              <LogOut className="w-4 h-4" /> Sign out
+            </Button>
+          </div>
         </header>
 
         {/* Filters / Views (Visual only for now) */}
@@ -12,6 +12,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
 import { API_URL } from "@/lib/config";
+import { apiFetch } from "@/lib/api";
 import { CheckCircle2, AlertTriangle, ArrowRight } from "lucide-react";
 
 function OnboardingContent() {
@@ -22,36 +23,30 @@ function OnboardingContent() {
   const [form, setForm] = useState({
     name: "",
     githubRepo: "",
-    githubToken: "",
   });
+  // Personal Access Token alternative to OAuth; exchanged for a session, never stored
+  const [pat, setPat] = useState("");
 
   const [repos, setRepos] = useState<any[]>([]);
   const [analysisResult, setAnalysisResult] = useState<any>(null);
 
-  // Load token and step from URL or localStorage
+  // Load step from URL; skip "Connect" if there's already a session
   useEffect(() => {
     const urlStep = searchParams.get("step");
     if (urlStep) setStep(parseInt(urlStep));
 
-    const token =
-      searchParams.get("token") || localStorage.getItem("github_token") || form.githubToken;
-    if (token) {
-      setForm((prev) => ({ ...prev, githubToken: token }));
-      localStorage.setItem("github_token", token);
-      fetchRepos(token);
-
-      // If we have a token and we are on step 1, move to step 2 automatically
-      if (step === 1 && !urlStep) setStep(2);
-    }
+    apiFetch(`/api/auth/me`)
+      .then((res) => {
+        if (!res.ok) return;
+        fetchRepos();
+        if (!urlStep) setStep((current) => (current === 1 ? 2 : current));
+      })
+      .catch((e) => console.error("Failed to check session", e));
   }, [searchParams]);
 
-  const fetchRepos = async (token: string) => {
+  const fetchRepos = async () => {
     try {
-      const res = await fetch(`${API_URL}/api/onboarding/repos`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ githubToken: token }),
-      });
+      const res = await apiFetch(`/api/onboarding/repos`, { method: "POST" });
       const data = await res.json();
       if (data.repos) setRepos(data.repos);
     } catch (e) {
@@ -63,12 +58,32 @@ function OnboardingContent() {
     window.location.href = `${API_URL}/api/auth/github?redirect=/onboarding`;
   };
 
+  const handleTokenSignIn = async () => {
+    try {
+      const res = await apiFetch(`/api/auth/token`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ githubToken: pat }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error("Sign-in failed: " + (data.error || "Invalid token"));
+        return;
+      }
+      setPat("");
+      setStep(2);
+      fetchRepos();
+    } catch (err: any) {
+      toast.error("Sign-in failed: " + err.message);
+    }
+  };
+
   const handleAnalysis = async (e: React.FormEvent) => {
     e.preventDefault();
     setStep(3); // Show "Analyzing..." UI
 
     try {
-      const res = await fetch(`${API_URL}/api/onboarding/analyze`, {
+      const res = await apiFetch(`/api/onboarding/analyze`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(form),
@@ -116,7 +131,7 @@ function OnboardingContent() {
         }, {});
 
     try {
-      const res = await fetch(`${API_URL}/api/onboarding/pipeline`, {
+      const res = await apiFetch(`/api/onboarding/pipeline`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -141,7 +156,7 @@ function OnboardingContent() {
 
   const connectProject = async () => {
     try {
-      const res = await fetch(`${API_URL}/api/onboarding/connect`, {
+      const res = await apiFetch(`/api/onboarding/connect`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(form),
@@ -211,8 +226,7 @@ function OnboardingContent() {
                 <form
                   onSubmit={(e) => {
                     e.preventDefault();
-                    setStep(2);
-                    fetchRepos(form.githubToken);
+                    handleTokenSignIn();
                   }}
                   className="space-y-4"
                 >
@@ -221,12 +235,12 @@ function OnboardingContent() {
                     required
                     className="w-full bg-zinc-900 border border-zinc-800 rounded-md px-3 py-2.5 focus:outline-none focus:ring-1 focus:ring-white transition-all text-sm text-zinc-300 placeholder:text-zinc-600"
                     placeholder="Personal Access Token (ghp_...)"
-                    value={form.githubToken}
-                    onChange={(e) => setForm({ ...form, githubToken: e.target.value })}
+                    value={pat}
+                    onChange={(e) => setPat(e.target.value)}
                   />
                   <button
                     type="submit"
-                    disabled={!form.githubToken}
+                    disabled={!pat}
                     className="w-full bg-zinc-800 hover:bg-zinc-700 text-white font-medium py-2.5 rounded-md transition-all text-sm disabled:opacity-50"
                   >
                     Continue with Token
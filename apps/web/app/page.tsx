@@ -18,7 +18,7 @@ import {
   AreaChart,
   Area,
 } from "recharts";
-import { API_URL } from "@/lib/config";
+import { apiFetch } from "@/lib/api";
 import { Server, TrendingUp, Zap, RefreshCw, Clock, CheckCircle2, AlertCircle } from "lucide-react";
 import Link from "next/link";
 
@@ -36,12 +36,12 @@ export default function Dashboard() {
       try {
         const [summaryRes, severityRes, agentRes, trendRes, healingRes, activityRes] =
           await Promise.all([
-            fetch(`${API_URL}/api/analytics/summary`),
-            fetch(`${API_URL}/api/analytics/severity-distribution`),
-            fetch(`${API_URL}/api/analytics/agent-performance`),
-            fetch(`${API_URL}/api/analytics/incident-trend?days=7`),
-            fetch(`${API_URL}/api/analytics/self-healing-stats`),
-            fetch(`${API_URL}/api/analytics/recent-activity?limit=6`),
+            apiFetch(`/api/analytics/summary`),
+            apiFetch(`/api/analytics/severity-distribution`),
+            apiFetch(`/api/analytics/agent-performance`),
+            apiFetch(`/api/analytics/incident-trend?days=7`),
+            apiFetch(`/api/analytics/self-healing-stats`),
+            apiFetch(`/api/analytics/recent-activity?limit=6`),
           ]);
 
         const summaryData = await summaryRes.json();
@@ -403,6 +403,9 @@ function ActivityItem({ activity }: { activity: any }) {
     RESOLVED: "text-green-400",
     OPEN: "text-yellow-400",
     CLOSED: "text-zinc-400",
+    FAILED: "text-red-400",
+    REJECTED: "text-zinc-400",
+    WONT_FIX: "text-zinc-400",
   };
 
   return (
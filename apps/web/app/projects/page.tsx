@@ -11,9 +11,10 @@ import {
   Terminal,
   ArrowRight,
 } from "lucide-react";
-import { API_URL } from "@/lib/config";
+import { apiFetch } from "@/lib/api";
 
 import { IncidentTerminal } from "@/components/monitoring/IncidentTerminal";
+import { ApprovalPanel } from "@/components/monitoring/ApprovalPanel";
 
 type Incident = {
   id: string;
@@ -27,6 +28,7 @@ type Incident = {
   prUrl?: string;
   metadata?: any;
   agentRuns?: any[];
+  approvals?: any[];
 };
 
 export default function Dashboard() {
@@ -36,13 +38,14 @@ export default function Dashboard() {
   const [analytics, setAnalytics] = useState({
     totalIncidents: 0,
     resolvedIncidents: 0,
+    rejectedIncidents: 0,
     avgMTTR: 0,
     successRate: 0,
   });
 
   const fetchIncidents = async () => {
     try {
-      const res = await fetch(`${API_URL}/incidents`);
+      const res = await apiFetch(`/incidents`);
       const data = await res.json();
       setIncidents(data.incidents || []);
 
@@ -60,11 +63,12 @@ export default function Dashboard() {
 
   const fetchAnalytics = async () => {
     try {
-      const res = await fetch(`${API_URL}/api/analytics/summary`);
+      const res = await apiFetch(`/api/analytics/summary`);
       const data = await res.json();
       setAnalytics({
         totalIncidents: data.totalIncidents || 0,
         resolvedIncidents: data.resolvedIncidents || 0,
+        rejectedIncidents: data.rejectedIncidents || 0,
         avgMTTR: data.avgMTTR || 0,
         successRate: data.successRate || 0,
       });
@@ -157,6 +161,10 @@ export default function Dashboard() {
                 label="Resolved"
                 value={`${analytics.resolvedIncidents}/${analytics.totalIncidents}`}
               />
+              <StatRow
+                label="Rejected / Won't Fix"
+                value={analytics.rejectedIncidents.toString()}
+              />
               <StatRow
                 label="Mean Time to Resolve"
                 value={analytics.avgMTTR > 0 ? `${analytics.avgMTTR}s` : "N/A"}
@@ -196,10 +204,18 @@ export default function Dashboard() {
                 )}
               </div>
 
+              {selectedIncident.status === "AWAITING_APPROVAL" && (
+                <ApprovalPanel
+                  incidentId={selectedIncident.id}
+                  metadata={selectedIncident.metadata}
+                />
+              )}
+
               <IncidentTerminal
                 incidentId={selectedIncident.id}
                 projectId={(selectedIncident.metadata as any)?.projectId || ""}
                 agentRuns={selectedIncident.agentRuns || []}
+                approvals={selectedIncident.approvals || []}
                 status={selectedIncident.status}
               />
             </div>
@@ -0,0 +1,192 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { apiFetch } from "@/lib/api";
+
+interface ApprovalPolicySettingsProps {
+  projectId: string;
+  approvalPolicy?: {
+    requiredApprovals?: Record<string, number>;
+    allowedApprovers?: string[];
+    escalation?: Record<string, Partial<Record<EscalationField, number>>>;
+    onCallChannelId?: string;
+  } | null;
+}
+
+const SEVERITIES = ["CRITICAL", "WARNING", "INFO"];
+
+type EscalationField = "remindAfterMinutes" | "escalateAfterMinutes" | "expireAfterMinutes";
+
+const ESCALATION_FIELDS: { key: EscalationField; label: string }[] = [
+  { key: "remindAfterMinutes", label: "Re-ping after" },
+  { key: "escalateAfterMinutes", label: "Escalate after" },
+  { key: "expireAfterMinutes", label: "Auto-reject after" },
+];
+
+export function ApprovalPolicySettings({ projectId, approvalPolicy }: ApprovalPolicySettingsProps) {
+  const [required, setRequired] = useState<Record<string, string>>(
+    Object.fromEntries(
+      SEVERITIES.map((s) => [s, String(approvalPolicy?.requiredApprovals?.[s] ?? 1)]),
+    ),
+  );
+  const [approvers, setApprovers] = useState((approvalPolicy?.allowedApprovers || []).join(", "));
+  // Minutes as typed, per severity; empty means "never"
+  const [escalation, setEscalation] = useState<Record<string, Record<string, string>>>(
+    Object.fromEntries(
+      SEVERITIES.map((s) => [
+        s,
+        Object.fromEntries(
+          ESCALATION_FIELDS.map(({ key }) => [
+            key,
+            String(approvalPolicy?.escalation?.[s]?.[key] ?? ""),
+          ]),
+        ),
+      ]),
+    ),
+  );
+  const [onCallChannelId, setOnCallChannelId] = useState(approvalPolicy?.onCallChannelId || "");
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await apiFetch(`/api/projects/${projectId}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          approvalPolicy: {
+            requiredApprovals: Object.fromEntries(
+              SEVERITIES.map((s) => [s, Number(required[s]) || 1]),
+            ),
+            allowedApprovers: approvers
+              .split(",")
+              .map((a) => a.trim())
+              .filter(Boolean),
+            escalation: Object.fromEntries(
+              SEVERITIES.map((s) => [
+                s,
+                Object.fromEntries(
+                  ESCALATION_FIELDS.filter(({ key }) => Number(escalation[s][key]) > 0).map(
+                    ({ key }) => [key, Number(escalation[s][key])],
+                  ),
+                ),
+              ]),
+            ),
+            onCallChannelId: onCallChannelId.trim() || undefined,
+          },
+        }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success("Approval policy updated");
+      } else {
+        toast.error(data.error || "Failed to save approval policy");
+      }
+    } catch (e) {
+      console.error(e);
+      toast.error("Network error. Is the backend running?");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-zinc-950 border-zinc-800">
+      <CardHeader>
+        <CardTitle className="text-white">Approval Policy</CardTitle>
+        <p className="text-zinc-500 text-sm">
+          How many distinct approvers a production fix needs before Guardian opens the PR. One
+          rejection is enough to stop it.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          {SEVERITIES.map((severity) => (
+            <div key={severity} className="grid gap-2">
+              <Label className="text-zinc-400">{severity}</Label>
+              <Input
+                type="number"
+                min={1}
+                max={10}
+                value={required[severity]}
+                onChange={(e) => setRequired({ ...required, [severity]: e.target.value })}
+                className="bg-zinc-900 border-zinc-800 text-zinc-300"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="grid gap-2">
+          <Label className="text-zinc-400">Allowed approvers</Label>
+          <Input
+            placeholder="alice, bob, role:ADMIN"
+            value={approvers}
+            onChange={(e) => setApprovers(e.target.value)}
+            className="bg-zinc-900 border-zinc-800 text-zinc-300"
+          />
+          <p className="text-xs text-zinc-500">
+            GitHub logins or role groups (e.g. role:ADMIN). Leave empty to allow every member with
+            the Approver role.
+          </p>
+        </div>
+        <div className="grid gap-2">
+          <Label className="text-zinc-400">Approval deadlines (minutes)</Label>
+          <div className="grid grid-cols-4 gap-2 items-center text-xs text-zinc-500">
+            <span />
+            {ESCALATION_FIELDS.map(({ key, label }) => (
+              <span key={key}>{label}</span>
+            ))}
+            {SEVERITIES.map((severity) => (
+              <Fragment key={severity}>
+                <span className="text-zinc-400">{severity}</span>
+                {ESCALATION_FIELDS.map(({ key }) => (
+                  <Input
+                    key={key}
+                    type="number"
+                    min={1}
+                    placeholder="Never"
+                    value={escalation[severity][key]}
+                    onChange={(e) =>
+                      setEscalation({
+                        ...escalation,
+                        [severity]: { ...escalation[severity], [key]: e.target.value },
+                      })
+                    }
+                    className="bg-zinc-900 border-zinc-800 text-zinc-300"
+                  />
+                ))}
+              </Fragment>
+            ))}
+          </div>
+          <p className="text-xs text-zinc-500">
+            Counted from when approval was requested. Reminders mention the approvers in the Slack
+            thread; escalations go to the on-call channel below.
+          </p>
+        </div>
+        <div className="grid gap-2">
+          <Label className="text-zinc-400">On-call Slack channel ID</Label>
+          <Input
+            placeholder="C0123456789 (defaults to the project channel)"
+            value={onCallChannelId}
+            onChange={(e) => setOnCallChannelId(e.target.value)}
+            className="bg-zinc-900 border-zinc-800 text-zinc-300"
+          />
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-white text-black hover:bg-gray-200"
+        >
+          {saving ? "Saving..." : "Save"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
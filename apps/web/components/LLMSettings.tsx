@@ -0,0 +1,284 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { apiFetch } from "@/lib/api";
+
+type Selection = {
+  backend?: string;
+  baseUrl?: string;
+  models?: { fast?: string; reasoning?: string };
+};
+
+interface LLMSettingsProps {
+  projectId: string;
+  llmConfig?: (Selection & { agents?: Record<string, Selection> }) | null;
+  llmBudgetUsd?: number | null;
+}
+
+const BACKENDS = [
+  { value: "default", label: "Server default", hint: "Uses the API server's LLM_PROVIDER." },
+  { value: "gemini", label: "Google Gemini", hint: "Requires GEMINI_API_KEY on the API server." },
+  {
+    value: "openai",
+    label: "OpenAI-compatible",
+    hint: "OpenAI, Azure, vLLM, LM Studio... A custom base URL must be allowed on the server (LLM_ALLOWED_BASE_URLS) and needs its own API key below.",
+  },
+  {
+    value: "ollama",
+    label: "Self-hosted (Ollama / llama.cpp)",
+    hint: "Prompts never leave your network. llama.cpp: set the base URL to http://host:8080/v1 (must be allowed on the server).",
+  },
+];
+
+const AGENTS = [
+  { value: "rca", label: "Root cause analysis" },
+  { value: "patch", label: "Patch generation" },
+  { value: "triage", label: "Log triage (watcher)" },
+];
+
+function BackendSelect({
+  value,
+  onChange,
+  inheritLabel,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  inheritLabel?: string;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full bg-zinc-900 border-zinc-800 text-zinc-300">
+        <SelectValue placeholder="Select a backend..." />
+      </SelectTrigger>
+      <SelectContent className="bg-zinc-950 border-zinc-800 text-zinc-300">
+        {BACKENDS.map((b) => (
+          <SelectItem
+            key={b.value}
+            value={b.value}
+            className="focus:bg-zinc-900 focus:text-white cursor-pointer"
+          >
+            {b.value === "default" && inheritLabel ? inheritLabel : b.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function LLMSettings({ projectId, llmConfig, llmBudgetUsd }: LLMSettingsProps) {
+  const [backend, setBackend] = useState(llmConfig?.backend || "default");
+  const [baseUrl, setBaseUrl] = useState(llmConfig?.baseUrl || "");
+  const [fastModel, setFastModel] = useState(llmConfig?.models?.fast || "");
+  const [reasoningModel, setReasoningModel] = useState(llmConfig?.models?.reasoning || "");
+  const [apiKey, setApiKey] = useState("");
+  const [budget, setBudget] = useState(llmBudgetUsd != null ? String(llmBudgetUsd) : "");
+  // Per agent: backend ("default" = same as the project) and model
+  const [agents, setAgents] = useState(
+    Object.fromEntries(
+      AGENTS.map((a) => {
+        const override = llmConfig?.agents?.[a.value];
+        return [
+          a.value,
+          {
+            backend: override?.backend || "default",
+            model: override?.models?.reasoning || override?.models?.fast || "",
+          },
+        ];
+      }),
+    ),
+  );
+  const [saving, setSaving] = useState(false);
+
+  // Gemini and the server default have no endpoint to set
+  const showEndpoint = backend === "openai" || backend === "ollama";
+
+  const handleSave = async () => {
+    const budgetUsd = budget.trim() ? Number(budget) : null;
+    if (budgetUsd !== null && (!Number.isFinite(budgetUsd) || budgetUsd < 0)) {
+      toast.error("Budget must be a positive amount in USD");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const overrides = Object.fromEntries(
+        Object.entries(agents)
+          .filter(([, a]) => a.backend !== "default" || a.model.trim())
+          .map(([name, a]) => [
+            name,
+            {
+              backend: a.backend !== "default" ? a.backend : undefined,
+              models: a.model.trim() ? { fast: a.model.trim(), reasoning: a.model.trim() } : {},
+            },
+          ]),
+      );
+      const endpoint = showEndpoint ? baseUrl.trim() : "";
+      const configured =
+        backend !== "default" ||
+        fastModel.trim() ||
+        reasoningModel.trim() ||
+        Object.keys(overrides).length > 0;
+
+      const res = await apiFetch(`/api/projects/${projectId}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          llmConfig: configured
+            ? {
+                backend: backend !== "default" ? backend : undefined,
+                baseUrl: endpoint || undefined,
+                models: {
+                  fast: fastModel.trim() || undefined,
+                  reasoning: reasoningModel.trim() || undefined,
+                },
+                agents: overrides,
+              }
+            : null,
+          // Empty keeps the stored key
+          llmApiKey: apiKey.trim() || undefined,
+          llmBudgetUsd: budgetUsd,
+        }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success("Model settings updated");
+        setApiKey("");
+      } else {
+        toast.error(data.error || "Failed to save model settings");
+      }
+    } catch (e) {
+      console.error(e);
+      toast.error("Network error. Is the backend running?");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-zinc-950 border-zinc-800">
+      <CardHeader>
+        <CardTitle className="text-white">AI Models</CardTitle>
+        <p className="text-zinc-500 text-sm">
+          Which model analyses incidents and writes fixes for this project. Use a self-hosted model
+          for sensitive repositories.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2">
+          <BackendSelect value={backend} onChange={setBackend} />
+          <p className="text-xs text-zinc-500">{BACKENDS.find((b) => b.value === backend)?.hint}</p>
+        </div>
+
+        {showEndpoint && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label className="text-zinc-400">Base URL</Label>
+              <Input
+                placeholder={
+                  backend === "ollama" ? "http://localhost:11434/v1" : "https://api.openai.com/v1"
+                }
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                className="bg-zinc-900 border-zinc-800 text-zinc-300"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label className="text-zinc-400">API key (optional)</Label>
+              <Input
+                type="password"
+                placeholder="Leave empty to keep the current key"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                className="bg-zinc-900 border-zinc-800 text-zinc-300"
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="grid gap-2">
+            <Label className="text-zinc-400">Fast model</Label>
+            <Input
+              placeholder="Backend default"
+              value={fastModel}
+              onChange={(e) => setFastModel(e.target.value)}
+              className="bg-zinc-900 border-zinc-800 text-zinc-300"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label className="text-zinc-400">Reasoning model</Label>
+            <Input
+              placeholder="Backend default"
+              value={reasoningModel}
+              onChange={(e) => setReasoningModel(e.target.value)}
+              className="bg-zinc-900 border-zinc-800 text-zinc-300"
+            />
+          </div>
+        </div>
+
+        <div className="grid gap-2">
+          <Label className="text-zinc-400">Monthly budget (USD)</Label>
+          <Input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="No limit"
+            value={budget}
+            onChange={(e) => setBudget(e.target.value)}
+            className="bg-zinc-900 border-zinc-800 text-zinc-300"
+          />
+          <p className="text-xs text-zinc-500">
+            Once this month&apos;s estimated spend reaches the budget, new incidents are closed
+            without analysis until the next month or a higher budget.
+          </p>
+        </div>
+
+        <div className="space-y-3 border-t border-zinc-800 pt-4">
+          <h4 className="text-sm font-medium text-zinc-300">Per agent</h4>
+          {AGENTS.map((a) => (
+            <div key={a.value} className="grid grid-cols-3 gap-3 items-center">
+              <Label className="text-zinc-400 text-xs">{a.label}</Label>
+              <BackendSelect
+                value={agents[a.value].backend}
+                inheritLabel="Same as project"
+                onChange={(value) =>
+                  setAgents({ ...agents, [a.value]: { ...agents[a.value], backend: value } })
+                }
+              />
+              <Input
+                placeholder="Model"
+                value={agents[a.value].model}
+                onChange={(e) =>
+                  setAgents({ ...agents, [a.value]: { ...agents[a.value], model: e.target.value } })
+                }
+                className="bg-zinc-900 border-zinc-800 text-zinc-300"
+              />
+            </div>
+          ))}
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-white text-black hover:bg-gray-200"
+        >
+          {saving ? "Saving..." : "Save"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { SlackSettings } from "@/components/SlackSettings";
+import { apiFetch } from "@/lib/api";
 
 interface SetupGuideProps {
   projectId: string;
@@ -25,7 +26,7 @@ export function MonitoringSetupGuide({ projectId, projectName, slackConfigured }
 
   const fetchWebhookDetails = async () => {
     try {
-      const res = await fetch(`http://localhost:3001/api/v1/logs/${projectId}/token`);
+      const res = await apiFetch(`/api/v1/logs/${projectId}/token`);
       const data = await res.json();
       setWebhookUrl(data.webhookUrl);
       setToken(data.token);
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { apiFetch } from "@/lib/api";
+
+interface PatchGuardSettingsProps {
+  projectId: string;
+  patchGuard?: {
+    protectedPaths?: string[];
+    allowedPaths?: string[];
+    maxFiles?: number;
+    maxLines?: number;
+  } | null;
+}
+
+const toLines = (globs?: string[]) => (globs || []).join("\n");
+
+const fromLines = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+export function PatchGuardSettings({ projectId, patchGuard }: PatchGuardSettingsProps) {
+  const [protectedPaths, setProtectedPaths] = useState(toLines(patchGuard?.protectedPaths));
+  const [allowedPaths, setAllowedPaths] = useState(toLines(patchGuard?.allowedPaths));
+  const [maxFiles, setMaxFiles] = useState(String(patchGuard?.maxFiles ?? 10));
+  const [maxLines, setMaxLines] = useState(String(patchGuard?.maxLines ?? 300));
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await apiFetch(`/api/projects/${projectId}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          patchGuard: {
+            // Empty keeps the built-in list
+            protectedPaths: protectedPaths.trim() ? fromLines(protectedPaths) : undefined,
+            allowedPaths: fromLines(allowedPaths),
+            maxFiles: Number(maxFiles) || 10,
+            maxLines: Number(maxLines) || 300,
+          },
+        }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success("Patch guard updated");
+        setProtectedPaths(toLines(data.project?.patchGuard?.protectedPaths));
+      } else {
+        toast.error(data.error || "Failed to save patch guard");
+      }
+    } catch (e) {
+      console.error(e);
+      toast.error("Network error. Is the backend running?");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-zinc-950 border-zinc-800">
+      <CardHeader>
+        <CardTitle className="text-white">Patch Guard</CardTitle>
+        <p className="text-zinc-500 text-sm">
+          Generated patches that touch protected paths or exceed these limits are never opened as
+          PRs automatically: they wait for approval, and the PR shows why.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="grid gap-2">
+            <Label className="text-zinc-400">Protected paths (one glob per line)</Label>
+            <Textarea
+              rows={8}
+              placeholder={
+                "Empty: built-in list\n.github/**\n**/package-lock.json\n**/migrations/**\n**/.env*"
+              }
+              value={protectedPaths}
+              onChange={(e) => setProtectedPaths(e.target.value)}
+              className="bg-zinc-900 border-zinc-800 font-mono text-zinc-300"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label className="text-zinc-400">Allowed paths (optional)</Label>
+            <Textarea
+              rows={8}
+              placeholder={"src/**\nlib/**"}
+              value={allowedPaths}
+              onChange={(e) => setAllowedPaths(e.target.value)}
+              className="bg-zinc-900 border-zinc-800 font-mono text-zinc-300"
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="grid gap-2">
+            <Label className="text-zinc-400">Max files changed</Label>
+            <Input
+              type="number"
+              min={1}
+              value={maxFiles}
+              onChange={(e) => setMaxFiles(e.target.value)}
+              className="bg-zinc-900 border-zinc-800 text-zinc-300"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label className="text-zinc-400">Max lines changed</Label>
+            <Input
+              type="number"
+              min={1}
+              value={maxLines}
+              onChange={(e) => setMaxLines(e.target.value)}
+              className="bg-zinc-900 border-zinc-800 text-zinc-300"
+            />
+          </div>
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-white text-black hover:bg-gray-200"
+        >
+          {saving ? "Saving..." : "Save"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
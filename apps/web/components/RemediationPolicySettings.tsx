@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { apiFetch } from "@/lib/api";
+
+interface RemediationPolicySettingsProps {
+  projectId: string;
+  remediationPolicy?: any;
+}
+
+interface DryRunResult {
+  action: string | null;
+  rule: string | null;
+  final: boolean;
+  trace: { rule: string; matched: boolean; reason?: string }[];
+}
+
+const PLACEHOLDER = `# First matching rule wins. Conditions: sources, severities,
+# services, branches, files (globs), minPatchLines, maxPatchLines.
+# Actions: AUTO_PR | REQUIRE_APPROVAL | RCA_ONLY | IGNORE
+rules:
+  - name: CI build failures
+    sources: [GITHUB, JENKINS]
+    action: AUTO_PR
+  - name: Payments needs a human
+    services: ["payments-*"]
+    action: REQUIRE_APPROVAL
+  - name: Small docs fixes
+    files: ["docs/**", "**/*.md"]
+    maxPatchLines: 20
+    action: AUTO_PR
+  - name: Info noise
+    severities: [INFO]
+    action: IGNORE
+defaultAction: REQUIRE_APPROVAL`;
+
+export function RemediationPolicySettings({
+  projectId,
+  remediationPolicy,
+}: RemediationPolicySettingsProps) {
+  // JSON is valid YAML, so the stored policy can be edited in place
+  const [policy, setPolicy] = useState(
+    remediationPolicy ? JSON.stringify(remediationPolicy, null, 2) : "",
+  );
+  const [saving, setSaving] = useState(false);
+
+  const [sample, setSample] = useState({
+    source: "LOG_INGESTION",
+    severity: "CRITICAL",
+    service: "",
+    branch: "",
+    files: "",
+    patchLines: "",
+  });
+  const [testing, setTesting] = useState(false);
+  const [result, setResult] = useState<DryRunResult | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await apiFetch(`/api/projects/${projectId}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ remediationPolicy: policy.trim() || null }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success(policy.trim() ? "Remediation policy saved" : "Remediation policy reset");
+      } else {
+        toast.error(data.error || "Failed to save policy");
+      }
+    } catch (e) {
+      console.error(e);
+      toast.error("Network error. Is the backend running?");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Runs the sample against the policy in the editor (or the saved/default one if empty)
+  const handleDryRun = async () => {
+    setTesting(true);
+    try {
+      const files = sample.files
+        .split(",")
+        .map((f) => f.trim())
+        .filter(Boolean);
+      const res = await apiFetch(`/api/projects/${projectId}/remediation-policy/dry-run`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          policy: policy.trim() || undefined,
+          incident: {
+            source: sample.source,
+            severity: sample.severity,
+            service: sample.service || undefined,
+            branch: sample.branch || undefined,
+            files: files.length ? files : undefined,
+            patchLines: sample.patchLines ? Number(sample.patchLines) : undefined,
+          },
+        }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        setResult(data.decision);
+      } else {
+        setResult(null);
+        toast.error(data.error || "Dry run failed");
+      }
+    } catch (e) {
+      console.error(e);
+      toast.error("Network error. Is the backend running?");
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const field = (key: keyof typeof sample, label: string, placeholder?: string) => (
+    <div className="grid gap-1">
+      <Label className="text-zinc-400 text-xs">{label}</Label>
+      <Input
+        placeholder={placeholder}
+        value={sample[key]}
+        onChange={(e) => setSample({ ...sample, [key]: e.target.value })}
+        className="bg-zinc-900 border-zinc-800 text-zinc-300"
+      />
+    </div>
+  );
+
+  return (
+    <Card className="bg-zinc-950 border-zinc-800">
+      <CardHeader>
+        <CardTitle className="text-white">Remediation Policy</CardTitle>
+        <p className="text-zinc-500 text-sm">
+          Decides per incident whether Guardian opens a PR on its own, waits for approval, only
+          analyses, or ignores it. Leave empty for the default: signed CI failures are auto-fixed,
+          everything else needs approval.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Textarea
+          rows={14}
+          placeholder={PLACEHOLDER}
+          value={policy}
+          onChange={(e) => setPolicy(e.target.value)}
+          className="bg-zinc-900 border-zinc-800 font-mono text-zinc-300"
+        />
+
+        <div className="space-y-3 border-t border-zinc-800 pt-4">
+          <h4 className="text-sm font-medium text-zinc-300">Dry run</h4>
+          <div className="grid grid-cols-3 gap-3">
+            {field("source", "Source", "GITHUB, JENKINS, LOG_INGESTION...")}
+            {field("severity", "Severity", "INFO | WARNING | CRITICAL")}
+            {field("service", "Service", "payments-api")}
+            {field("branch", "Branch", "main")}
+            {field("files", "Files touched", "src/app.ts, docs/setup.md")}
+            {field("patchLines", "Patch lines", "12")}
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleDryRun}
+            disabled={testing}
+            className="border-zinc-700 text-zinc-300"
+          >
+            {testing ? "Evaluating..." : "Test Policy"}
+          </Button>
+
+          {result && (
+            <div className="rounded border border-zinc-800 bg-zinc-900/50 p-3 text-xs font-mono space-y-1">
+              <p className="text-zinc-200">
+                {result.final
+                  ? `→ ${result.action} (${result.rule ? `rule "${result.rule}"` : "default"})`
+                  : "→ Undecided until the patch exists: add files or patch lines"}
+              </p>
+              {result.trace.map((t, i) => (
+                <p key={i} className={t.matched ? "text-green-400" : "text-zinc-500"}>
+                  {t.matched ? "✓" : "✗"} {t.rule}
+                  {t.reason ? `: ${t.reason}` : ""}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-white text-black hover:bg-gray-200"
+        >
+          {saving ? "Saving..." : "Save Policy"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -15,7 +15,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 import { UploadCloud, X, Loader2 } from "lucide-react";
 import { useDropzone } from "react-dropzone";
-import { API_URL } from "@/lib/config";
+import { apiFetch } from "@/lib/api";
 
 interface ReportIncidentDialogProps {
   projectId: string;
@@ -71,7 +71,7 @@ export function ReportIncidentDialog({ projectId }: ReportIncidentDialogProps) {
         payload.metadata.images = [image]; // Send base64 image
       }
 
-      const res = await fetch(`${API_URL}/api/v1/logs/${projectId}`, {
+      const res = await apiFetch(`/api/v1/logs/${projectId}`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { apiFetch } from "@/lib/api";
+
+interface SandboxSettingsProps {
+  projectId: string;
+  sandboxProvider?: string;
+}
+
+const BACKENDS = [
+  { value: "e2b", label: "E2B (hosted)", hint: "Requires E2B_API_KEY on the API server." },
+  {
+    value: "docker",
+    label: "Docker (self-hosted)",
+    hint: "Runs each verification in a disposable container on the API host. The server must allow it (SANDBOX_HOST_BACKENDS=docker).",
+  },
+  {
+    value: "local",
+    label: "Local process",
+    hint: "Runs in a temp directory on the API host. Use on trusted runners only. The server must allow it (SANDBOX_HOST_BACKENDS=local).",
+  },
+];
+
+export function SandboxSettings({ projectId, sandboxProvider }: SandboxSettingsProps) {
+  const [backend, setBackend] = useState(sandboxProvider || "e2b");
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await apiFetch(`/api/projects/${projectId}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sandboxProvider: backend }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success("Verification sandbox updated");
+      } else {
+        toast.error(data.error || "Failed to save settings");
+      }
+    } catch (e) {
+      console.error(e);
+      toast.error("Network error. Is the backend running?");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-zinc-950 border-zinc-800">
+      <CardHeader>
+        <CardTitle className="text-white">Verification Sandbox</CardTitle>
+        <p className="text-zinc-500 text-sm">
+          Where Guardian clones the repo, applies the patch and runs your tests.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Select value={backend} onValueChange={(value: string) => setBackend(value)}>
+          <SelectTrigger className="w-full bg-zinc-900 border-zinc-800 text-zinc-300">
+            <SelectValue placeholder="Select a backend..." />
+          </SelectTrigger>
+          <SelectContent className="bg-zinc-950 border-zinc-800 text-zinc-300">
+            {BACKENDS.map((b) => (
+              <SelectItem
+                key={b.value}
+                value={b.value}
+                className="focus:bg-zinc-900 focus:text-white cursor-pointer"
+              >
+                {b.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-zinc-500">{BACKENDS.find((b) => b.value === backend)?.hint}</p>
+      </CardContent>
+      <CardFooter>
+        <Button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-white text-black hover:bg-gray-200"
+        >
+          {saving ? "Saving..." : "Save"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
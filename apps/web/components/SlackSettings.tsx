@@ -5,7 +5,7 @@ import { Card, CardHeader, CardTitle, CardContent, CardFooter } from "@/componen
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import { API_URL } from "@/lib/config";
+import { apiFetch } from "@/lib/api";
 
 interface SlackSettingsProps {
   projectId: string;
@@ -14,20 +14,21 @@ interface SlackSettingsProps {
 export function SlackSettings({ projectId }: SlackSettingsProps) {
   const [botToken, setBotToken] = useState("");
   const [channelId, setChannelId] = useState("");
+  const [signingSecret, setSigningSecret] = useState("");
   const [saving, setSaving] = useState(false);
 
   const handleSave = async () => {
-    if (!botToken || !channelId) {
+    if (!botToken || !channelId || !signingSecret) {
       toast.error("Please fill in all fields");
       return;
     }
 
     setSaving(true);
     try {
-      const res = await fetch(`${API_URL}/api/slack/config`, {
+      const res = await apiFetch(`/api/slack/config`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ projectId, botToken, channelId }),
+        body: JSON.stringify({ projectId, botToken, channelId, signingSecret }),
       });
       const data = await res.json();
 
@@ -80,6 +81,20 @@ export function SlackSettings({ projectId }: SlackSettingsProps) {
             Right-click channel name &rarr; Copy Link &rarr; Last part.
           </p>
         </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-white">Signing Secret</label>
+          <Input
+            type="password"
+            placeholder="Signing secret"
+            value={signingSecret}
+            onChange={(e) => setSigningSecret(e.target.value)}
+            className="bg-zinc-950 border-zinc-800 text-white"
+          />
+          <p className="text-xs text-zinc-500">
+            Found in "Basic Information" &rarr; App Credentials. Required for Approve/Reject
+            buttons.
+          </p>
+        </div>
       </CardContent>
       <CardFooter>
         <Button
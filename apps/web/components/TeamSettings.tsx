@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Trash2 } from "lucide-react";
+import { apiFetch } from "@/lib/api";
+
+interface TeamSettingsProps {
+  orgId: string;
+  // The signed-in user's role in the org
+  role?: string;
+}
+
+const ROLES = [
+  { value: "VIEWER", label: "Viewer" },
+  { value: "RESPONDER", label: "Responder" },
+  { value: "APPROVER", label: "Approver" },
+  { value: "ADMIN", label: "Admin" },
+];
+
+function RoleSelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className="w-36 bg-zinc-900 border-zinc-800 text-zinc-300">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-zinc-950 border-zinc-800 text-zinc-300">
+        {ROLES.map((r) => (
+          <SelectItem
+            key={r.value}
+            value={r.value}
+            className="focus:bg-zinc-900 focus:text-white cursor-pointer"
+          >
+            {r.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function TeamSettings({ orgId, role }: TeamSettingsProps) {
+  const [members, setMembers] = useState<any[]>([]);
+  const [login, setLogin] = useState("");
+  const [newRole, setNewRole] = useState("VIEWER");
+  const isAdmin = role === "ADMIN";
+
+  const load = () =>
+    apiFetch(`/api/orgs/${orgId}/members`)
+      .then((res) => res.json())
+      .then((data) => setMembers(data.members || []))
+      .catch(console.error);
+
+  useEffect(() => {
+    load();
+  }, [orgId]);
+
+  const request = async (path: string, method: string, body?: any) => {
+    try {
+      const res = await apiFetch(`/api/orgs/${orgId}/members${path}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Request failed");
+        return false;
+      }
+      await load();
+      return true;
+    } catch (e) {
+      console.error(e);
+      toast.error("Network error. Is the backend running?");
+      return false;
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!login) return;
+    if (await request("", "POST", { login, role: newRole })) {
+      toast.success(`Added ${login}`);
+      setLogin("");
+    }
+  };
+
+  return (
+    <Card className="bg-zinc-950 border-zinc-800">
+      <CardHeader>
+        <CardTitle className="text-white">Team</CardTitle>
+        <p className="text-zinc-500 text-sm">
+          Responders can re-run verification, approvers can ship fixes and admins manage
+          integrations and members. Link a Slack user ID to act from Slack.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {members.map((m) => (
+          <div key={m.userId} className="flex items-center gap-3">
+            <span className="flex-1 text-zinc-300">{m.user.login}</span>
+            <Input
+              placeholder="Slack user ID"
+              defaultValue={m.slackUserId || ""}
+              disabled={!isAdmin}
+              onBlur={(e) =>
+                e.target.value !== (m.slackUserId || "") &&
+                request(`/${m.userId}`, "PUT", { slackUserId: e.target.value })
+              }
+              className="w-40 bg-zinc-900 border-zinc-800 text-zinc-300 font-mono"
+            />
+            <RoleSelect
+              value={m.role}
+              disabled={!isAdmin}
+              onChange={(value) => request(`/${m.userId}`, "PUT", { role: value })}
+            />
+            {isAdmin && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-zinc-400 hover:text-red-500"
+                onClick={() => request(`/${m.userId}`, "DELETE")}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {isAdmin && (
+          <div className="flex items-center gap-3 pt-3 border-t border-zinc-800">
+            <Input
+              placeholder="GitHub login"
+              value={login}
+              onChange={(e) => setLogin(e.target.value)}
+              className="flex-1 bg-zinc-900 border-zinc-800 text-white"
+            />
+            <RoleSelect value={newRole} onChange={setNewRole} />
+            <Button onClick={handleAdd} className="bg-white text-black hover:bg-gray-200">
+              Add
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
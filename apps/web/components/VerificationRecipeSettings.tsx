@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { apiFetch } from "@/lib/api";
+
+interface VerificationRecipeSettingsProps {
+  projectId: string;
+  verificationConfig?: any;
+}
+
+const PLACEHOLDER = `# Same format as .guardian.yml
+workdir: packages/api
+setup:
+  - corepack enable
+install: pnpm install --frozen-lockfile
+build: pnpm build
+test: pnpm test
+lint: pnpm lint
+timeoutSeconds: 900
+env:
+  - DATABASE_URL`;
+
+export function VerificationRecipeSettings({
+  projectId,
+  verificationConfig,
+}: VerificationRecipeSettingsProps) {
+  // JSON is valid YAML, so the stored recipe can be edited in place
+  const [recipe, setRecipe] = useState(
+    verificationConfig ? JSON.stringify(verificationConfig, null, 2) : "",
+  );
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await apiFetch(`/api/projects/${projectId}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ verificationConfig: recipe.trim() || null }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success(recipe.trim() ? "Verification recipe saved" : "Verification recipe cleared");
+      } else {
+        toast.error(data.error || "Failed to save recipe");
+      }
+    } catch (e) {
+      console.error(e);
+      toast.error("Network error. Is the backend running?");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-zinc-950 border-zinc-800">
+      <CardHeader>
+        <CardTitle className="text-white">Verification Recipe</CardTitle>
+        <p className="text-zinc-500 text-sm">
+          Commands used to build and test a patch. Overrides <code>.guardian.yml</code> in the
+          repository. Leave empty to use the repo file or automatic stack detection.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Textarea
+          rows={12}
+          placeholder={PLACEHOLDER}
+          value={recipe}
+          onChange={(e) => setRecipe(e.target.value)}
+          className="bg-zinc-900 border-zinc-800 font-mono text-zinc-300"
+        />
+      </CardContent>
+      <CardFooter>
+        <Button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-white text-black hover:bg-gray-200"
+        >
+          {saving ? "Saving..." : "Save Recipe"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
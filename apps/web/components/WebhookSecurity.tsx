@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Copy, RefreshCw } from "lucide-react";
+import { apiFetch } from "@/lib/api";
+
+interface WebhookSecurityProps {
+  projectId: string;
+  // The signed-in user's role; only admins can see the secret
+  role?: string;
+}
+
+export function WebhookSecurity({ projectId, role }: WebhookSecurityProps) {
+  const [webhook, setWebhook] = useState<any>(null);
+  const [rejections, setRejections] = useState<any[]>([]);
+  const [rotating, setRotating] = useState(false);
+  const isAdmin = role === "ADMIN";
+
+  useEffect(() => {
+    if (isAdmin) {
+      apiFetch(`/api/projects/${projectId}/webhook-secret`)
+        .then((res) => res.json())
+        .then(setWebhook)
+        .catch(console.error);
+    }
+    apiFetch(`/api/projects/${projectId}/webhook-rejections`)
+      .then((res) => res.json())
+      .then((data) => setRejections(data.rejections || []))
+      .catch(console.error);
+  }, [projectId, isAdmin]);
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success("Copied to clipboard");
+  };
+
+  const handleRotate = async () => {
+    if (!confirm("Rotate the secret? GitHub and Jenkins must be updated with the new one.")) return;
+    setRotating(true);
+    try {
+      const res = await apiFetch(`/api/projects/${projectId}/webhook-secret/rotate`, {
+        method: "POST",
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setWebhook(data);
+        toast.success("Webhook secret rotated");
+      } else {
+        toast.error(data.error || "Failed to rotate secret");
+      }
+    } catch (e) {
+      console.error(e);
+      toast.error("Network error. Is the backend running?");
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  return (
+    <Card className="bg-zinc-950 border-zinc-800">
+      <CardHeader>
+        <CardTitle className="text-white">Webhook Security</CardTitle>
+        <p className="text-zinc-500 text-sm">
+          GitHub and Jenkins deliveries must be signed with this secret. GitHub: set it as the
+          webhook Secret. Jenkins: send{" "}
+          <code className="text-zinc-300">X-Guardian-Signature-256: sha256=&lt;HMAC&gt;</code> of
+          the request body.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {webhook && (
+          <div className="flex gap-2">
+            <Input
+              type="password"
+              value={webhook.secret}
+              readOnly
+              className="bg-zinc-900 border-zinc-700 font-mono text-zinc-300"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-zinc-400 hover:text-white"
+              onClick={() => copyToClipboard(webhook.secret)}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              className="border-zinc-700"
+              disabled={rotating}
+              onClick={handleRotate}
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Rotate
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-zinc-300">Rejected deliveries</h4>
+          {rejections.length === 0 ? (
+            <p className="text-xs text-zinc-500">No rejected deliveries.</p>
+          ) : (
+            rejections.map((r) => (
+              <div key={r.id} className="flex items-center gap-3 text-xs text-zinc-400">
+                <Badge variant="outline" className="border-zinc-700 text-zinc-400">
+                  {r.source}
+                </Badge>
+                <span className="flex-1 text-red-400">{r.reason}</span>
+                <span className="font-mono">{r.remoteIp}</span>
+                <span>{new Date(r.createdAt).toLocaleString()}</span>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
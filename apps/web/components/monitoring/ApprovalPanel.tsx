@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, FlaskConical, ShieldAlert, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import ReactMarkdown from "react-markdown";
+import { apiFetch } from "@/lib/api";
+
+interface ApprovalPanelProps {
+  incidentId: string;
+  metadata?: any;
+}
+
+/**
+ * RCA, proposed diff and approve / reject / verify buttons for an incident in
+ * AWAITING_APPROVAL. Same actions as the Slack buttons.
+ */
+export function ApprovalPanel({ incidentId, metadata }: ApprovalPanelProps) {
+  const [pending, setPending] = useState<string | null>(null);
+  const analysis = metadata?.rcaData?.analysis;
+  const patch = metadata?.patchData;
+  const guard = metadata?.patchGuard;
+
+  const act = async (action: "approve" | "reject" | "verify") => {
+    if (
+      action === "reject" &&
+      !confirm("Reject this fix? The incident will be closed as REJECTED.")
+    )
+      return;
+
+    setPending(action);
+    try {
+      const res = await apiFetch(`/incidents/${incidentId}/${action}`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || `Failed to ${action}`);
+      } else if (action === "approve") {
+        toast.success(
+          data.approved
+            ? "Fix approved. Verifying and opening the PR..."
+            : `Approval recorded (${data.approvers.length}/${data.required})`,
+        );
+      } else if (action === "reject") {
+        toast.success("Fix rejected");
+      } else {
+        toast.success("Verification started. Logs stream below.");
+      }
+    } catch (e) {
+      console.error(e);
+      toast.error("Network error. Is the backend running?");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      className="space-y-3 rounded-lg border border-yellow-500/20 bg-yellow-500/5 p-4 cursor-default"
+    >
+      {guard && !guard.passed && (
+        <div className="rounded border border-red-500/30 bg-red-500/10 p-3 text-xs text-red-300">
+          <div className="flex items-center gap-2 font-bold mb-1">
+            <ShieldAlert className="h-4 w-4" />
+            Patch guard: approval required ({guard.files} files, {guard.lines} lines)
+          </div>
+          <ul className="list-disc pl-5 space-y-0.5">
+            {guard.violations.map((violation: string, i: number) => (
+              <li key={i}>{violation}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {analysis && (
+        <div>
+          <h5 className="text-[10px] font-bold uppercase tracking-wider text-purple-400 mb-1">
+            Root Cause Analysis
+          </h5>
+          <div className="max-h-48 overflow-y-auto text-xs leading-relaxed text-zinc-300 space-y-2">
+            <ReactMarkdown>{analysis}</ReactMarkdown>
+          </div>
+        </div>
+      )}
+
+      {patch && (
+        <div>
+          <h5 className="text-[10px] font-bold uppercase tracking-wider text-green-400 mb-1">
+            Proposed Fix {patch.files?.length ? `(${patch.files.join(", ")})` : ""}
+          </h5>
+          {patch.summary && <p className="text-xs text-zinc-400 mb-2">{patch.summary}</p>}
+          {patch.diff && (
+            <pre className="max-h-72 overflow-auto rounded bg-black/60 border border-zinc-800 p-3 font-mono text-[11px] leading-relaxed">
+              {patch.diff.split("\n").map((line: string, i: number) => (
+                <div
+                  key={i}
+                  className={
+                    line.startsWith("+")
+                      ? "text-green-400"
+                      : line.startsWith("-")
+                        ? "text-red-400"
+                        : line.startsWith("@@")
+                          ? "text-cyan-400"
+                          : "text-zinc-400"
+                  }
+                >
+                  {line || " "}
+                </div>
+              ))}
+            </pre>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 pt-1">
+        <Button
+          size="sm"
+          disabled={!!pending}
+          onClick={() => act("approve")}
+          className="bg-green-600 hover:bg-green-700 text-white"
+        >
+          <CheckCircle2 className="h-4 w-4 mr-2" />
+          {pending === "approve" ? "Approving..." : "Approve & PR"}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!!pending}
+          onClick={() => act("verify")}
+          className="border-zinc-700 text-zinc-300"
+        >
+          <FlaskConical className="h-4 w-4 mr-2" />
+          {pending === "verify" ? "Starting..." : "Run Verification"}
+        </Button>
+        <Button
+          size="sm"
+          variant="destructive"
+          disabled={!!pending}
+          onClick={() => act("reject")}
+          className="bg-red-600/80 hover:bg-red-700"
+        >
+          <XCircle className="h-4 w-4 mr-2" />
+          Reject
+        </Button>
+      </div>
+    </div>
+  );
+}
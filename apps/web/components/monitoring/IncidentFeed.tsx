@@ -5,11 +5,19 @@ import { socketService } from "@/lib/socket";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { AnimatedLoader } from "@/components/ui/animated-loader";
-import { Activity, CheckCircle2, AlertTriangle, GitPullRequest, History } from "lucide-react";
+import {
+  Activity,
+  CheckCircle2,
+  AlertTriangle,
+  GitPullRequest,
+  History,
+  XCircle,
+} from "lucide-react";
 import Link from "next/link";
-import { API_URL } from "@/lib/config";
+import { apiFetch } from "@/lib/api";
 import { useIncidentStore } from "@/lib/store";
 import { IncidentTerminal } from "./IncidentTerminal";
+import { ApprovalPanel } from "./ApprovalPanel";
 
 interface Incident {
   id: string;
@@ -20,6 +28,7 @@ interface Incident {
   timestamp: string;
   metadata?: any;
   agentRuns?: AgentRun[];
+  approvals?: Approval[];
 }
 
 interface AgentRun {
@@ -32,6 +41,14 @@ interface AgentRun {
   completedAt?: string;
 }
 
+interface Approval {
+  id: string;
+  decision: "APPROVED" | "REJECTED";
+  channel: "SLACK" | "DASHBOARD";
+  login: string;
+  createdAt: string;
+}
+
 interface IncidentFeedProps {
   projectId?: string;
   statusFilter?: string;
@@ -44,12 +61,12 @@ export function IncidentFeed({ projectId, statusFilter }: IncidentFeedProps) {
 
   useEffect(() => {
     // Construct URL for initial fetch
-    const baseUrl = `${API_URL}/incidents`;
+    const baseUrl = "/incidents";
     const params = new URLSearchParams();
     if (projectId) params.append("projectId", projectId);
     if (statusFilter) params.append("status", statusFilter);
 
-    fetch(`${baseUrl}?${params.toString()}`)
+    apiFetch(`${baseUrl}?${params.toString()}`)
       .then((res) => res.json())
       .then((data) => {
         if (statusFilter === "RESOLVED") {
@@ -65,6 +82,7 @@ export function IncidentFeed({ projectId, statusFilter }: IncidentFeedProps) {
     // Conditionally connect to socket only for active incidents (when statusFilter is not set)
     if (!statusFilter) {
       const socket = socketService.connect();
+      if (projectId) socketService.subscribe(projectId);
 
       const handleUpdate = (updatedIncident: Incident) => {
         // client-side filter for socket events
@@ -220,11 +238,15 @@ export function IncidentFeed({ projectId, statusFilter }: IncidentFeedProps) {
 
               {/* Expanded Agent History */}
               {expandedId === incident.id && (
-                <div className="mt-4 animate-in fade-in slide-in-from-top-2 duration-300">
+                <div className="mt-4 space-y-4 animate-in fade-in slide-in-from-top-2 duration-300">
+                  {incident.status === "AWAITING_APPROVAL" && (
+                    <ApprovalPanel incidentId={incident.id} metadata={incident.metadata} />
+                  )}
                   <IncidentTerminal
                     incidentId={incident.id}
                     projectId={projectId || (incident.metadata as any)?.projectId || ""}
                     agentRuns={incident.agentRuns || []}
+                    approvals={incident.approvals || []}
                     status={incident.status}
                   />
                 </div>
@@ -257,6 +279,13 @@ function StatusBadge({ status = "UNKNOWN" }: { status?: string }) {
       </Badge>
     );
 
+  if (status === "REJECTED" || status === "WONT_FIX")
+    return (
+      <Badge variant="outline" className="border-zinc-700 text-zinc-400 bg-zinc-800/50">
+        <XCircle className="mr-1.5 h-3 w-3" /> {status === "REJECTED" ? "Rejected" : "Won't Fix"}
+      </Badge>
+    );
+
   const displayStatus = status === "UNKNOWN" ? "PENDING" : status.replace(/_/g, " ");
 
   return (
@@ -266,6 +295,8 @@ function StatusBadge({ status = "UNKNOWN" }: { status?: string }) {
   );
 }
 
+const IDLE_STATUSES = ["RESOLVED", "AWAITING_APPROVAL", "FAILED", "REJECTED", "WONT_FIX", "CLOSED"];
+
 function isWorking(status: string) {
-  return status !== "RESOLVED" && status !== "AWAITING_APPROVAL" && status !== "FAILED";
+  return !IDLE_STATUSES.includes(status);
 }
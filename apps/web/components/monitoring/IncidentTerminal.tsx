@@ -4,6 +4,7 @@ import { useEffect, useRef, useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { CheckCircle2, Circle, Loader2, Play } from "lucide-react";
 import { socketService } from "@/lib/socket";
+import { apiFetch } from "@/lib/api";
 import ReactMarkdown from "react-markdown";
 
 interface LogEntry {
@@ -11,6 +12,21 @@ interface LogEntry {
   level: "INFO" | "WARN" | "ERROR" | "DEBUG";
   message: string;
   source: string;
+  costUsd?: number; // Model calls only
+}
+
+interface LlmUsage {
+  id: string;
+  agent?: string;
+  model: string;
+  operation: string;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  cachedTokens: number;
+  latencyMs: number;
+  costUsd: number;
+  createdAt: string;
 }
 
 interface AgentRun {
@@ -21,10 +37,19 @@ interface AgentRun {
   startedAt: string;
 }
 
+interface Approval {
+  id: string;
+  decision: "APPROVED" | "REJECTED";
+  channel: "SLACK" | "DASHBOARD";
+  login: string;
+  createdAt: string;
+}
+
 interface IncidentTerminalProps {
   incidentId: string;
   projectId: string;
   agentRuns: AgentRun[];
+  approvals: Approval[];
   status: string;
 }
 
@@ -40,10 +65,21 @@ export function IncidentTerminal({
   incidentId,
   projectId,
   agentRuns,
+  approvals,
   status,
 }: IncidentTerminalProps) {
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [usage, setUsage] = useState<LlmUsage[]>([]);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const totalCost = usage.reduce((sum, u) => sum + u.costUsd, 0);
+
+  // Model calls made so far; refreshed as agents run
+  useEffect(() => {
+    apiFetch(`/incidents/${incidentId}/llm-usage`)
+      .then((res) => (res.ok ? res.json() : { usage: [] }))
+      .then((data) => setUsage(data.usage || []))
+      .catch((e) => console.error("Failed to load LLM usage:", e));
+  }, [incidentId, agentRuns]);
 
   // 1. Determine Current Stage
   const currentStageIndex = STAGES.findIndex((stage) => {
@@ -76,7 +112,38 @@ export function IncidentTerminal({
       message: `Incident ${incidentId.substring(0, 8)} Detected. Orchestrator initialized.`,
     });
 
+    // Approval decisions and model calls, interleaved with agent runs by time
+    const pendingEvents: LogEntry[] = [
+      ...approvals.map((approval): LogEntry => {
+        const approved = approval.decision === "APPROVED";
+        return {
+          timestamp: approval.createdAt,
+          level: approved ? "INFO" : "WARN",
+          source: "Approval",
+          message: `${approved ? "✅ Approved" : "❌ Rejected"} by ${approval.login} via ${approval.channel === "SLACK" ? "Slack" : "Dashboard"}`,
+        };
+      }),
+      ...usage.map(
+        (u): LogEntry => ({
+          timestamp: u.createdAt,
+          level: "DEBUG",
+          source: `LLM ${u.agent || ""}`.trim(),
+          message: `${u.model} ${u.operation}: ${u.inputTokens} in / ${u.outputTokens} out${u.thinkingTokens ? ` / ${u.thinkingTokens} thinking` : ""}, ${u.latencyMs}ms${u.cachedTokens ? `, cache hit (${u.cachedTokens} tokens)` : ""}`,
+          costUsd: u.costUsd,
+        }),
+      ),
+    ].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const flushEvents = (until?: string) => {
+      while (
+        pendingEvents.length > 0 &&
+        (!until || new Date(pendingEvents[0].timestamp) <= new Date(until))
+      ) {
+        historicalLogs.push(pendingEvents.shift()!);
+      }
+    };
+
     agentRuns.forEach((run) => {
+      flushEvents(run.startedAt);
       historicalLogs.push({
         timestamp: run.startedAt,
         level: "INFO",
@@ -103,9 +170,11 @@ export function IncidentTerminal({
       }
     });
 
+    flushEvents();
+
     // Merge with historical logs
     setLogs(historicalLogs);
-  }, [agentRuns, incidentId]); // Include incidentId dependency
+  }, [agentRuns, approvals, usage, incidentId]); // Include incidentId dependency
 
   // Socket Connection for Real-time updates
   useEffect(() => {
@@ -184,11 +253,18 @@ export function IncidentTerminal({
         </div>
 
         {/* Gemini 3 Badge */}
-        <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-gradient-to-r from-blue-500/10 to-purple-500/10 border border-purple-500/20">
-          <div className="w-2 h-2 rounded-full bg-purple-500 animate-pulse" />
-          <span className="text-[10px] uppercase font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-400 tracking-wider">
-            Powered by Gemini 3 Pro
-          </span>
+        <div className="flex items-center gap-2">
+          {usage.length > 0 && (
+            <span className="text-[10px] text-zinc-400" title="Estimated from list prices">
+              LLM cost {formatCost(totalCost)}
+            </span>
+          )}
+          <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-gradient-to-r from-blue-500/10 to-purple-500/10 border border-purple-500/20">
+            <div className="w-2 h-2 rounded-full bg-purple-500 animate-pulse" />
+            <span className="text-[10px] uppercase font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-400 tracking-wider">
+              Powered by Gemini 3 Pro
+            </span>
+          </div>
         </div>
       </div>
 
@@ -238,6 +314,10 @@ export function IncidentTerminal({
             <div className="break-all whitespace-pre-wrap flex-1 text-zinc-300 font-mono text-xs">
               <LogMessage message={log.message} />
             </div>
+
+            <span className="text-zinc-500 shrink-0 w-16 text-right">
+              {log.costUsd !== undefined ? formatCost(log.costUsd) : ""}
+            </span>
           </div>
         ))}
 
@@ -248,6 +328,10 @@ export function IncidentTerminal({
   );
 }
 
+function formatCost(value: number) {
+  return `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+}
+
 function LogMessage({ message }: { message: string }) {
   // 1. Try Parse JSON first
   try {
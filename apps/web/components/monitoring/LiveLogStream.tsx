@@ -1,7 +1,7 @@
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
-import { API_URL } from "@/lib/config";
+import { apiFetch } from "@/lib/api";
 import { Play, Terminal, Zap } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
 import { socketService } from "@/lib/socket";
@@ -22,6 +22,7 @@ export function LiveLogStream({ projectId }: { projectId: string }) {
   useEffect(() => {
     const socket = socketService.connect();
     setIsConnected(socket.connected);
+    if (projectId !== "all") socketService.subscribe(projectId);
 
     socket.on("connect", () => setIsConnected(true));
     socket.on("disconnect", () => setIsConnected(false));
@@ -52,7 +53,7 @@ export function LiveLogStream({ projectId }: { projectId: string }) {
   const simulateIncident = async () => {
     toast.info("Initializing chaos simulation...");
     try {
-      await fetch(`${API_URL}/api/v1/logs/${projectId}`, {
+      await apiFetch(`/api/v1/logs/${projectId}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -0,0 +1,12 @@
+import { API_URL } from "@/lib/config";
+
+/**
+ * fetch() against the API with the session cookie attached.
+ * The GitHub token never reaches the browser; the API resolves it from the session.
+ * The X-Requested-With header is what the API's CSRF check looks for.
+ */
+export function apiFetch(path: string, init: RequestInit = {}) {
+  const headers = new Headers(init.headers);
+  headers.set("X-Requested-With", "XMLHttpRequest");
+  return fetch(`${API_URL}${path}`, { ...init, headers, credentials: "include" });
+}
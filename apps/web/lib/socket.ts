@@ -8,7 +8,8 @@ class SocketService {
 
   public connect() {
     if (!this.socket) {
-      this.socket = io(API_URL);
+      // Authenticated with the session cookie
+      this.socket = io(API_URL, { withCredentials: true });
       console.log("[Client] Socket connecting...");
 
       this.socket.on("connect", () => {
@@ -22,6 +23,13 @@ class SocketService {
     return this.socket;
   }
 
+  /**
+   * Joins a project's event room (needed for projects created after connecting).
+   */
+  public subscribe(projectId: string) {
+    this.connect().emit("project:subscribe", projectId);
+  }
+
   public disconnect() {
     if (this.socket) {
       this.socket.disconnect();
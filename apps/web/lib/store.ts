@@ -10,6 +10,14 @@ interface AgentRun {
   completedAt?: string;
 }
 
+interface Approval {
+  id: string;
+  decision: "APPROVED" | "REJECTED";
+  channel: "SLACK" | "DASHBOARD";
+  login: string;
+  createdAt: string;
+}
+
 interface Incident {
   id: string;
   title: string;
@@ -19,6 +27,7 @@ interface Incident {
   timestamp: string;
   metadata?: any;
   agentRuns?: AgentRun[];
+  approvals?: Approval[];
 }
 
 interface IncidentState {
@@ -50,9 +50,31 @@ export interface IAgent {
 }
 
 export * from "./db.js";
+export * from "./services/LLMProvider.js";
+export * from "./services/LLMUsage.js";
 export * from "./services/GeminiProvider.js";
+export * from "./services/OpenAICompatibleProvider.js";
+export * from "./services/OllamaProvider.js";
+export * from "./services/FakeLLMProvider.js";
+export * from "./services/StructuredOutput.js";
+export * from "./services/AgentOutputs.js";
 export * from "./services/GitHubService.js";
 export * from "./services/SecretsManagerService.js";
 export * from "./services/VerificationService.js";
 export * from "./services/LogStreamService.js";
 export * from "./services/SlackService.js";
+export * from "./services/SandboxProvider.js";
+export * from "./services/E2BSandboxProvider.js";
+export * from "./services/LocalSandboxProvider.js";
+export * from "./services/VerificationRecipe.js";
+export * from "./services/PatchApplier.js";
+export * from "./services/StackTraceContext.js";
+export * from "./services/WorkflowLogParser.js";
+export * from "./services/IncidentLifecycle.js";
+export * from "./services/AccessControl.js";
+export * from "./services/ApprovalPolicy.js";
+export * from "./services/RemediationPolicy.js";
+export * from "./services/PatchGuard.js";
+export * from "./services/SecretScanner.js";
+export * from "./services/ExecutionContext.js";
+export * from "./services/Replay.js";
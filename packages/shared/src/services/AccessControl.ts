@@ -0,0 +1,130 @@
+import { db, OrgRole } from "../db.js";
+
+// Least to most privileged: each role can do everything the previous one can
+export const ORG_ROLES: OrgRole[] = ["VIEWER", "RESPONDER", "APPROVER", "ADMIN"];
+
+/**
+ * Who is acting on an incident: a signed-in dashboard user or a Slack user.
+ */
+export type IncidentActor = {
+  userId?: string;
+  slackUserId?: string;
+  // Display name for the status history
+  name?: string;
+};
+
+export class InsufficientRoleError extends Error {
+  constructor(
+    public required: OrgRole,
+    public actual: OrgRole | null,
+  ) {
+    super(
+      actual
+        ? `This action requires the ${required} role (you are ${actual})`
+        : `This action requires the ${required} role`,
+    );
+    this.name = "InsufficientRoleError";
+  }
+}
+
+export function isOrgRole(value: unknown): value is OrgRole {
+  return typeof value === "string" && ORG_ROLES.includes(value as OrgRole);
+}
+
+export function hasRole(role: OrgRole | null | undefined, required: OrgRole): boolean {
+  return !!role && ORG_ROLES.indexOf(role) >= ORG_ROLES.indexOf(required);
+}
+
+export async function getOrgRole(userId: string, orgId: string): Promise<OrgRole | null> {
+  const membership = await db.membership.findUnique({
+    where: { orgId_userId: { orgId, userId } },
+    select: { role: true },
+  });
+  return membership?.role ?? null;
+}
+
+/**
+ * The user's role on a project (through its organization).
+ * Returns `undefined` if the project doesn't exist, `null` if the user isn't a member.
+ */
+export async function getProjectRole(
+  userId: string,
+  projectId: string,
+): Promise<OrgRole | null | undefined> {
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: { orgId: true },
+  });
+  if (!project) return undefined;
+  return project.orgId ? getOrgRole(userId, project.orgId) : null;
+}
+
+/**
+ * Checks that the actor has at least `required` in the incident's organization.
+ *
+ * @throws InsufficientRoleError if not (including unknown Slack users)
+ */
+export async function assertIncidentRole(
+  incidentId: string,
+  actor: IncidentActor,
+  required: OrgRole,
+) {
+  const incident = await db.incident.findUnique({
+    where: { id: incidentId },
+    select: { orgId: true },
+  });
+  if (!incident?.orgId || (!actor.userId && !actor.slackUserId)) {
+    throw new InsufficientRoleError(required, null);
+  }
+
+  const membership = await db.membership.findFirst({
+    where: {
+      orgId: incident.orgId,
+      ...(actor.userId ? { userId: actor.userId } : { slackUserId: actor.slackUserId }),
+    },
+    include: { user: { select: { login: true } } },
+  });
+  if (!hasRole(membership?.role, required)) {
+    throw new InsufficientRoleError(required, membership?.role ?? null);
+  }
+  return membership!;
+}
+
+/**
+ * Returns the user's first organization, creating a personal one (with the user
+ * as ADMIN) on first sign-in. Projects the user created before organizations
+ * existed, and their incidents, move into it.
+ */
+export async function ensurePersonalOrganization(user: { id: string; login: string }) {
+  const existing = await db.membership.findFirst({
+    where: { userId: user.id },
+    orderBy: { createdAt: "asc" },
+    include: { org: true },
+  });
+  if (existing) return existing.org;
+
+  const org = await db.organization.create({
+    data: { name: user.login, members: { create: { userId: user.id, role: "ADMIN" } } },
+  });
+
+  const owned = await db.project.findMany({
+    where: { ownerId: user.login, orgId: null },
+    select: { id: true },
+  });
+  if (owned.length > 0) {
+    await db.project.updateMany({
+      where: { id: { in: owned.map((p) => p.id) } },
+      data: { orgId: org.id },
+    });
+    await db.incident.updateMany({
+      where: {
+        orgId: null,
+        OR: owned.map((p) => ({ metadata: { path: ["projectId"], equals: p.id } })),
+      },
+      data: { orgId: org.id },
+    });
+  }
+
+  console.log(`[Access] Created organization for ${user.login} (${owned.length} projects claimed)`);
+  return org;
+}
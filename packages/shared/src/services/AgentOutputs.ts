@@ -0,0 +1,100 @@
+import { z } from "zod";
+
+/**
+ * What the agents ask the model to return. Each schema is sent to the
+ * provider's JSON mode and validated with generateStructured().
+ */
+
+export const RCA_CATEGORIES = [
+  "CODE",
+  "CONFIGURATION",
+  "DEPENDENCY",
+  "INFRASTRUCTURE",
+  "RESOURCE",
+  "NETWORK",
+  "DATA",
+  "SECURITY",
+  "TEST",
+  "UNKNOWN",
+] as const;
+
+export const RcaOutputSchema = z.object({
+  technologyStack: z.array(z.string()).describe("Languages and frameworks, e.g. Node.js, Express"),
+  category: z.enum(RCA_CATEGORIES).describe("Kind of failure"),
+  rootCause: z.string().min(1).describe("Specific technical reason for the failure"),
+  affectedFiles: z
+    .array(
+      z.object({
+        path: z.string().min(1).describe("Repository-relative file path"),
+        line: z.number().int().optional(),
+        reason: z.string().optional().describe("What is wrong in this file"),
+      }),
+    )
+    .describe("Files that need to change, most relevant first"),
+  confidence: z.number().min(0).max(1).describe("0 = guess, 1 = certain"),
+  recommendedFix: z.string().min(1),
+  evidence: z.array(z.string()).optional().describe("Log lines or code that support the analysis"),
+});
+
+export type RcaOutput = z.infer<typeof RcaOutputSchema>;
+
+export const PatchOutputSchema = z.object({
+  fileUpdates: z
+    .array(
+      z
+        .object({
+          path: z.string().min(1),
+          edits: z
+            .array(
+              z.object({
+                search: z.string().min(1).describe("Exact lines from the current file"),
+                replace: z.string(),
+              }),
+            )
+            .optional(),
+          diff: z.string().optional().describe("Unified diff, instead of edits"),
+          content: z.string().optional().describe("Full content, only for brand-new files"),
+        })
+        .refine((f) => Boolean(f.edits?.length || f.diff || f.content !== undefined), {
+          message: "each file update needs edits, diff or content",
+        }),
+    )
+    .min(1),
+  explanation: z.string().min(1),
+});
+
+export type PatchOutput = z.infer<typeof PatchOutputSchema>;
+
+export const TriageOutputSchema = z.object({
+  isIncident: z.boolean().describe("Whether this is a real incident that needs fixing"),
+  rootCause: z.string(),
+  severity: z.enum(["INFO", "WARNING", "CRITICAL"]),
+});
+
+export type TriageOutput = z.infer<typeof TriageOutputSchema>;
+
+/**
+ * The RCA as markdown, for the consumers that show or forward text (Patch
+ * prompt, PR body, Slack, dashboard).
+ */
+export function renderRcaMarkdown(rca: RcaOutput): string {
+  const lines = [
+    `**Technology Stack:** ${rca.technologyStack.join(", ") || "Unknown"}`,
+    `**Category:** ${rca.category} (confidence ${Math.round(rca.confidence * 100)}%)`,
+    "",
+    "**Root Cause:**",
+    rca.rootCause,
+  ];
+  if (rca.affectedFiles.length > 0) {
+    lines.push("", "**Affected Files:**");
+    for (const file of rca.affectedFiles) {
+      const location = file.line ? `${file.path}:${file.line}` : file.path;
+      lines.push(`- \`${location}\`${file.reason ? `: ${file.reason}` : ""}`);
+    }
+  }
+  if (rca.evidence?.length) {
+    lines.push("", "**Evidence:**", ...rca.evidence.map((e) => `- ${e}`));
+  }
+  lines.push("", "**Recommended Fix:**", rca.recommendedFix);
+  return lines.join("\n");
+}
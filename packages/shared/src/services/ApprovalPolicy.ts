@@ -0,0 +1,222 @@
+import { z } from "zod";
+import { db, Approval, ApprovalChannel, ApprovalDecision, OrgRole, Severity } from "../db.js";
+import { assertIncidentRole, hasRole, IncidentActor, isOrgRole } from "./AccessControl.js";
+
+const approvalCount = z.number().int().min(1).max(10);
+
+// Up to 30 days
+const minutesAfterRequest = z
+  .number()
+  .int()
+  .min(1)
+  .max(30 * 24 * 60)
+  .optional();
+
+/**
+ * What happens while an incident sits in AWAITING_APPROVAL, in minutes since
+ * approval was requested. Unset steps are skipped.
+ */
+export const EscalationPolicySchema = z.object({
+  // Re-ping the approvers in the incident's Slack thread
+  remindAfterMinutes: minutesAfterRequest,
+  // Post to the on-call channel
+  escalateAfterMinutes: minutesAfterRequest,
+  // Auto-reject the fix
+  expireAfterMinutes: minutesAfterRequest,
+});
+
+/**
+ * Who may approve a project's production fixes, and how many of them must.
+ * Stored on `Project.approvalPolicy`.
+ */
+export const ApprovalPolicySchema = z.object({
+  // Distinct approvers needed per severity (1 when not set)
+  requiredApprovals: z
+    .object({ INFO: approvalCount, WARNING: approvalCount, CRITICAL: approvalCount })
+    .partial()
+    .default({}),
+  // GitHub logins, or "role:<ROLE>" for every member with at least that role.
+  // Empty: any member with the APPROVER role.
+  allowedApprovers: z
+    .array(z.string().trim().min(1))
+    .default([])
+    .refine(
+      (entries) =>
+        entries.every((e) => !e.startsWith("role:") || isOrgRole(e.slice("role:".length))),
+      { message: 'Groups must be "role:VIEWER|RESPONDER|APPROVER|ADMIN"' },
+    ),
+  // Approval deadlines per severity (none when not set)
+  escalation: z
+    .object({
+      INFO: EscalationPolicySchema,
+      WARNING: EscalationPolicySchema,
+      CRITICAL: EscalationPolicySchema,
+    })
+    .partial()
+    .default({}),
+  // Slack channel for the escalation step; the project's channel when not set
+  onCallChannelId: z.string().trim().min(1).optional(),
+});
+
+export type ApprovalPolicy = z.infer<typeof ApprovalPolicySchema>;
+
+export type EscalationAction = "REMIND" | "ESCALATE" | "EXPIRE";
+
+export type EscalationStep = { action: EscalationAction; afterMinutes: number };
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = ApprovalPolicySchema.parse({});
+
+export class ApproverNotAllowedError extends Error {
+  constructor(public login: string) {
+    super(`${login} is not an allowed approver for this project`);
+    this.name = "ApproverNotAllowedError";
+  }
+}
+
+/**
+ * Reads a stored policy; missing or invalid policies fall back to the default.
+ */
+export function parseApprovalPolicy(value: unknown): ApprovalPolicy {
+  if (!value) return DEFAULT_APPROVAL_POLICY;
+  const parsed = ApprovalPolicySchema.safeParse(value);
+  if (!parsed.success) {
+    console.warn("[Approval] Invalid approval policy, using default:", parsed.error.message);
+    return DEFAULT_APPROVAL_POLICY;
+  }
+  return parsed.data;
+}
+
+export function requiredApprovals(policy: ApprovalPolicy, severity: Severity): number {
+  return policy.requiredApprovals[severity] ?? 1;
+}
+
+/**
+ * The escalation steps for a severity, in the order they fire. Nothing is
+ * scheduled after the fix expires.
+ */
+export function escalationSchedule(policy: ApprovalPolicy, severity: Severity): EscalationStep[] {
+  const escalation = policy.escalation[severity];
+  if (!escalation) return [];
+
+  const steps = (
+    [
+      { action: "REMIND", afterMinutes: escalation.remindAfterMinutes },
+      { action: "ESCALATE", afterMinutes: escalation.escalateAfterMinutes },
+      { action: "EXPIRE", afterMinutes: escalation.expireAfterMinutes },
+    ] as { action: EscalationAction; afterMinutes?: number }[]
+  )
+    .filter((step): step is EscalationStep => step.afterMinutes !== undefined)
+    .sort((a, b) => a.afterMinutes - b.afterMinutes);
+
+  const expiry = steps.findIndex((step) => step.action === "EXPIRE");
+  return expiry >= 0 ? steps.slice(0, expiry + 1) : steps;
+}
+
+export function isAllowedApprover(
+  policy: ApprovalPolicy,
+  member: { login: string; role: OrgRole },
+): boolean {
+  if (policy.allowedApprovers.length === 0) return true;
+  return policy.allowedApprovers.some((entry) =>
+    entry.startsWith("role:")
+      ? hasRole(member.role, entry.slice("role:".length) as OrgRole)
+      : entry.toLowerCase() === member.login.toLowerCase(),
+  );
+}
+
+/**
+ * Slack member IDs of everyone who could approve, for reminders. Members without
+ * a Slack ID can't be mentioned and are left out.
+ */
+export async function approverSlackIds(orgId: string, policy: ApprovalPolicy): Promise<string[]> {
+  const members = await db.membership.findMany({
+    where: { orgId, slackUserId: { not: null } },
+    select: { role: true, slackUserId: true, user: { select: { login: true } } },
+  });
+  return members
+    .filter(
+      (m) =>
+        hasRole(m.role, "APPROVER") &&
+        isAllowedApprover(policy, { login: m.user.login, role: m.role }),
+    )
+    .map((m) => m.slackUserId!);
+}
+
+export type ApprovalTally = {
+  approval: Approval;
+  // Distinct approvers in the current approval round
+  approvers: string[];
+  required: number;
+  // Quorum reached (never true for a rejection)
+  approved: boolean;
+};
+
+/**
+ * Records an approve/reject decision on an incident awaiting approval. Slack and
+ * the dashboard both go through here. Only decisions made since the approval was
+ * requested (`metadata.approvalRequestedAt`) count towards the quorum, so a
+ * re-run incident starts a fresh round.
+ *
+ * @throws InsufficientRoleError if the actor isn't an APPROVER in the incident's org
+ * @throws ApproverNotAllowedError if the project's policy doesn't list the actor
+ */
+export async function recordApprovalDecision(
+  incidentId: string,
+  actor: IncidentActor,
+  decision: ApprovalDecision,
+  channel: ApprovalChannel,
+): Promise<ApprovalTally> {
+  const membership = await assertIncidentRole(incidentId, actor, "APPROVER");
+  const login = membership.user.login;
+
+  const incident = await db.incident.findUniqueOrThrow({
+    where: { id: incidentId },
+    select: { severity: true, metadata: true },
+  });
+  const metadata = (incident.metadata as any) || {};
+  const project = metadata.projectId
+    ? await db.project.findUnique({
+        where: { id: metadata.projectId },
+        select: { approvalPolicy: true },
+      })
+    : null;
+  const policy = parseApprovalPolicy(project?.approvalPolicy);
+
+  if (!isAllowedApprover(policy, { login, role: membership.role })) {
+    throw new ApproverNotAllowedError(login);
+  }
+
+  const approval = await db.approval.create({
+    data: {
+      incidentId,
+      decision,
+      channel,
+      userId: membership.userId,
+      login,
+      slackUserId: channel === "SLACK" ? actor.slackUserId : undefined,
+    },
+  });
+
+  const round = await db.approval.findMany({
+    where: {
+      incidentId,
+      decision: "APPROVED",
+      createdAt: metadata.approvalRequestedAt
+        ? { gte: new Date(metadata.approvalRequestedAt) }
+        : undefined,
+    },
+    select: { login: true },
+  });
+  const approvers = [...new Set(round.map((a) => a.login))];
+  const required = requiredApprovals(policy, incident.severity);
+
+  console.log(
+    `[Approval] ${login} ${decision.toLowerCase()} ${incidentId} via ${channel} (${approvers.length}/${required})`,
+  );
+  return {
+    approval,
+    approvers,
+    required,
+    approved: decision === "APPROVED" && approvers.length >= required,
+  };
+}
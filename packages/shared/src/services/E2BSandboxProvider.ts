@@ -0,0 +1,58 @@
+import { Sandbox } from "@e2b/code-interpreter";
+import type {
+  SandboxCommandOptions,
+  SandboxCommandResult,
+  SandboxProvider,
+  SandboxSession,
+} from "./SandboxProvider.js";
+
+class E2BSandboxSession implements SandboxSession {
+  repoDir = "/home/user/repo";
+
+  constructor(private sandbox: Sandbox) {}
+
+  get id() {
+    return this.sandbox.sandboxId;
+  }
+
+  async run(command: string, options: SandboxCommandOptions = {}): Promise<SandboxCommandResult> {
+    try {
+      const result = await this.sandbox.commands.run(command, {
+        onStdout: options.onStdout,
+        onStderr: options.onStderr,
+        timeoutMs: options.timeoutMs,
+      });
+      return { exitCode: result.exitCode, stdout: result.stdout, stderr: result.stderr };
+    } catch (error: any) {
+      // E2B SDK throws on non-zero exit code
+      if (error.result) {
+        return {
+          exitCode: error.result.exitCode || 1,
+          stdout: error.result.stdout || "",
+          stderr: error.result.stderr || "",
+        };
+      }
+      throw error;
+    }
+  }
+
+  async writeFile(path: string, content: string) {
+    await this.sandbox.files.write(path, content);
+  }
+
+  async close() {
+    await this.sandbox.kill();
+  }
+}
+
+/**
+ * Hosted E2B sandboxes (requires E2B_API_KEY).
+ */
+export class E2BSandboxProvider implements SandboxProvider {
+  name = "e2b" as const;
+
+  async create(envs: Record<string, string> = {}): Promise<SandboxSession> {
+    const sandbox = await Sandbox.create({ envs });
+    return new E2BSandboxSession(sandbox);
+  }
+}
@@ -0,0 +1,56 @@
+import { db } from "../db.js";
+import { SecretsManagerService } from "./SecretsManagerService.js";
+
+/**
+ * Credentials a workflow step runs with. Kept apart from the incident so they
+ * never end up in `Incident.metadata`, socket broadcasts or API responses:
+ * resolve one when a step needs it and pass it to the agents explicitly.
+ */
+export type ExecutionContext = {
+  githubToken?: string;
+};
+
+// Created on first use: the client logs on construction
+let secretsManager: SecretsManagerService | undefined;
+
+/**
+ * Resolves the project's GitHub token: Secrets Manager first, then the
+ * `Project.githubToken` column (older projects, local setups).
+ */
+export async function resolveGitHubToken(projectId?: string): Promise<string | undefined> {
+  if (!projectId) return undefined;
+
+  secretsManager ??= new SecretsManagerService();
+  const stored = await secretsManager.getGitHubToken(projectId);
+  if (stored) return stored;
+
+  try {
+    const project = await db.project.findUnique({
+      where: { id: projectId },
+      select: { githubToken: true },
+    });
+    if (project?.githubToken && project.githubToken !== "REDACTED") {
+      return project.githubToken;
+    }
+  } catch (e) {
+    console.warn(`[Credentials] Failed to load project ${projectId}:`, e);
+  }
+  return undefined;
+}
+
+export async function resolveExecutionContext(incident: {
+  metadata?: any;
+}): Promise<ExecutionContext> {
+  return { githubToken: await resolveGitHubToken(incident.metadata?.projectId) };
+}
+
+/**
+ * Removes credentials that older versions stored on incidents (`metadata.token`).
+ * Idempotent; returns the number of incidents scrubbed.
+ */
+export async function scrubIncidentCredentials(): Promise<number> {
+  return db.$executeRaw`
+    UPDATE "Incident" SET "metadata" = "metadata" - 'token'
+    WHERE jsonb_typeof("metadata") = 'object' AND "metadata" ? 'token'
+  `;
+}
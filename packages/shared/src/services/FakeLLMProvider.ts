@@ -0,0 +1,102 @@
+import { createHash } from "crypto";
+import type { LLMBackend, LLMProvider, ModelTier, ResponseSchema } from "./LLMProvider.js";
+import { redactSecrets } from "./SecretScanner.js";
+
+export type FakeLLMResponse = {
+  // First rule whose pattern matches the (redacted) prompt answers it
+  match: string | RegExp;
+  response: string;
+};
+
+export type FakeLLMCall = {
+  method: "generate" | "generateWithReasoning" | "getEmbedding" | "cacheContext";
+  prompt: string;
+  incidentId?: string;
+  tier?: ModelTier;
+  responseSchema?: ResponseSchema;
+};
+
+const EMBEDDING_DIMENSIONS = 768;
+
+/**
+ * Deterministic provider for tests and offline runs: canned responses, hashed
+ * embeddings, no network and no database writes. Every call is kept in `calls`.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  name: LLMBackend = "fake";
+  calls: FakeLLMCall[] = [];
+  private responses: FakeLLMResponse[];
+  private fallback: string;
+
+  constructor(responses: FakeLLMResponse[] = [], fallback = "{}") {
+    this.responses = responses;
+    this.fallback = fallback;
+  }
+
+  private answer(call: FakeLLMCall): string {
+    // Redacted like the real providers, so tests see what a model would
+    const prompt = redactSecrets(call.prompt).text;
+    this.calls.push({ ...call, prompt });
+
+    const rule = this.responses.find((r) =>
+      typeof r.match === "string" ? prompt.includes(r.match) : r.match.test(prompt),
+    );
+    return rule ? rule.response : this.fallback;
+  }
+
+  async generate(
+    prompt: string,
+    incidentId?: string,
+    responseSchema?: ResponseSchema,
+  ): Promise<string> {
+    return this.answer({ method: "generate", prompt, incidentId, responseSchema });
+  }
+
+  async generateWithReasoning(
+    prompt: string,
+    incidentId: string,
+    _agentName: string,
+    _images: string[] = [],
+    _cachedContentName?: string,
+    tier: ModelTier = "fast",
+    responseSchema?: ResponseSchema,
+  ): Promise<string> {
+    return this.answer({
+      method: "generateWithReasoning",
+      prompt,
+      incidentId,
+      tier,
+      responseSchema,
+    });
+  }
+
+  // Same text, same vector: seeded from the SHA-256 of the text
+  async getEmbedding(text: string): Promise<number[]> {
+    this.calls.push({ method: "getEmbedding", prompt: redactSecrets(text).text });
+    const vector: number[] = [];
+    let seed = createHash("sha256").update(text).digest();
+    while (vector.length < EMBEDDING_DIMENSIONS) {
+      for (const byte of seed) vector.push(byte / 127.5 - 1);
+      seed = createHash("sha256").update(seed).digest();
+    }
+    vector.length = EMBEDDING_DIMENSIONS;
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map((v) => v / norm);
+  }
+
+  async cacheContext(
+    key: string,
+    content: string,
+    _ttlSeconds?: number,
+    incidentId?: string,
+    tier?: ModelTier,
+  ): Promise<string> {
+    this.calls.push({
+      method: "cacheContext",
+      prompt: redactSecrets(content).text,
+      incidentId,
+      tier,
+    });
+    return "";
+  }
+}
@@ -1,18 +1,53 @@
 // packages/shared/src/services/GeminiProvider.ts
 import { GoogleGenAI } from "@google/genai";
+import { createHash } from "crypto";
 import { db } from "../db.js";
 import { AgentStatus } from "../index.js";
+import { redactPrompt } from "./SecretScanner.js";
+import type { LLMBackend, LLMProvider, ModelTier, ResponseSchema } from "./LLMProvider.js";
+import { LLMCall, LLMUsageScope, estimateTokens, recordLLMUsage } from "./LLMUsage.js";
 
-export class GeminiProvider {
+// Caches expiring sooner than this are recreated rather than reused
+const CACHE_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Token counts from a generateContent response
+function usageOf(result: any) {
+  const usage = result?.usageMetadata || {};
+  return {
+    inputTokens: usage.promptTokenCount, // Includes cached tokens
+    outputTokens: usage.candidatesTokenCount,
+    thinkingTokens: usage.thoughtsTokenCount,
+    cachedTokens: usage.cachedContentTokenCount,
+  };
+}
+
+export class GeminiProvider implements LLMProvider {
+  name: LLMBackend = "gemini";
   private client: any;
+  private models: { fast: string; reasoning: string; embedding: string };
+  private scope: LLMUsageScope;
+  // Cache name -> cached content, to send it inline when the cache can't be used
+  private cachedContents = new Map<string, string>();
 
-  constructor(apiKey: string) {
+  constructor(
+    apiKey: string,
+    models: { fast?: string; reasoning?: string; embedding?: string } = {},
+    scope: LLMUsageScope = {},
+  ) {
     if (!apiKey) {
       // ⚠️ CRITICAL: The API might be receiving "undefined" as a string
       throw new Error("GeminiProvider: API Key is missing or undefined.");
     }
     // New unified client initialization
     this.client = new GoogleGenAI({ apiKey });
+    this.scope = scope;
+    this.models = {
+      // Gemini 3 Flash Preview (PhD-level reasoning, optimized for speed)
+      fast: models.fast || "gemini-3-flash-preview",
+      // Pro for deeper reasoning
+      reasoning: models.reasoning || "gemini-3-pro-preview",
+      embedding: models.embedding || "text-embedding-004",
+    };
   }
 
   async generateWithReasoning(
@@ -21,11 +56,12 @@ export class GeminiProvider {
     agentName: string,
     images: string[] = [],
     cachedContentName?: string, // Support for Context Caching
-    modelOverride?: string, // Allow agents to request specific models (e.g., gemini-3-pro-preview)
+    tier: ModelTier = "fast", // Agents ask for "reasoning" when they need the bigger model
+    responseSchema?: ResponseSchema,
   ): Promise<string> {
+    const startedAt = Date.now();
     try {
-      // Primary: Gemini 3 Flash Preview (PhD-level reasoning, optimized for speed)
-      const primaryModel = modelOverride || "gemini-3-flash-preview";
+      const primaryModel = this.models[tier];
 
       if (images.length > 0) {
         console.log(
@@ -38,7 +74,7 @@ export class GeminiProvider {
       }
 
       // Construct Multi-modal Content
-      const parts: any[] = [{ text: prompt }];
+      const parts: any[] = [{ text: await redactPrompt(prompt, incidentId) }];
 
       // images is array of base64 strings (data:image/png;base64,...)
       images.forEach((img) => {
@@ -56,6 +92,7 @@ export class GeminiProvider {
         thinkingConfig: {
           includeThoughts: true,
         },
+        ...this.jsonMode(responseSchema),
       };
 
       // If cached content provided, use it
@@ -77,7 +114,7 @@ export class GeminiProvider {
           contents,
           config,
         });
-        return await this.processResult(result, incidentId, agentName);
+        return await this.processResult(result, incidentId, agentName, primaryModel, startedAt);
       } catch (err: any) {
         // Handle Rate Limits (429) for Primary
         if (err.status === 429) {
@@ -89,24 +126,37 @@ export class GeminiProvider {
               contents,
               config,
             });
-            return await this.processResult(result, incidentId, agentName);
+            return await this.processResult(result, incidentId, agentName, primaryModel, startedAt);
           } catch (e) {
             console.warn("[GeminiProvider] Primary Retry failed. Switching to Fallback.");
           }
         }
 
-        // Fallback: Gemini 3 Flash Preview
-        const fallbackModel = "gemini-3-flash-preview";
+        // Fallback: the fast model
+        const fallbackModel = this.models.fast;
         console.warn(`[GeminiProvider] Switching to fallback: ${fallbackModel}`);
 
+        // A cache only works with the model it was created for (and may have
+        // been rejected): the fallback sends the cached context inline
+        const cachedText = cachedContentName && this.cachedContents.get(cachedContentName);
+        if (cachedContentName && /cache/i.test(err.message || "")) {
+          await this.invalidateCache(cachedContentName);
+        }
+        const fallbackContents = cachedText
+          ? [{ role: "user", parts: [{ text: cachedText }, ...parts] }]
+          : contents;
+        const fallbackConfig = {
+          ...(cachedContentName && !cachedText ? { cachedContent: cachedContentName } : {}),
+          ...this.jsonMode(responseSchema),
+        };
+
         try {
-          const fallbackConfig = cachedContentName ? { cachedContent: cachedContentName } : {};
           const result = await this.client.models.generateContent({
             model: fallbackModel,
-            contents,
+            contents: fallbackContents,
             config: fallbackConfig,
           });
-          return await this.processResult(result, incidentId, agentName);
+          return await this.processResult(result, incidentId, agentName, fallbackModel, startedAt);
         } catch (fallbackErr: any) {
           // If fallback also hitting rate limit, try one last time after delay
           if (fallbackErr.status === 429) {
@@ -114,10 +164,16 @@ export class GeminiProvider {
             await new Promise((r) => setTimeout(r, 5000));
             const result = await this.client.models.generateContent({
               model: fallbackModel,
-              contents,
-              config: cachedContentName ? { cachedContent: cachedContentName } : {},
+              contents: fallbackContents,
+              config: fallbackConfig,
             });
-            return await this.processResult(result, incidentId, agentName);
+            return await this.processResult(
+              result,
+              incidentId,
+              agentName,
+              fallbackModel,
+              startedAt,
+            );
           }
           throw fallbackErr;
         }
@@ -140,60 +196,148 @@ export class GeminiProvider {
   }
 
   /**
-   * Caches a large text context (like a repo dump) for 1 hour.
-   * Returns the `cachedContent.name` (resource ID).
+   * Caches a large text context (like a repo dump) for the model of `tier`
+   * and returns the `cachedContent.name`, or "" to send the context inline.
+   * Caches are kept in the ContextCache table by key, model and content hash:
+   * the same content is reused (its TTL refreshed) until it changes.
    */
-  async cacheContext(key: string, content: string, ttlSeconds: number = 3600): Promise<string> {
+  async cacheContext(
+    key: string,
+    content: string,
+    ttlSeconds: number = 3600,
+    incidentId?: string,
+    tier: ModelTier = "fast",
+  ): Promise<string> {
+    const startedAt = Date.now();
+    const model = this.models[tier];
     try {
-      console.log(`[GeminiProvider] Caching context for key: ${key} (${content.length} chars)...`);
-
-      // 1. Upload File (Text)
-      // Convert string to Buffer
-      const buffer = Buffer.from(content);
-
-      // @google/genai "files" namespace usage
-      // Note: SDK structure might vary, adapting to common pattern
-      const uploadResponse = await this.client.files.upload({
-        file: {
-          metadata: {
-            displayName: key,
-            mimeType: "text/plain",
-          },
-        },
-        media: {
-          mimeType: "text/plain",
-          body: buffer,
-        },
-      });
+      const redacted = await redactPrompt(content, incidentId);
+      const contentHash = createHash("sha256").update(redacted).digest("hex");
+      const ttl = `${ttlSeconds}s`;
 
-      const fileUri = uploadResponse.file.uri;
-      console.log(`[GeminiProvider] File uploaded: ${fileUri}`);
+      // 1. Reuse a live cache for the same content and model
+      const existing = await db.contextCache.findUnique({
+        where: { key_model_contentHash: { key, model, contentHash } },
+      });
+      if (existing && existing.expiresAt.getTime() > Date.now() + CACHE_EXPIRY_MARGIN_MS) {
+        try {
+          const updated = await this.client.caches.update({ name: existing.name, config: { ttl } });
+          await db.contextCache.update({
+            where: { id: existing.id },
+            data: { expiresAt: this.expiryOf(updated, ttlSeconds) },
+          });
+          console.log(`[GeminiProvider] Reusing cache ${existing.name} for key: ${key}`);
+          this.cachedContents.set(existing.name, redacted);
+          return existing.name;
+        } catch (e: any) {
+          // Deleted on the provider side: create a new one below
+          console.warn(
+            `[GeminiProvider] Cache ${existing.name} is gone (${e.message}). Recreating...`,
+          );
+          await db.contextCache.delete({ where: { id: existing.id } }).catch(() => {});
+        }
+      }
 
-      // 2. Create Cache
+      // 2. Create it for the model that will read it
+      console.log(
+        `[GeminiProvider] Caching context for key: ${key} on ${model} (${content.length} chars)...`,
+      );
       const cacheResponse = await this.client.caches.create({
-        model: "models/gemini-3-flash", // Must match model used
-        contents: [
-          {
-            role: "user",
-            parts: [{ fileData: { fileUri, mimeType: "text/plain" } }],
-          },
-        ],
-        ttlSeconds, // "300s" string or number depending on SDK. Trying number.
+        model,
+        config: {
+          displayName: key,
+          contents: [{ role: "user", parts: [{ text: redacted }] }],
+          ttl,
+        },
       });
-
       console.log(`[GeminiProvider] Cache created: ${cacheResponse.name}`);
+
+      await db.contextCache.upsert({
+        where: { key_model_contentHash: { key, model, contentHash } },
+        create: {
+          key,
+          model,
+          contentHash,
+          name: cacheResponse.name,
+          expiresAt: this.expiryOf(cacheResponse, ttlSeconds),
+        },
+        update: { name: cacheResponse.name, expiresAt: this.expiryOf(cacheResponse, ttlSeconds) },
+      });
+      await this.pruneCaches(key, model, contentHash);
+
+      await this.recordUsage({
+        model,
+        operation: "cache",
+        incidentId,
+        inputTokens: cacheResponse.usageMetadata?.totalTokenCount ?? estimateTokens(redacted),
+        latencyMs: Date.now() - startedAt,
+      });
+      this.cachedContents.set(cacheResponse.name, redacted);
       return cacheResponse.name;
     } catch (e: any) {
+      // e.g. content below the model's minimum cache size
       console.warn("[GeminiProvider] Caching failed (skipping):", e.message);
       return ""; // Return empty to fallback to normal context
     }
   }
 
-  private async processResult(result: any, incidentId: string, agentName: string) {
+  private expiryOf(cache: any, ttlSeconds: number): Date {
+    return cache?.expireTime
+      ? new Date(cache.expireTime)
+      : new Date(Date.now() + ttlSeconds * 1000);
+  }
+
+  /**
+   * Drops expired registry rows, and older content for the same key and
+   * model (deleted on the provider too, so it stops being billed).
+   */
+  private async pruneCaches(key: string, model: string, contentHash: string) {
+    try {
+      const stale = await db.contextCache.findMany({
+        where: {
+          OR: [
+            { expiresAt: { lt: new Date() } },
+            { key, model, contentHash: { not: contentHash } },
+          ],
+        },
+      });
+      for (const cache of stale) {
+        if (cache.expiresAt.getTime() > Date.now()) {
+          await this.client.caches.delete({ name: cache.name }).catch(() => {});
+        }
+      }
+      await db.contextCache.deleteMany({ where: { id: { in: stale.map((c) => c.id) } } });
+    } catch (e: any) {
+      console.warn("[GeminiProvider] Cache cleanup failed (ignoring):", e.message);
+    }
+  }
+
+  // A cache the API rejected: forget it so the next incident creates a new one
+  private async invalidateCache(name: string) {
+    this.cachedContents.delete(name);
+    await db.contextCache.deleteMany({ where: { name } }).catch(() => {});
+  }
+
+  private async processResult(
+    result: any,
+    incidentId: string,
+    agentName: string,
+    model: string,
+    startedAt: number,
+  ) {
     // 💡 Access text and reasoning directly from the result
     const finalResponse = result.text;
     const rawThoughts = result.reasoning; // Might be undefined on fallback
 
+    await this.recordUsage({
+      model,
+      operation: "generate",
+      incidentId,
+      agent: agentName,
+      ...usageOf(result),
+      latencyMs: Date.now() - startedAt,
+    });
+
     // Persist to DB
     await db.agentRun.create({
       data: {
@@ -208,17 +352,41 @@ export class GeminiProvider {
     return finalResponse || "";
   }
 
+  private recordUsage(call: Omit<LLMCall, "provider">) {
+    return recordLLMUsage(this.scope, { provider: this.name, ...call });
+  }
+
+  // Gemini's JSON mode: the response is constrained to the schema
+  private jsonMode(responseSchema?: ResponseSchema) {
+    return responseSchema
+      ? { responseMimeType: "application/json", responseJsonSchema: responseSchema }
+      : {};
+  }
+
   // Simple generate without DB logging (for Patch Agent)
-  async generate(prompt: string): Promise<string> {
+  async generate(
+    prompt: string,
+    incidentId?: string,
+    responseSchema?: ResponseSchema,
+  ): Promise<string> {
+    const startedAt = Date.now();
     try {
-      const model = "gemini-3-flash-preview"; // Use stable model for code gen
+      const model = this.models.fast; // Use stable model for code gen
       console.log(`[GeminiProvider] Generating content with: ${model}`);
 
       const result = await this.client.models.generateContent({
         model,
-        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        contents: [{ role: "user", parts: [{ text: await redactPrompt(prompt, incidentId) }] }],
+        config: this.jsonMode(responseSchema),
       });
 
+      await this.recordUsage({
+        model,
+        operation: "generate",
+        incidentId,
+        ...usageOf(result),
+        latencyMs: Date.now() - startedAt,
+      });
       return result.text || "";
     } catch (error: any) {
       console.error("[GeminiProvider] Generate failed:", error);
@@ -227,20 +395,28 @@ export class GeminiProvider {
   }
 
   async getEmbedding(text: string): Promise<number[]> {
+    const startedAt = Date.now();
     try {
       const result = await this.client.models.embedContent({
-        model: "text-embedding-004",
+        model: this.models.embedding,
         contents: [
           {
             parts: [
               {
-                text: text,
+                text: await redactPrompt(text),
               },
             ],
           },
         ],
       });
       if (result.embeddings && result.embeddings.length > 0) {
+        // The embeddings API reports no token counts
+        await this.recordUsage({
+          model: this.models.embedding,
+          operation: "embedding",
+          inputTokens: estimateTokens(text),
+          latencyMs: Date.now() - startedAt,
+        });
         return result.embeddings[0].values;
       }
       throw new Error("No embeddings returned from Gemini API");
@@ -1,4 +1,15 @@
 import type { Octokit } from "@octokit/rest";
+import {
+  DEFAULT_LOG_TAIL_LINES,
+  FailedStepLog,
+  WorkflowAnnotation,
+  WorkflowFailureLogs,
+  extractFailingSection,
+  findStepLog,
+  stepLogTail,
+  unzipWorkflowLogs,
+} from "./WorkflowLogParser.js";
+import { withReplay } from "./Replay.js";
 
 export class GitHubService {
   private octokit!: Octokit;
@@ -116,6 +127,15 @@ export class GitHubService {
         `[GitHub] Committing file to ${owner}/${repo}/${path} on branch ${branch || "default"}...`,
       );
 
+      // Updating an existing file (or re-committing one on a retry) needs its blob sha
+      let sha: string | undefined;
+      try {
+        const { data } = await this.octokit.repos.getContent({ owner, repo, path, ref: branch });
+        if (!Array.isArray(data)) sha = data.sha;
+      } catch (error: any) {
+        if (error.status !== 404) throw error;
+      }
+
       await this.octokit.repos.createOrUpdateFileContents({
         owner,
         repo,
@@ -123,6 +143,7 @@ export class GitHubService {
         message,
         content: Buffer.from(content).toString("base64"),
         branch,
+        sha,
       });
 
       return { success: true, path };
@@ -158,6 +179,21 @@ export class GitHubService {
     }
   }
 
+  /**
+   * Returns the open PR from `head` (a branch of this repo), if there is one.
+   */
+  async findPullRequest(owner: string, repo: string, head: string) {
+    await this.ensureInitialized();
+    const { data } = await this.octokit.pulls.list({
+      owner,
+      repo,
+      head: `${owner}:${head}`,
+      state: "open",
+      per_page: 1,
+    });
+    return data[0] ? { number: data[0].number, url: data[0].html_url } : null;
+  }
+
   async createPullRequest(
     owner: string,
     repo: string,
@@ -184,50 +220,124 @@ export class GitHubService {
   }
 
   /**
-   * Fetches workflow run logs (for RCA analysis)
+   * Fetches the output of the failed steps of a workflow run (for RCA analysis).
+   * Downloads the run log archive, extracts each failing step's log tail and
+   * collects the check run annotations (compiler / test errors with file+line).
    */
-  async getWorkflowLogs(owner: string, repo: string, runId: number): Promise<string> {
+  async getWorkflowLogs(
+    owner: string,
+    repo: string,
+    runId: number,
+    tail: number = DEFAULT_LOG_TAIL_LINES
+  ): Promise<WorkflowFailureLogs> {
     await this.ensureInitialized();
     try {
       console.log(`[GitHub] Fetching logs for run ${runId}...`);
 
-      // Get the download URL for logs
-      const { url } = await this.octokit.actions.downloadWorkflowRunLogs({
-        owner,
-        repo,
-        run_id: runId,
-      });
-
-      // Get job logs which might be more useful
       const { data: jobs } = await this.octokit.actions.listJobsForWorkflowRun({
         owner,
         repo,
         run_id: runId,
+        filter: "latest",
+        per_page: 100,
       });
 
-      // Find failed jobs
-      const failedJobs = jobs.jobs.filter((job: any) => job.conclusion === "failure");
+      // Only the first few failed jobs, matrix builds can fail dozens at once
+      const failedJobs = jobs.jobs.filter((job: any) => job.conclusion === "failure").slice(0, 3);
+      const result: WorkflowFailureLogs = { runId, jobs: [] };
 
       if (failedJobs.length === 0) {
-        return "No failed jobs found in this run.";
+        return result;
+      }
+
+      // The run archive contains one log file per step
+      let archive = new Map<string, string>();
+      try {
+        const { data } = await this.octokit.actions.downloadWorkflowRunLogs({
+          owner,
+          repo,
+          run_id: runId,
+        });
+        archive = unzipWorkflowLogs(data as ArrayBuffer);
+      } catch (error: any) {
+        console.warn(`[GitHub] Could not download log archive for run ${runId}: ${error.message}`);
       }
 
-      // Get logs for first failed job (simplified)
-      const failedJob = failedJobs[0];
-      const failedSteps = failedJob.steps?.filter((s: any) => s.conclusion === "failure") || [];
+      for (const job of failedJobs) {
+        const failedSteps = job.steps?.filter((s: any) => s.conclusion === "failure") || [];
+        const stepLogs: FailedStepLog[] = [];
+        let jobLog: string | undefined;
 
-      const summary = `
-Failed Job: ${failedJob.name}
-Status: ${failedJob.conclusion}
-Failed Steps: ${failedSteps.map((s: any) => s.name).join(", ")}
-Job URL: ${failedJob.html_url}
-Logs URL: ${url}
-      `.trim();
+        for (const step of failedSteps) {
+          const stepLog = findStepLog(archive, job.name, step.number);
+          if (stepLog !== undefined) {
+            stepLogs.push({ name: step.name, number: step.number, logTail: stepLogTail(stepLog, tail) });
+            continue;
+          }
+          // Archives without per-step files: cut the failing step out of the job log
+          jobLog ??= await this.getJobLog(owner, repo, job.id);
+          stepLogs.push({ name: step.name, number: step.number, logTail: extractFailingSection(jobLog, tail) });
+        }
 
-      return summary;
+        if (stepLogs.length === 0) {
+          jobLog ??= await this.getJobLog(owner, repo, job.id);
+          stepLogs.push({ name: job.name, logTail: extractFailingSection(jobLog, tail) });
+        }
+
+        result.jobs.push({
+          id: job.id,
+          name: job.name,
+          url: job.html_url || undefined,
+          failedSteps: stepLogs,
+          annotations: await this.getJobAnnotations(owner, repo, job.id),
+        });
+      }
+
+      return result;
     } catch (error: any) {
       console.error(`[GitHub] Failed to fetch workflow logs: ${error.message}`);
-      return `Error fetching logs: ${error.message}`;
+      throw error;
+    }
+  }
+
+  /**
+   * Downloads the plain-text log of a single job.
+   */
+  private async getJobLog(owner: string, repo: string, jobId: number): Promise<string> {
+    try {
+      const { data } = await this.octokit.actions.downloadJobLogsForWorkflowRun({
+        owner,
+        repo,
+        job_id: jobId,
+      });
+      return typeof data === "string" ? data : Buffer.from(data as ArrayBuffer).toString("utf-8");
+    } catch (error: any) {
+      console.warn(`[GitHub] Could not download logs for job ${jobId}: ${error.message}`);
+      return "";
+    }
+  }
+
+  /**
+   * Lists annotations of a job (a job's id is also its check run id).
+   */
+  private async getJobAnnotations(owner: string, repo: string, jobId: number): Promise<WorkflowAnnotation[]> {
+    try {
+      const { data } = await this.octokit.checks.listAnnotations({
+        owner,
+        repo,
+        check_run_id: jobId,
+        per_page: 50,
+      });
+      return data.map((a: any) => ({
+        level: a.annotation_level || "failure",
+        message: a.message || "",
+        title: a.title || undefined,
+        path: a.path && a.path !== ".github" ? a.path : undefined,
+        startLine: a.start_line || undefined,
+      }));
+    } catch (error: any) {
+      console.warn(`[GitHub] Could not list annotations for job ${jobId}: ${error.message}`);
+      return [];
     }
   }
 
@@ -250,3 +360,10 @@ Logs URL: ${url}
     }
   }
 }
+
+/**
+ * A GitHubService, recorded or replayed under a replay session.
+ */
+export function createGitHubService(authToken: string): GitHubService {
+  return withReplay("github", () => new GitHubService(authToken));
+}
@@ -0,0 +1,115 @@
+import { db, IncidentStatus } from "../db.js";
+
+export type StatusTransition = {
+  from: IncidentStatus | null;
+  to: IncidentStatus;
+  at: string;
+  reason?: string;
+  // "system" for the workflow, otherwise the user (e.g. Slack user) who caused it
+  actor?: string;
+};
+
+/**
+ * Allowed incident status transitions. Any in-flight state may also go to FAILED.
+ */
+export const INCIDENT_TRANSITIONS: Record<IncidentStatus, IncidentStatus[]> = {
+  OPEN: ["RCA_IN_PROGRESS", "WONT_FIX", "CLOSED"],
+  // WONT_FIX mid-workflow: the remediation policy says RCA only / ignore
+  RCA_IN_PROGRESS: ["PATCH_IN_PROGRESS", "WONT_FIX"],
+  PATCH_IN_PROGRESS: ["AWAITING_APPROVAL", "VERIFY_IN_PROGRESS", "WONT_FIX"],
+  AWAITING_APPROVAL: ["VERIFY_IN_PROGRESS", "REJECTED", "WONT_FIX"],
+  // AWAITING_APPROVAL: a self-healing re-patch tripped the patch guard
+  VERIFY_IN_PROGRESS: ["PR_CREATION_IN_PROGRESS", "AWAITING_APPROVAL"],
+  PR_CREATION_IN_PROGRESS: ["RESOLVED"],
+  // Failed or rejected incidents can be re-run from RCA
+  FAILED: ["RCA_IN_PROGRESS", "WONT_FIX", "CLOSED"],
+  REJECTED: ["RCA_IN_PROGRESS", "CLOSED"],
+  WONT_FIX: ["CLOSED"],
+  RESOLVED: ["CLOSED"],
+  CLOSED: [],
+};
+
+// Workflow finished: nothing left to run for these
+export const TERMINAL_INCIDENT_STATUSES: IncidentStatus[] = [
+  "RESOLVED",
+  "FAILED",
+  "REJECTED",
+  "WONT_FIX",
+  "CLOSED",
+];
+
+// Closed without a fix being shipped; counted apart from RESOLVED in analytics
+export const NOT_FIXED_INCIDENT_STATUSES: IncidentStatus[] = ["REJECTED", "WONT_FIX"];
+
+const IN_FLIGHT_STATUSES: IncidentStatus[] = [
+  "OPEN",
+  "RCA_IN_PROGRESS",
+  "PATCH_IN_PROGRESS",
+  "AWAITING_APPROVAL",
+  "VERIFY_IN_PROGRESS",
+  "PR_CREATION_IN_PROGRESS",
+];
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(
+    public from: IncidentStatus,
+    public to: IncidentStatus,
+  ) {
+    super(`Invalid incident status transition: ${from} -> ${to}`);
+    this.name = "InvalidStatusTransitionError";
+  }
+}
+
+export function isIncidentStatus(value: unknown): value is IncidentStatus {
+  return typeof value === "string" && value in INCIDENT_TRANSITIONS;
+}
+
+export function canTransition(from: IncidentStatus, to: IncidentStatus): boolean {
+  if (to === "FAILED" && IN_FLIGHT_STATUSES.includes(from)) return true;
+  return INCIDENT_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Moves an incident to a new status and appends the transition to `statusHistory`.
+ * Setting the current status again is a no-op (steps may be retried).
+ *
+ * @throws InvalidStatusTransitionError if the transition table doesn't allow it
+ */
+export async function transitionIncident(
+  incidentId: string,
+  to: IncidentStatus,
+  options: { reason?: string; actor?: string; metadata?: any } = {},
+) {
+  return db.$transaction(async (tx) => {
+    const incident = await tx.incident.findUniqueOrThrow({
+      where: { id: incidentId },
+      select: { status: true, statusHistory: true },
+    });
+
+    if (incident.status === to && options.metadata === undefined) return incident;
+    if (incident.status !== to && !canTransition(incident.status, to)) {
+      throw new InvalidStatusTransitionError(incident.status, to);
+    }
+
+    const history = Array.isArray(incident.statusHistory)
+      ? (incident.statusHistory as StatusTransition[])
+      : [];
+    const entry: StatusTransition = {
+      from: incident.status,
+      to,
+      at: new Date().toISOString(),
+      reason: options.reason,
+      actor: options.actor || "system",
+    };
+
+    return tx.incident.update({
+      where: { id: incidentId },
+      data: {
+        status: to,
+        statusHistory: incident.status === to ? undefined : ([...history, entry] as any),
+        metadata: options.metadata,
+      },
+      select: { status: true, statusHistory: true },
+    });
+  });
+}
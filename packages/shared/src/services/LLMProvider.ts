@@ -0,0 +1,224 @@
+import { z } from "zod";
+import { db } from "../db.js";
+import { GeminiProvider } from "./GeminiProvider.js";
+import { OpenAICompatibleProvider } from "./OpenAICompatibleProvider.js";
+import { OllamaProvider } from "./OllamaProvider.js";
+import { SecretsManagerService } from "./SecretsManagerService.js";
+import { withReplay } from "./Replay.js";
+import type { LLMUsageScope } from "./LLMUsage.js";
+
+// "fake" is FakeLLMProvider, which tests construct directly
+export type LLMBackend = "gemini" | "openai" | "ollama" | "fake";
+
+// Backends a project or the server can select
+export const LLM_BACKENDS: LLMBackend[] = ["gemini", "openai", "ollama"];
+
+// Agents ask for a kind of model, the provider maps it to a model name
+export type ModelTier = "fast" | "reasoning";
+
+// Agents whose model can be chosen per project
+export type LLMAgentName = "rca" | "patch" | "triage";
+
+export const LLM_AGENTS: LLMAgentName[] = ["rca", "patch", "triage"];
+
+// JSON Schema for structured output (see StructuredOutput.toJsonSchema)
+export type ResponseSchema = Record<string, any>;
+
+/**
+ * A chat model backend. Prompts are redacted (see SecretScanner) by every
+ * implementation before they are sent. With a response schema the backend's
+ * JSON mode is used; callers still validate the result.
+ */
+export interface LLMProvider {
+  name: LLMBackend;
+  generate(prompt: string, incidentId?: string, responseSchema?: ResponseSchema): Promise<string>;
+  /**
+   * Generates with the reasoning trace recorded as an AgentRun on the incident.
+   */
+  generateWithReasoning(
+    prompt: string,
+    incidentId: string,
+    agentName: string,
+    images?: string[], // base64 strings (data:image/png;base64,...)
+    cachedContentName?: string,
+    tier?: ModelTier,
+    responseSchema?: ResponseSchema,
+  ): Promise<string>;
+  getEmbedding(text: string): Promise<number[]>;
+  /**
+   * Caches a large context for the model of `tier` (pass the tier the
+   * generation will use) and returns its name, or "" when the backend can't:
+   * callers then send the context inline.
+   */
+  cacheContext(
+    key: string,
+    content: string,
+    ttlSeconds?: number,
+    incidentId?: string,
+    tier?: ModelTier,
+  ): Promise<string>;
+}
+
+const normalizeBaseUrl = (url: string) => url.trim().replace(/\/+$/, "");
+
+/**
+ * Endpoints a project may point at: LLM_ALLOWED_BASE_URLS (comma-separated)
+ * plus the server's own LLM_BASE_URL and OLLAMA_BASE_URL. Anything else would
+ * let a project make the server post prompts (and repo code) to any host.
+ */
+export function allowedLLMBaseUrls(): string[] {
+  return [
+    ...(process.env.LLM_ALLOWED_BASE_URLS || "").split(","),
+    process.env.LLM_BASE_URL || "",
+    process.env.OLLAMA_BASE_URL || "",
+  ]
+    .map(normalizeBaseUrl)
+    .filter(Boolean);
+}
+
+export function isAllowedLLMBaseUrl(url: string): boolean {
+  return allowedLLMBaseUrls().includes(normalizeBaseUrl(url));
+}
+
+const ModelsSchema = z.object({
+  fast: z.string().trim().min(1).optional(),
+  reasoning: z.string().trim().min(1).optional(),
+  embedding: z.string().trim().min(1).optional(),
+});
+
+/**
+ * Backend, endpoint and model names. Unset fields use the backend defaults.
+ */
+export const LLMSelectionSchema = z.object({
+  backend: z.enum(LLM_BACKENDS as [LLMBackend, ...LLMBackend[]]).optional(),
+  // OpenAI-compatible / Ollama / llama.cpp server, e.g. http://localhost:11434/v1
+  baseUrl: z
+    .string()
+    .url()
+    .refine(isAllowedLLMBaseUrl, "endpoint is not allowed on this server (LLM_ALLOWED_BASE_URLS)")
+    .optional(),
+  models: ModelsSchema.default({}),
+});
+
+/**
+ * Per-project model settings, stored on `Project.llmConfig`. `agents` overrides
+ * the project selection for single agents (e.g. a bigger model for RCA only).
+ */
+export const LLMConfigSchema = LLMSelectionSchema.extend({
+  agents: z
+    .record(z.enum(LLM_AGENTS as [LLMAgentName, ...LLMAgentName[]]), LLMSelectionSchema)
+    .default({}),
+});
+
+export type LLMSelection = z.infer<typeof LLMSelectionSchema>;
+export type LLMConfig = z.infer<typeof LLMConfigSchema>;
+
+/**
+ * Reads a stored config; missing or invalid configs fall back to the server default.
+ */
+export function parseLLMConfig(value: unknown): LLMConfig | null {
+  if (!value) return null;
+  const parsed = LLMConfigSchema.safeParse(value);
+  if (!parsed.success) {
+    console.warn("[LLM] Invalid LLM config, using server default:", parsed.error.message);
+    return null;
+  }
+  return parsed.data;
+}
+
+/**
+ * Server-wide selection from the environment (LLM_PROVIDER, LLM_BASE_URL,
+ * LLM_MODEL_FAST, LLM_MODEL_REASONING, LLM_MODEL_EMBEDDING).
+ */
+export function defaultLLMSelection(): LLMSelection {
+  return {
+    backend: (process.env.LLM_PROVIDER as LLMBackend) || "gemini",
+    baseUrl: process.env.LLM_BASE_URL || undefined,
+    models: {
+      fast: process.env.LLM_MODEL_FAST || undefined,
+      reasoning: process.env.LLM_MODEL_REASONING || undefined,
+      embedding: process.env.LLM_MODEL_EMBEDDING || undefined,
+    },
+  };
+}
+
+/**
+ * Builds a provider. Falls back to the server default for anything not set.
+ * `apiKey` overrides the key from the environment; `scope` is who the calls
+ * are billed to (see LLMUsage). Recorded or replayed under a replay session.
+ */
+export function createLLMProvider(
+  selection: LLMSelection = { models: {} },
+  apiKey?: string,
+  scope: LLMUsageScope = {},
+): LLMProvider {
+  const base = defaultLLMSelection();
+  const backend = selection.backend || base.backend || "gemini";
+  // Endpoint and models only carry over from the default for the same backend
+  const inherited = backend === base.backend ? base : { models: {} };
+  const baseUrl = selection.baseUrl || inherited.baseUrl;
+  const models = { ...inherited.models, ...selection.models };
+
+  return withReplay<LLMProvider>("llm", () => {
+    switch (backend) {
+      case "openai":
+        return new OpenAICompatibleProvider({
+          baseUrl,
+          apiKey: apiKey ?? process.env.OPENAI_API_KEY,
+          models,
+          scope,
+        });
+      case "ollama":
+        return new OllamaProvider({ baseUrl, apiKey, models, scope });
+      case "gemini":
+        return new GeminiProvider(apiKey || process.env.GEMINI_API_KEY || "", models, scope);
+      default:
+        console.warn(`[LLM] Unknown backend "${backend}". Falling back to Gemini.`);
+        return new GeminiProvider(process.env.GEMINI_API_KEY || "", models, scope);
+    }
+  });
+}
+
+// Created on first use: the client logs on construction
+let secretsManager: SecretsManagerService | undefined;
+
+/**
+ * The provider an agent uses for a project: the agent override, else the
+ * project selection, else the server default.
+ */
+export async function resolveLLMProvider(
+  projectId: string | undefined,
+  agent: LLMAgentName,
+): Promise<LLMProvider> {
+  const scope = { projectId, agent };
+  if (!projectId) return createLLMProvider(undefined, undefined, scope);
+
+  let config: LLMConfig | null = null;
+  try {
+    const project = await db.project.findUnique({
+      where: { id: projectId },
+      select: { llmConfig: true },
+    });
+    config = parseLLMConfig(project?.llmConfig);
+  } catch (e) {
+    console.warn(`[LLM] Failed to load config for project ${projectId}:`, e);
+  }
+  if (!config) return createLLMProvider(undefined, undefined, scope);
+
+  const override = config.agents[agent];
+  const selection: LLMSelection = {
+    backend: override?.backend || config.backend,
+    baseUrl: override?.baseUrl || config.baseUrl,
+    models: { ...config.models, ...override?.models },
+  };
+
+  // A project endpoint gets the project's own key, never the server's
+  let apiKey: string | undefined;
+  if (selection.baseUrl && selection.baseUrl !== process.env.LLM_BASE_URL) {
+    secretsManager ??= new SecretsManagerService();
+    apiKey = (await secretsManager.getLLMApiKey(projectId)) || "";
+  }
+
+  console.log(`[LLM] ${agent} uses ${selection.backend || "default"} for project ${projectId}`);
+  return createLLMProvider(selection, apiKey, scope);
+}
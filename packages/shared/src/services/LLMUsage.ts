@@ -0,0 +1,165 @@
+import { db } from "../db.js";
+
+/**
+ * Who a provider bills its calls to. Set by resolveLLMProvider() for project
+ * agents; server-wide callers (memory, onboarding) only name the agent.
+ */
+export type LLMUsageScope = {
+  projectId?: string;
+  agent?: string; // rca | patch | triage | memory | pipeline
+};
+
+export type LLMCall = {
+  provider: string;
+  model: string;
+  operation: "generate" | "embedding" | "cache";
+  incidentId?: string;
+  // Used when the scope names no agent (generateWithReasoning passes its own)
+  agent?: string;
+  inputTokens?: number;
+  outputTokens?: number; // Excluding thinking tokens
+  thinkingTokens?: number;
+  cachedTokens?: number;
+  latencyMs: number;
+};
+
+type ModelPrice = {
+  input: number;
+  output: number; // Thinking tokens are billed as output
+  cachedInput?: number;
+};
+
+/**
+ * List prices in USD per 1M tokens, matched on the longest model name prefix.
+ * Set LLM_PRICING (same JSON shape) to add models or use negotiated prices.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gemini-3-pro": { input: 2, output: 12, cachedInput: 0.2 },
+  "gemini-3-flash": { input: 0.5, output: 3, cachedInput: 0.05 },
+  "gemini-2.5-pro": { input: 1.25, output: 10, cachedInput: 0.125 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5, cachedInput: 0.03 },
+  "text-embedding-004": { input: 0, output: 0 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  "gpt-4o": { input: 2.5, output: 10, cachedInput: 1.25 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  "gpt-4.1": { input: 2, output: 8, cachedInput: 0.5 },
+  "o4-mini": { input: 1.1, output: 4.4, cachedInput: 0.275 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+};
+
+// Self-hosted and test backends cost nothing per token
+const FREE_PROVIDERS = ["ollama", "fake"];
+
+let customPrices: Record<string, ModelPrice> | undefined;
+const unpricedModels = new Set<string>();
+
+function prices(): Record<string, ModelPrice> {
+  if (customPrices === undefined) {
+    customPrices = {};
+    if (process.env.LLM_PRICING) {
+      try {
+        customPrices = JSON.parse(process.env.LLM_PRICING);
+      } catch (e) {
+        console.warn("[LLMUsage] LLM_PRICING is not valid JSON, using list prices:", e);
+      }
+    }
+  }
+  return { ...MODEL_PRICES, ...customPrices };
+}
+
+export function modelPrice(model: string): ModelPrice | undefined {
+  const name = model.replace(/^models\//, "");
+  const match = Object.keys(prices())
+    .filter((prefix) => name.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices()[match] : undefined;
+}
+
+/**
+ * Estimated cost of a call in USD. Unknown models count as free (logged once).
+ */
+export function estimateCost(call: LLMCall): number {
+  if (FREE_PROVIDERS.includes(call.provider)) return 0;
+  const price = modelPrice(call.model);
+  if (!price) {
+    if (!unpricedModels.has(call.model)) {
+      unpricedModels.add(call.model);
+      console.warn(`[LLMUsage] No price for ${call.model}; its calls are recorded at $0`);
+    }
+    return 0;
+  }
+
+  const cached = call.cachedTokens || 0;
+  const uncached = Math.max((call.inputTokens || 0) - cached, 0);
+  const output = (call.outputTokens || 0) + (call.thinkingTokens || 0);
+  return (
+    (uncached * price.input + cached * (price.cachedInput ?? price.input) + output * price.output) /
+    1_000_000
+  );
+}
+
+// Roughly 4 characters per token, for APIs that don't report usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Stores a call with its estimated cost. Never throws: accounting must not
+ * fail the agent that made the call.
+ */
+export async function recordLLMUsage(scope: LLMUsageScope, call: LLMCall): Promise<void> {
+  try {
+    let projectId = scope.projectId;
+    if (!projectId && call.incidentId) {
+      const incident = await db.incident.findUnique({
+        where: { id: call.incidentId },
+        select: { metadata: true },
+      });
+      projectId = (incident?.metadata as any)?.projectId;
+    }
+
+    await db.llmUsage.create({
+      data: {
+        incidentId: call.incidentId,
+        projectId: projectId || null,
+        agent: scope.agent || call.agent,
+        provider: call.provider,
+        model: call.model,
+        operation: call.operation,
+        inputTokens: call.inputTokens || 0,
+        outputTokens: call.outputTokens || 0,
+        thinkingTokens: call.thinkingTokens || 0,
+        cachedTokens: call.cachedTokens || 0,
+        latencyMs: Math.round(call.latencyMs),
+        costUsd: estimateCost(call),
+      },
+    });
+  } catch (e) {
+    console.warn("[LLMUsage] Failed to record usage:", e);
+  }
+}
+
+// Budgets are per calendar month (UTC)
+export function startOfMonth(date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+export type LLMBudgetStatus = {
+  budgetUsd: number | null; // null = no limit
+  spentUsd: number; // This month
+  exceeded: boolean;
+};
+
+export async function getLLMBudgetStatus(projectId: string): Promise<LLMBudgetStatus> {
+  const [project, spent] = await Promise.all([
+    db.project.findUnique({ where: { id: projectId }, select: { llmBudgetUsd: true } }),
+    db.llmUsage.aggregate({
+      where: { projectId, createdAt: { gte: startOfMonth() } },
+      _sum: { costUsd: true },
+    }),
+  ]);
+  const budgetUsd = project?.llmBudgetUsd ?? null;
+  const spentUsd = spent._sum.costUsd || 0;
+  return { budgetUsd, spentUsd, exceeded: budgetUsd !== null && spentUsd >= budgetUsd };
+}
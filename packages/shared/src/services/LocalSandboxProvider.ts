@@ -0,0 +1,215 @@
+import { spawn } from "child_process";
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type {
+  SandboxCommandOptions,
+  SandboxCommandResult,
+  SandboxProvider,
+  SandboxSession,
+} from "./SandboxProvider.js";
+
+// Host variables the sandboxed commands need to find their toolchains. Nothing
+// else from the API's environment (database, API keys, AWS) is passed on.
+const HOST_ENV_ALLOWLIST = ["PATH", "LANG", "LC_ALL", "TZ"];
+
+/**
+ * Spawns a process and collects its output. Never rejects on non-zero exit.
+ */
+function exec(
+  command: string,
+  args: string[],
+  options: SandboxCommandOptions & {
+    cwd?: string;
+    env?: NodeJS.ProcessEnv;
+    input?: string;
+  } = {},
+): Promise<SandboxCommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { cwd: options.cwd, env: options.env });
+    let stdout = "";
+    let stderr = "";
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      const text = chunk.toString();
+      stdout += text;
+      options.onStdout?.(text);
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      const text = chunk.toString();
+      stderr += text;
+      options.onStderr?.(text);
+    });
+
+    let timedOut = false;
+    const timer = options.timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          child.kill("SIGKILL");
+        }, options.timeoutMs)
+      : undefined;
+
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (timedOut) {
+        // Same exit code as coreutils `timeout`
+        resolve({
+          exitCode: 124,
+          stdout,
+          stderr: `${stderr}\nCommand timed out after ${options.timeoutMs}ms`,
+        });
+        return;
+      }
+      resolve({ exitCode: code ?? 1, stdout, stderr });
+    });
+
+    if (options.input !== undefined) {
+      child.stdin.write(options.input);
+    }
+    child.stdin.end();
+  });
+}
+
+/**
+ * Docker env file: one KEY=VALUE per line. Docker can't express multi-line
+ * values there, so those are skipped.
+ */
+function toEnvFile(envs: Record<string, string>): string {
+  return Object.entries(envs)
+    .filter(([key, value]) => {
+      if (!/[\r\n]/.test(value)) return true;
+      console.warn(`[Sandbox] Skipping env var ${key}: multi-line values are not supported`);
+      return false;
+    })
+    .map(([key, value]) => `${key}=${value}\n`)
+    .join("");
+}
+
+/**
+ * Runs commands directly on the host inside a throwaway temp directory.
+ * Intended for self-hosted runners that already provide the toolchains.
+ */
+class ProcessSandboxSession implements SandboxSession {
+  id: string;
+  repoDir: string;
+
+  constructor(
+    private rootDir: string,
+    private envs: Record<string, string>,
+  ) {
+    this.id = `local-${path.basename(rootDir)}`;
+    this.repoDir = path.join(rootDir, "repo");
+  }
+
+  run(command: string, options: SandboxCommandOptions = {}) {
+    const hostEnv = Object.fromEntries(
+      HOST_ENV_ALLOWLIST.filter((key) => process.env[key]).map((key) => [key, process.env[key]]),
+    );
+    return exec("bash", ["-c", command], {
+      ...options,
+      cwd: this.rootDir,
+      // HOME in the sandbox dir: keeps ~/.aws, ~/.npmrc etc. of the host out of reach
+      env: { ...hostEnv, HOME: this.rootDir, ...this.envs },
+    });
+  }
+
+  async writeFile(filePath: string, content: string) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  async close() {
+    await fs.rm(this.rootDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Runs commands in a disposable Docker container (`docker exec`).
+ */
+class DockerSandboxSession implements SandboxSession {
+  repoDir = "/workspace/repo";
+
+  constructor(public id: string) {}
+
+  run(command: string, options: SandboxCommandOptions = {}) {
+    return exec("docker", ["exec", this.id, "bash", "-c", command], options);
+  }
+
+  async writeFile(filePath: string, content: string) {
+    // The path (from a model-generated patch) is passed as $1, never spliced into the script
+    const result = await exec(
+      "docker",
+      [
+        "exec",
+        "-i",
+        this.id,
+        "sh",
+        "-c",
+        'mkdir -p "$(dirname "$1")" && cat > "$1"',
+        "sh",
+        filePath,
+      ],
+      { input: content },
+    );
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to write ${filePath}: ${result.stderr}`);
+    }
+  }
+
+  async close() {
+    await exec("docker", ["rm", "-f", this.id]);
+  }
+}
+
+/**
+ * Sandbox backend for air-gapped CI and self-hosted runners.
+ *
+ * - "docker": one container per verification (image from SANDBOX_DOCKER_IMAGE)
+ * - "local": a temp directory on the API host
+ */
+export class LocalSandboxProvider implements SandboxProvider {
+  constructor(public name: "docker" | "local") {}
+
+  async create(envs: Record<string, string> = {}): Promise<SandboxSession> {
+    if (this.name === "local") {
+      const rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-sandbox-"));
+      return new ProcessSandboxSession(rootDir, envs);
+    }
+
+    const image = process.env.SANDBOX_DOCKER_IMAGE || "node:22-bookworm";
+    const name = `guardian-sandbox-${randomUUID().substring(0, 8)}`;
+
+    // Secrets go through a private env file: `-e KEY=VALUE` would show them in `ps`
+    const envDir = await fs.mkdtemp(path.join(os.tmpdir(), "guardian-env-"));
+    const envFile = path.join(envDir, "env");
+    let started: SandboxCommandResult;
+    try {
+      await fs.writeFile(envFile, toEnvFile(envs), { mode: 0o600 });
+      started = await exec("docker", [
+        "run",
+        "-d",
+        "--rm",
+        "--name",
+        name,
+        "--env-file",
+        envFile,
+        image,
+        "sleep",
+        "infinity",
+      ]);
+    } finally {
+      await fs.rm(envDir, { recursive: true, force: true });
+    }
+    if (started.exitCode !== 0) {
+      throw new Error(`Failed to start Docker sandbox (${image}): ${started.stderr}`);
+    }
+
+    await exec("docker", ["exec", name, "mkdir", "-p", "/workspace"]);
+    return new DockerSandboxSession(name);
+  }
+}
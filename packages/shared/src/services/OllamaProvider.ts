@@ -0,0 +1,24 @@
+import type { LLMBackend } from "./LLMProvider.js";
+import { OpenAICompatibleProvider, OpenAICompatibleOptions } from "./OpenAICompatibleProvider.js";
+
+/**
+ * A self-hosted model server: Ollama (default) or llama.cpp's `llama-server`
+ * (set the base URL to http://host:8080/v1). Both speak the OpenAI API, and
+ * no API key is needed unless the server sits behind a proxy that wants one.
+ */
+export class OllamaProvider extends OpenAICompatibleProvider {
+  name: LLMBackend = "ollama";
+
+  constructor(options: OpenAICompatibleOptions = {}) {
+    super({
+      baseUrl: options.baseUrl || process.env.OLLAMA_BASE_URL || "http://localhost:11434/v1",
+      apiKey: options.apiKey,
+      scope: options.scope,
+      models: {
+        fast: options.models?.fast || "llama3.1",
+        reasoning: options.models?.reasoning || options.models?.fast || "llama3.1",
+        embedding: options.models?.embedding || "nomic-embed-text",
+      },
+    });
+  }
+}
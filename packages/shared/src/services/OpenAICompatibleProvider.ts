@@ -0,0 +1,221 @@
+import { db } from "../db.js";
+import { AgentStatus } from "../index.js";
+import type { LLMBackend, LLMProvider, ModelTier, ResponseSchema } from "./LLMProvider.js";
+import { redactPrompt } from "./SecretScanner.js";
+import { LLMCall, LLMUsageScope, recordLLMUsage } from "./LLMUsage.js";
+
+export type OpenAICompatibleOptions = {
+  baseUrl?: string;
+  apiKey?: string;
+  models?: { fast?: string; reasoning?: string; embedding?: string };
+  scope?: LLMUsageScope;
+};
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, Azure,
+ * vLLM, LM Studio, llama.cpp's server, Ollama's /v1 endpoint...
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  name: LLMBackend = "openai";
+  protected baseUrl: string;
+  protected apiKey?: string;
+  protected models: { fast: string; reasoning: string; embedding: string };
+  protected scope: LLMUsageScope;
+
+  constructor(options: OpenAICompatibleOptions = {}) {
+    this.baseUrl = (options.baseUrl || "https://api.openai.com/v1").replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.models = {
+      fast: options.models?.fast || "gpt-4o-mini",
+      reasoning: options.models?.reasoning || options.models?.fast || "gpt-4o",
+      embedding: options.models?.embedding || "text-embedding-3-small",
+    };
+    this.scope = options.scope || {};
+  }
+
+  protected recordUsage(call: Omit<LLMCall, "provider">) {
+    return recordLLMUsage(this.scope, { provider: this.name, ...call });
+  }
+
+  protected async post(path: string, body: any): Promise<any> {
+    const res = await fetch(`${this.baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      // The body stays in the server log: error messages end up on the dashboard
+      console.error(
+        `[LLM] ${this.name} ${path} returned ${res.status}:`,
+        (await res.text()).substring(0, 500),
+      );
+      const error: any = new Error(`${this.name} ${path} failed with HTTP ${res.status}`);
+      error.status = res.status;
+      throw error;
+    }
+    return res.json();
+  }
+
+  // One retry on rate limits, like the Gemini provider
+  protected async chat(
+    model: string,
+    content: any,
+    responseSchema?: ResponseSchema,
+  ): Promise<{ text: string; reasoning?: string; usage: Partial<LLMCall> }> {
+    const request = () =>
+      this.post("/chat/completions", {
+        model,
+        messages: [{ role: "user", content }],
+        // Structured outputs; Ollama and llama.cpp accept the same field
+        ...(responseSchema
+          ? {
+              response_format: {
+                type: "json_schema",
+                json_schema: { name: "response", schema: responseSchema },
+              },
+            }
+          : {}),
+      });
+
+    let result;
+    try {
+      result = await request();
+    } catch (err: any) {
+      if (err.status !== 429) throw err;
+      console.warn(`[LLM] ${this.name} rate limit hit. Waiting 5s...`);
+      await new Promise((r) => setTimeout(r, 5000));
+      result = await request();
+    }
+
+    const message = result.choices?.[0]?.message || {};
+    // completion_tokens includes the reasoning tokens
+    const thinkingTokens = result.usage?.completion_tokens_details?.reasoning_tokens || 0;
+    return {
+      text: message.content || "",
+      // llama.cpp / DeepSeek style reasoning, or Ollama's "thinking" field
+      reasoning: message.reasoning_content || message.reasoning || undefined,
+      usage: {
+        inputTokens: result.usage?.prompt_tokens,
+        outputTokens: Math.max((result.usage?.completion_tokens || 0) - thinkingTokens, 0),
+        thinkingTokens,
+        cachedTokens: result.usage?.prompt_tokens_details?.cached_tokens,
+      },
+    };
+  }
+
+  async generate(
+    prompt: string,
+    incidentId?: string,
+    responseSchema?: ResponseSchema,
+  ): Promise<string> {
+    const startedAt = Date.now();
+    try {
+      console.log(`[LLM] Generating content with: ${this.name}/${this.models.fast}`);
+      const { text, usage } = await this.chat(
+        this.models.fast,
+        await redactPrompt(prompt, incidentId),
+        responseSchema,
+      );
+      await this.recordUsage({
+        model: this.models.fast,
+        operation: "generate",
+        incidentId,
+        ...usage,
+        latencyMs: Date.now() - startedAt,
+      });
+      return text;
+    } catch (error: any) {
+      console.error(`[LLM] ${this.name} generate failed:`, error);
+      throw error;
+    }
+  }
+
+  async generateWithReasoning(
+    prompt: string,
+    incidentId: string,
+    agentName: string,
+    images: string[] = [],
+    _cachedContentName?: string, // No server-side caching: context is inline
+    tier: ModelTier = "fast",
+    responseSchema?: ResponseSchema,
+  ): Promise<string> {
+    const model = this.models[tier];
+    const startedAt = Date.now();
+    try {
+      console.log(`[LLM] Attempting model: ${this.name}/${model}`);
+      const redacted = await redactPrompt(prompt, incidentId);
+      // Multimodal content parts only when there are images; plain text otherwise
+      const content =
+        images.length > 0
+          ? [
+              { type: "text", text: redacted },
+              ...images.map((img) => ({
+                type: "image_url",
+                image_url: { url: img.startsWith("data:") ? img : `data:image/png;base64,${img}` },
+              })),
+            ]
+          : redacted;
+      const { text, reasoning, usage } = await this.chat(model, content, responseSchema);
+      await this.recordUsage({
+        model,
+        operation: "generate",
+        incidentId,
+        agent: agentName,
+        ...usage,
+        latencyMs: Date.now() - startedAt,
+      });
+
+      await db.agentRun.create({
+        data: {
+          incidentId,
+          agentName,
+          status: AgentStatus.COMPLETED,
+          thoughts: reasoning || `No reasoning trace (${this.name}/${model}).`,
+          output: { text: text || "No text generated" },
+        },
+      });
+      return text;
+    } catch (error: any) {
+      console.error(`[LLM] ${this.name} failed:`, error);
+      await db.agentRun.create({
+        data: {
+          incidentId,
+          agentName,
+          status: AgentStatus.FAILED,
+          thoughts: `Error: ${error.message}`,
+          output: { error: error.message, stack: error.stack },
+        },
+      });
+      throw error;
+    }
+  }
+
+  async getEmbedding(text: string): Promise<number[]> {
+    const startedAt = Date.now();
+    try {
+      const result = await this.post("/embeddings", {
+        model: this.models.embedding,
+        input: await redactPrompt(text),
+      });
+      const embedding = result.data?.[0]?.embedding;
+      if (!embedding) throw new Error(`No embeddings returned from ${this.name}`);
+      await this.recordUsage({
+        model: this.models.embedding,
+        operation: "embedding",
+        inputTokens: result.usage?.prompt_tokens,
+        latencyMs: Date.now() - startedAt,
+      });
+      return embedding;
+    } catch (error) {
+      console.error(`[LLM] ${this.name} embedding failed:`, error);
+      throw error;
+    }
+  }
+
+  async cacheContext(): Promise<string> {
+    return "";
+  }
+}
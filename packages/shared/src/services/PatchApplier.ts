@@ -0,0 +1,153 @@
+import { applyPatch, createTwoFilesPatch, FILE_HEADERS_ONLY } from "diff";
+
+/**
+ * A single search/replace hunk. `search` must match the original file exactly once.
+ */
+export type SearchReplaceEdit = {
+  search: string;
+  replace: string;
+};
+
+/**
+ * One file in a patch proposal. Exactly one of `edits`, `diff` or `content` is used:
+ * - `edits`: search/replace hunks against the current file
+ * - `diff`: a unified diff against the current file
+ * - `content`: full content, only accepted for NEW files
+ */
+export type FileChange = {
+  path: string;
+  edits?: SearchReplaceEdit[];
+  diff?: string;
+  content?: string;
+};
+
+export type AppliedFileChange = {
+  path: string;
+  // Full patched content (what gets committed / written into the sandbox)
+  content: string;
+  diff: string;
+  isNew: boolean;
+  linesAdded: number;
+  linesRemoved: number;
+};
+
+export class PatchApplyError extends Error {
+  constructor(
+    public path: string,
+    message: string,
+  ) {
+    super(`${path}: ${message}`);
+    this.name = "PatchApplyError";
+  }
+}
+
+// Hunks are matched and diffed with LF line endings; patched files keep their own
+const normalizeNewlines = (text: string) => text.replace(/\r\n/g, "\n");
+
+const lineEnding = (text: string) => text.match(/\r?\n/)?.[0] ?? "\n";
+
+const restoreNewlines = (text: string, eol: string) =>
+  eol === "\n" ? text : text.replace(/\n/g, eol);
+
+/**
+ * Applies search/replace hunks in order. Each hunk must match exactly once,
+ * otherwise the whole file is rejected.
+ */
+export function applySearchReplace(
+  path: string,
+  original: string,
+  edits: SearchReplaceEdit[],
+): string {
+  let result = normalizeNewlines(original);
+
+  edits.forEach((edit, index) => {
+    const search = normalizeNewlines(edit.search || "");
+    const replace = normalizeNewlines(edit.replace || "");
+
+    if (!search) {
+      throw new PatchApplyError(path, `hunk #${index + 1} has an empty search block`);
+    }
+
+    const first = result.indexOf(search);
+    if (first === -1) {
+      throw new PatchApplyError(path, `hunk #${index + 1} does not match the current file`);
+    }
+    if (result.indexOf(search, first + 1) !== -1) {
+      throw new PatchApplyError(
+        path,
+        `hunk #${index + 1} matches more than once; include more surrounding lines`,
+      );
+    }
+
+    result = result.slice(0, first) + replace + result.slice(first + search.length);
+  });
+
+  return restoreNewlines(result, lineEnding(original));
+}
+
+/**
+ * Applies a unified diff with no fuzz. Rejects diffs whose context doesn't match.
+ */
+export function applyUnifiedDiff(path: string, original: string, diff: string): string {
+  const result = applyPatch(normalizeNewlines(original), normalizeNewlines(diff));
+  if (result === false) {
+    throw new PatchApplyError(path, "unified diff does not apply cleanly");
+  }
+  return restoreNewlines(result, lineEnding(original));
+}
+
+/**
+ * Builds a git-style unified diff between two versions of a file.
+ */
+export function createUnifiedDiff(path: string, original: string, updated: string): string {
+  return createTwoFilesPatch(
+    original ? `a/${path}` : "/dev/null",
+    `b/${path}`,
+    normalizeNewlines(original),
+    normalizeNewlines(updated),
+    undefined,
+    undefined,
+    { context: 3, headerOptions: FILE_HEADERS_ONLY },
+  );
+}
+
+/**
+ * Applies one proposed change against the real file content.
+ *
+ * @param original Current content of the file, or `null` if it doesn't exist
+ */
+export function applyFileChange(change: FileChange, original: string | null): AppliedFileChange {
+  const path = change.path;
+  let content: string;
+
+  if (original === null) {
+    if (change.content === undefined) {
+      throw new PatchApplyError(path, "file does not exist in the repository");
+    }
+    content = normalizeNewlines(change.content);
+  } else if (change.edits && change.edits.length > 0) {
+    content = applySearchReplace(path, original, change.edits);
+  } else if (change.diff) {
+    content = applyUnifiedDiff(path, original, change.diff);
+  } else {
+    // Whole-file rewrites of existing files are not accepted (truncation, unreviewable diffs)
+    throw new PatchApplyError(path, "existing files must be changed with edits or a diff");
+  }
+
+  const base = original === null ? "" : normalizeNewlines(original);
+  if (normalizeNewlines(content) === base) {
+    throw new PatchApplyError(path, "change is a no-op");
+  }
+
+  const diff = createUnifiedDiff(path, base, content);
+  const diffLines = diff.split("\n");
+
+  return {
+    path,
+    content,
+    diff,
+    isNew: original === null,
+    linesAdded: diffLines.filter((l) => l.startsWith("+") && !l.startsWith("+++")).length,
+    linesRemoved: diffLines.filter((l) => l.startsWith("-") && !l.startsWith("---")).length,
+  };
+}
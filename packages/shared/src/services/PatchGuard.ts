@@ -0,0 +1,106 @@
+import { z } from "zod";
+import { countPatchLines, matchesGlob } from "./RemediationPolicy.js";
+
+// CI config, lockfiles, migrations, secrets and Guardian's own verification recipe
+export const DEFAULT_PROTECTED_PATHS = [
+  ".github/**",
+  ".guardian.yml",
+  "**/package-lock.json",
+  "**/yarn.lock",
+  "**/pnpm-lock.yaml",
+  "**/poetry.lock",
+  "**/Pipfile.lock",
+  "**/Cargo.lock",
+  "**/go.sum",
+  "**/migrations/**",
+  "**/.env*",
+  "**/*.pem",
+  "**/*.key",
+  "**/secrets/**",
+];
+
+const globs = z.array(z.string().trim().min(1));
+
+/**
+ * Limits on what a generated patch may touch before a human has to look at it.
+ * Stored on `Project.patchGuard`.
+ */
+export const PatchGuardSchema = z.object({
+  // Paths a patch may not touch without approval (replaces the defaults when set)
+  protectedPaths: globs.default(DEFAULT_PROTECTED_PATHS),
+  // When not empty, files outside these globs need approval too
+  allowedPaths: globs.default([]),
+  maxFiles: z.number().int().min(1).default(10),
+  // Changed (+/-) lines across the whole diff
+  maxLines: z.number().int().min(1).default(300),
+});
+
+export type PatchGuard = z.infer<typeof PatchGuardSchema>;
+
+export const DEFAULT_PATCH_GUARD: PatchGuard = PatchGuardSchema.parse({});
+
+export type PatchGuardVerdict = {
+  passed: boolean;
+  files: number;
+  lines: number;
+  violations: string[];
+  checkedAt: string;
+};
+
+/**
+ * Reads a stored guard; missing or invalid configs fall back to the default.
+ */
+export function parsePatchGuard(value: unknown): PatchGuard {
+  if (!value) return DEFAULT_PATCH_GUARD;
+  const parsed = PatchGuardSchema.safeParse(value);
+  if (!parsed.success) {
+    console.warn("[Guard] Invalid patch guard, using default:", parsed.error.message);
+    return DEFAULT_PATCH_GUARD;
+  }
+  return parsed.data;
+}
+
+/**
+ * Checks a patch (as produced by the Patch agent) against the guard. A failed
+ * verdict doesn't block the fix, it takes away auto-PR: a human must approve.
+ */
+export function checkPatch(
+  guard: PatchGuard,
+  patchData: { files?: string[]; fileUpdates?: { path: string }[]; diff?: string },
+): PatchGuardVerdict {
+  const files = [
+    ...new Set([
+      ...(patchData.files || []),
+      ...(patchData.fileUpdates || []).map((update) => update.path),
+    ]),
+  ];
+  const lines = countPatchLines(patchData.diff || "");
+  const violations: string[] = [];
+
+  for (const file of files) {
+    const normalized = file.replace(/^\.?\//, "");
+    const protectedBy = guard.protectedPaths.find((glob) => matchesGlob(glob, normalized));
+    if (protectedBy) {
+      violations.push(`${file} is protected (${protectedBy})`);
+    } else if (
+      guard.allowedPaths.length > 0 &&
+      !guard.allowedPaths.some((glob) => matchesGlob(glob, normalized))
+    ) {
+      violations.push(`${file} is outside the allowed paths`);
+    }
+  }
+  if (files.length > guard.maxFiles) {
+    violations.push(`${files.length} files changed (max ${guard.maxFiles})`);
+  }
+  if (lines > guard.maxLines) {
+    violations.push(`${lines} lines changed (max ${guard.maxLines})`);
+  }
+
+  return {
+    passed: violations.length === 0,
+    files: files.length,
+    lines,
+    violations,
+    checkedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,231 @@
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+
+/**
+ * What the workflow does with an incident:
+ * - AUTO_PR: verify (with self-healing retries) and open the PR, no approval
+ * - REQUIRE_APPROVAL: stop in AWAITING_APPROVAL until approved (see ApprovalPolicy)
+ * - RCA_ONLY: analyse, then close as WONT_FIX without shipping a fix
+ * - IGNORE: close as WONT_FIX straight away
+ */
+export const REMEDIATION_ACTIONS = ["AUTO_PR", "REQUIRE_APPROVAL", "RCA_ONLY", "IGNORE"] as const;
+
+export type RemediationAction = (typeof REMEDIATION_ACTIONS)[number];
+
+const patterns = z.array(z.string().trim().min(1)).min(1).optional();
+
+/**
+ * A rule matches when every condition it sets holds. Omitted conditions match anything.
+ */
+export const RemediationRuleSchema = z.object({
+  name: z.string().trim().min(1),
+  // Incident source as recorded by Guardian, e.g. GITHUB, JENKINS, LOG_INGESTION
+  sources: z.array(z.string().trim().min(1)).min(1).optional(),
+  severities: z
+    .array(z.enum(["INFO", "WARNING", "CRITICAL"]))
+    .min(1)
+    .optional(),
+  // Globs on the service name and branch reported with the incident
+  services: patterns,
+  branches: patterns,
+  // Globs on the files the patch touches; matches if any file does.
+  // Known only once the patch exists.
+  files: patterns,
+  // Changed lines (+/-) in the patch. Known only once the patch exists.
+  minPatchLines: z.number().int().min(0).optional(),
+  maxPatchLines: z.number().int().min(0).optional(),
+  action: z.enum(REMEDIATION_ACTIONS),
+});
+
+/**
+ * Per-project remediation rules, stored on `Project.remediationPolicy`.
+ * The first matching rule wins; `defaultAction` applies when none does.
+ */
+export const RemediationPolicySchema = z.object({
+  rules: z.array(RemediationRuleSchema).default([]),
+  defaultAction: z.enum(REMEDIATION_ACTIONS).default("REQUIRE_APPROVAL"),
+});
+
+export type RemediationRule = z.infer<typeof RemediationRuleSchema>;
+export type RemediationPolicy = z.infer<typeof RemediationPolicySchema>;
+
+// Sources set by signed CI webhooks; anything else needs an approver by default
+export const DEFAULT_REMEDIATION_POLICY: RemediationPolicy = RemediationPolicySchema.parse({
+  rules: [{ name: "CI build failures", sources: ["GITHUB", "JENKINS"], action: "AUTO_PR" }],
+});
+
+/**
+ * What the rules are matched against. `files` and `patchLines` are undefined
+ * until the Patch agent has run.
+ */
+export type RemediationFacts = {
+  source: string;
+  severity: string;
+  service?: string;
+  branch?: string;
+  files?: string[];
+  patchLines?: number;
+};
+
+export type RemediationDecision = {
+  // null while a rule that needs the patch might still match (`final` is false)
+  action: RemediationAction | null;
+  // Name of the rule that fired; null for the default action
+  rule: string | null;
+  final: boolean;
+  // Every rule that was checked, in order (for dry runs and the incident timeline)
+  trace: { rule: string; matched: boolean; reason?: string }[];
+};
+
+/**
+ * Reads a stored policy; missing or invalid policies fall back to the default.
+ */
+export function parseRemediationPolicy(value: unknown): RemediationPolicy {
+  if (!value) return DEFAULT_REMEDIATION_POLICY;
+  const parsed = RemediationPolicySchema.safeParse(value);
+  if (!parsed.success) {
+    console.warn("[Policy] Invalid remediation policy, using default:", parsed.error.message);
+    return DEFAULT_REMEDIATION_POLICY;
+  }
+  return parsed.data;
+}
+
+/**
+ * Parses a policy document written as YAML (or JSON).
+ *
+ * @throws ZodError / YAML errors if the document is invalid
+ */
+export function parseRemediationPolicyDocument(text: string): RemediationPolicy {
+  return RemediationPolicySchema.parse(parseYaml(text) || {});
+}
+
+/**
+ * Minimal glob: `**` crosses directories, `*` and `?` don't. Case-sensitive.
+ */
+export function matchesGlob(pattern: string, value: string): boolean {
+  let regex = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" also matches zero directories
+      regex += pattern[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += pattern[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      regex += "[^/]*";
+    } else if (char === "?") {
+      regex += "[^/]";
+    } else {
+      regex += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${regex}$`).test(value);
+}
+
+/**
+ * Changed lines in a unified diff, not counting the file headers.
+ */
+export function countPatchLines(diff: string): number {
+  return diff
+    .split("\n")
+    .filter(
+      (line) =>
+        (line.startsWith("+") || line.startsWith("-")) &&
+        !line.startsWith("+++") &&
+        !line.startsWith("---"),
+    ).length;
+}
+
+/**
+ * Builds the facts for an incident, plus its patch once there is one.
+ */
+export function remediationFacts(
+  incident: { source: string; severity: string; metadata?: any },
+  patchData?: { files?: string[]; diff?: string },
+): RemediationFacts {
+  const metadata = incident.metadata || {};
+  return {
+    source: incident.source,
+    severity: incident.severity,
+    service: metadata.service,
+    branch: metadata.branch,
+    files: patchData ? patchData.files || [] : undefined,
+    patchLines: patchData ? countPatchLines(patchData.diff || "") : undefined,
+  };
+}
+
+// "no" with a reason, "unknown" if it depends on the patch, "yes" otherwise
+function matchRule(
+  rule: RemediationRule,
+  facts: RemediationFacts,
+): { result: "yes" } | { result: "no" | "unknown"; reason: string } {
+  const anyGlob = (globs: string[], value?: string) =>
+    value !== undefined && globs.some((g) => matchesGlob(g, value));
+
+  if (rule.sources && !rule.sources.includes(facts.source)) {
+    return { result: "no", reason: `source ${facts.source} not in [${rule.sources.join(", ")}]` };
+  }
+  if (rule.severities && !rule.severities.includes(facts.severity as any)) {
+    return {
+      result: "no",
+      reason: `severity ${facts.severity} not in [${rule.severities.join(", ")}]`,
+    };
+  }
+  if (rule.services && !anyGlob(rule.services, facts.service)) {
+    return { result: "no", reason: `service ${facts.service ?? "(none)"} doesn't match` };
+  }
+  if (rule.branches && !anyGlob(rule.branches, facts.branch)) {
+    return { result: "no", reason: `branch ${facts.branch ?? "(none)"} doesn't match` };
+  }
+
+  const needsPatch =
+    rule.files || rule.minPatchLines !== undefined || rule.maxPatchLines !== undefined;
+  if (needsPatch && (facts.files === undefined || facts.patchLines === undefined)) {
+    return { result: "unknown", reason: "depends on the patch" };
+  }
+  if (rule.files && !facts.files!.some((file) => anyGlob(rule.files!, file))) {
+    return { result: "no", reason: "no touched file matches" };
+  }
+  if (rule.minPatchLines !== undefined && facts.patchLines! < rule.minPatchLines) {
+    return {
+      result: "no",
+      reason: `patch has ${facts.patchLines} line(s), min ${rule.minPatchLines}`,
+    };
+  }
+  if (rule.maxPatchLines !== undefined && facts.patchLines! > rule.maxPatchLines) {
+    return {
+      result: "no",
+      reason: `patch has ${facts.patchLines} line(s), max ${rule.maxPatchLines}`,
+    };
+  }
+  return { result: "yes" };
+}
+
+/**
+ * Finds the action for an incident: the first matching rule, else the default.
+ * Before the patch exists, evaluation stops (`final: false`) at the first rule
+ * that could only be decided with it.
+ */
+export function evaluateRemediationPolicy(
+  policy: RemediationPolicy,
+  facts: RemediationFacts,
+): RemediationDecision {
+  const trace: RemediationDecision["trace"] = [];
+
+  for (const rule of policy.rules) {
+    const match = matchRule(rule, facts);
+    if (match.result === "unknown") {
+      trace.push({ rule: rule.name, matched: false, reason: match.reason });
+      return { action: null, rule: null, final: false, trace };
+    }
+    trace.push({
+      rule: rule.name,
+      matched: match.result === "yes",
+      reason: match.result === "no" ? match.reason : undefined,
+    });
+    if (match.result === "yes") {
+      return { action: rule.action, rule: rule.name, final: true, trace };
+    }
+  }
+
+  return { action: policy.defaultAction, rule: null, final: true, trace };
+}
@@ -0,0 +1,229 @@
+import { readFileSync, writeFileSync } from "fs";
+import { basename } from "path";
+import { redactSecrets } from "./SecretScanner.js";
+
+/**
+ * External services a workflow talks to. Their factories (createLLMProvider,
+ * createGitHubService, createSlackService, createVerificationService) go
+ * through withReplay(), so a fixture can stand in for all of them.
+ */
+export type ReplayService = "llm" | "github" | "slack" | "verification";
+
+export type RecordedCall = {
+  service: ReplayService;
+  method: string;
+  // Omitted in hand-written fixtures: such calls are matched by order only
+  args?: unknown[];
+  result?: unknown;
+  error?: { name: string; message: string; status?: number };
+};
+
+/**
+ * Calls recorded from a real run, in the order they were made.
+ */
+export type Fixture = {
+  name?: string;
+  recordedAt: string;
+  calls: RecordedCall[];
+};
+
+export type ReplayOptions = {
+  // Arguments never written to a fixture, by method: e.g. `{ verifyBuild: [1, 2] }` (envs, token)
+  secretArgs?: Record<string, number[]>;
+};
+
+/**
+ * A replayed call that has no recording left in the fixture.
+ */
+export class ReplayMissError extends Error {
+  constructor(service: ReplayService, method: string, fixture: string) {
+    super(`No recorded ${service}.${method} call left in fixture "${fixture}"`);
+    this.name = "ReplayMissError";
+  }
+}
+
+export interface ReplaySession {
+  mode: "record" | "replay";
+  wrap<T extends object>(service: ReplayService, target: T, options?: ReplayOptions): T;
+}
+
+// Fixtures are committed: credentials in arguments or results are masked,
+// callbacks (log streaming) are dropped
+function sanitize(value: unknown): unknown {
+  const json = JSON.stringify(value, (_key, v) => (typeof v === "function" ? undefined : v));
+  if (json === undefined) return undefined;
+  return JSON.parse(json, (_key, v) => (typeof v === "string" ? redactSecrets(v).text : v));
+}
+
+function sanitizeArgs(method: string, args: unknown[], options: ReplayOptions = {}): unknown[] {
+  const secret = options.secretArgs?.[method] || [];
+  return args.map((arg, i) =>
+    secret.includes(i) && arg !== undefined ? "[REDACTED]" : (sanitize(arg) ?? null),
+  );
+}
+
+// Key order doesn't matter when comparing arguments
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.keys(v)
+            .sort()
+            .map((k) => [k, v[k]]),
+        )
+      : v,
+  );
+}
+
+/**
+ * Proxies the (async) methods of `target` through `handle`. Other properties
+ * (e.g. `LLMProvider.name`) are read from the real object.
+ */
+function proxyMethods<T extends object>(
+  target: T,
+  handle: (method: string, args: unknown[], call: () => Promise<unknown>) => Promise<unknown>,
+): T {
+  return new Proxy(target, {
+    get(obj, prop) {
+      const value = Reflect.get(obj, prop, obj);
+      if (typeof prop !== "string" || typeof value !== "function") return value;
+      return (...args: unknown[]) => handle(prop, args, async () => value.apply(obj, args));
+    },
+  });
+}
+
+/**
+ * Calls the real services and writes every call to a fixture file, saved
+ * after each call so a crashed run still leaves a usable recording.
+ */
+export class FixtureRecorder implements ReplaySession {
+  mode = "record" as const;
+  private fixture: Fixture;
+
+  constructor(private path: string) {
+    this.fixture = {
+      name: basename(path).replace(/\.json$/, ""),
+      recordedAt: new Date().toISOString(),
+      calls: [],
+    };
+    console.log(`[Replay] Recording external calls to ${path}`);
+  }
+
+  wrap<T extends object>(service: ReplayService, target: T, options?: ReplayOptions): T {
+    return proxyMethods(target, async (method, args, call) => {
+      const recorded: RecordedCall = { service, method, args: sanitizeArgs(method, args, options) };
+      this.fixture.calls.push(recorded);
+      try {
+        const result = await call();
+        recorded.result = sanitize(result);
+        return result;
+      } catch (error: any) {
+        recorded.error = { name: error?.name, message: error?.message, status: error?.status };
+        throw error;
+      } finally {
+        this.save();
+      }
+    });
+  }
+
+  private save() {
+    try {
+      writeFileSync(this.path, JSON.stringify(this.fixture, null, 2) + "\n");
+    } catch (e) {
+      console.warn(`[Replay] Failed to save fixture ${this.path}:`, e);
+    }
+  }
+}
+
+/**
+ * Answers calls from a fixture instead of the real services. Each call takes
+ * the next unused recording of the same service and method, preferring one
+ * with identical arguments (prompts contain ids and timestamps, so most don't
+ * match exactly). Recorded errors are thrown again, with their HTTP status.
+ */
+export class FixtureReplayer implements ReplaySession {
+  mode = "replay" as const;
+  private fixture: Fixture;
+  private used = new Set<RecordedCall>();
+
+  constructor(fixture: Fixture | string) {
+    this.fixture =
+      typeof fixture === "string" ? JSON.parse(readFileSync(fixture, "utf-8")) : fixture;
+    this.fixture.name ??= typeof fixture === "string" ? basename(fixture) : "inline";
+  }
+
+  wrap<T extends object>(service: ReplayService, target: T, options?: ReplayOptions): T {
+    return proxyMethods(target, async (method, args) => {
+      const recorded = this.take(service, method, sanitizeArgs(method, args, options));
+      if (recorded.error) {
+        const error: any = new Error(recorded.error.message);
+        error.name = recorded.error.name || "Error";
+        if (recorded.error.status !== undefined) error.status = recorded.error.status;
+        throw error;
+      }
+      // A copy: callers may mutate what they get back
+      return recorded.result === undefined ? undefined : structuredClone(recorded.result);
+    });
+  }
+
+  /**
+   * Recorded calls the run never made (a test usually expects none).
+   */
+  unused(): RecordedCall[] {
+    return this.fixture.calls.filter((call) => !this.used.has(call));
+  }
+
+  private take(service: ReplayService, method: string, args: unknown[]): RecordedCall {
+    const candidates = this.fixture.calls.filter(
+      (call) => call.service === service && call.method === method && !this.used.has(call),
+    );
+    const key = canonical(args);
+    const recorded =
+      candidates.find((call) => call.args && canonical(call.args) === key) || candidates[0];
+    if (!recorded) {
+      throw new ReplayMissError(service, method, this.fixture.name || "fixture");
+    }
+    this.used.add(recorded);
+    return recorded;
+  }
+}
+
+// undefined = not read from the environment yet
+let session: ReplaySession | null | undefined;
+
+/**
+ * The active session: set with setReplaySession(), else GUARDIAN_REPLAY=<fixture>
+ * or GUARDIAN_RECORD=<fixture>. Null in normal operation.
+ */
+export function replaySession(): ReplaySession | null {
+  if (session === undefined) {
+    if (process.env.GUARDIAN_REPLAY) {
+      session = new FixtureReplayer(process.env.GUARDIAN_REPLAY);
+      console.log(`[Replay] Replaying external calls from ${process.env.GUARDIAN_REPLAY}`);
+    } else if (process.env.GUARDIAN_RECORD) {
+      session = new FixtureRecorder(process.env.GUARDIAN_RECORD);
+    } else {
+      session = null;
+    }
+  }
+  return session;
+}
+
+/**
+ * Services created after this call are recorded or replayed (null = real services).
+ */
+export function setReplaySession(value: ReplaySession | null) {
+  session = value;
+}
+
+/**
+ * Creates a service, recorded or replayed when a session is active.
+ */
+export function withReplay<T extends object>(
+  service: ReplayService,
+  create: () => T,
+  options?: ReplayOptions,
+): T {
+  const target = create();
+  return replaySession()?.wrap(service, target, options) ?? target;
+}
@@ -0,0 +1,137 @@
+import { E2BSandboxProvider } from "./E2BSandboxProvider.js";
+import { LocalSandboxProvider } from "./LocalSandboxProvider.js";
+
+export type SandboxBackend = "e2b" | "docker" | "local";
+
+export const SANDBOX_BACKENDS: SandboxBackend[] = ["e2b", "docker", "local"];
+
+// Run untrusted code (the repo plus a generated patch) on the API host
+const HOST_BACKENDS: SandboxBackend[] = ["docker", "local"];
+
+/**
+ * Backends a project may select. The host backends need the server to opt in
+ * with SANDBOX_HOST_BACKENDS (e.g. "docker" or "docker,local"); the server's
+ * own SANDBOX_PROVIDER counts as opted in.
+ */
+export function allowedSandboxBackends(): SandboxBackend[] {
+  const enabled = [
+    ...(process.env.SANDBOX_HOST_BACKENDS || "").split(",").map((b) => b.trim()),
+    process.env.SANDBOX_PROVIDER,
+  ];
+  return SANDBOX_BACKENDS.filter(
+    (backend) => !HOST_BACKENDS.includes(backend) || enabled.includes(backend),
+  );
+}
+
+export type SandboxCommandResult = {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+};
+
+export type SandboxCommandOptions = {
+  onStdout?: (text: string) => void;
+  onStderr?: (text: string) => void;
+  timeoutMs?: number;
+};
+
+/**
+ * A running sandbox. `run` resolves with the exit code instead of throwing on
+ * non-zero exits, so callers can treat every backend the same way.
+ */
+export interface SandboxSession {
+  id: string;
+  // Absolute path the repository is cloned into
+  repoDir: string;
+  run(command: string, options?: SandboxCommandOptions): Promise<SandboxCommandResult>;
+  writeFile(path: string, content: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface SandboxProvider {
+  name: SandboxBackend;
+  create(envs?: Record<string, string>): Promise<SandboxSession>;
+}
+
+export type StackDefinition = {
+  name: string;
+  trigger: string;
+  install: string;
+  test: string;
+};
+
+// Generic Stack Detection (shared by every backend)
+export const STACKS: StackDefinition[] = [
+  {
+    name: "Node.js",
+    trigger: "package.json",
+    install: "npm ci --prefer-offline --no-audit",
+    test: "npm test",
+  },
+  {
+    name: "Python",
+    trigger: "requirements.txt",
+    install: "pip install -r requirements.txt",
+    test: "pytest || python -m unittest discover",
+  },
+  {
+    name: "Go",
+    trigger: "go.mod",
+    install: "go mod download",
+    test: "go test ./...",
+  },
+  {
+    name: "Java (Maven)",
+    trigger: "pom.xml",
+    install: "mvn clean install -DskipTests",
+    test: "mvn test",
+  },
+  {
+    name: "Rust",
+    trigger: "Cargo.toml",
+    install: "cargo build",
+    test: "cargo test",
+  },
+];
+
+/**
+ * Detects the project stack by checking for trigger files in the cloned repo.
+ */
+export async function detectStack(session: SandboxSession): Promise<StackDefinition | null> {
+  for (const stack of STACKS) {
+    const check = await session.run(
+      `[ -f ${session.repoDir}/${stack.trigger} ] && echo "yes" || echo "no"`,
+    );
+    if (check.stdout.trim() === "yes") {
+      return stack;
+    }
+  }
+  return null;
+}
+
+/**
+ * Builds the sandbox backend for a project.
+ * Falls back to SANDBOX_PROVIDER, then E2B. A host backend the server hasn't
+ * enabled (see allowedSandboxBackends) falls back to E2B.
+ */
+export function createSandboxProvider(backend?: string | null): SandboxProvider {
+  let selected = (backend || process.env.SANDBOX_PROVIDER || "e2b") as SandboxBackend;
+  if (HOST_BACKENDS.includes(selected) && !allowedSandboxBackends().includes(selected)) {
+    console.warn(
+      `[Sandbox] Backend "${selected}" is not enabled on this server (SANDBOX_HOST_BACKENDS). Using E2B.`,
+    );
+    selected = "e2b";
+  }
+
+  switch (selected) {
+    case "docker":
+      return new LocalSandboxProvider("docker");
+    case "local":
+      return new LocalSandboxProvider("local");
+    case "e2b":
+      return new E2BSandboxProvider();
+    default:
+      console.warn(`[Sandbox] Unknown backend "${selected}". Falling back to E2B.`);
+      return new E2BSandboxProvider();
+  }
+}
@@ -0,0 +1,209 @@
+import { db } from "../db.js";
+import { AgentStatus } from "../index.js";
+
+/**
+ * A credential ("secret") or personal data ("pii") pattern. When `valueGroup`
+ * is set only that capture group is masked, so `DB_PASSWORD=...` keeps its key.
+ */
+export type SecretPattern = {
+  type: string;
+  kind: "secret" | "pii";
+  regex: RegExp;
+  valueGroup?: number;
+};
+
+// Specific token formats come first: once masked, the generic rules skip them
+export const SECRET_PATTERNS: SecretPattern[] = [
+  {
+    type: "private_key",
+    kind: "secret",
+    regex:
+      /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----(?:[\s\S]*?-----END (?:[A-Z]+ )*PRIVATE KEY-----)?/g,
+  },
+  {
+    type: "github_token",
+    kind: "secret",
+    regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g,
+  },
+  { type: "aws_access_key", kind: "secret", regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    type: "aws_secret_key",
+    kind: "secret",
+    regex: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})/gi,
+    valueGroup: 1,
+  },
+  { type: "slack_token", kind: "secret", regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  {
+    type: "slack_webhook",
+    kind: "secret",
+    regex: /https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9/]+/g,
+  },
+  { type: "google_api_key", kind: "secret", regex: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { type: "stripe_key", kind: "secret", regex: /\b[rs]k_live_[0-9A-Za-z]{16,}\b/g },
+  // Guardian's own log ingestion tokens and webhook secrets
+  { type: "guardian_token", kind: "secret", regex: /\b(?:gdn|whsec)_[0-9a-f]{32,}\b/g },
+  {
+    type: "jwt",
+    kind: "secret",
+    regex: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  },
+  {
+    type: "bearer_token",
+    kind: "secret",
+    regex: /\bBearer\s+([A-Za-z0-9._~+/-]{20,}=*)/g,
+    valueGroup: 1,
+  },
+  {
+    type: "url_credentials",
+    kind: "secret",
+    regex: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:([^\s@/]+)@/gi,
+    valueGroup: 1,
+  },
+  // password: "hunter22", "apiKey": "..." (quoted literals only, so code isn't masked)
+  {
+    type: "credential_assignment",
+    kind: "secret",
+    regex:
+      /[A-Za-z0-9_]*(?:password|passwd|secret|api_?key|access_?key|auth_?token|access_?token|private_?key)["']?\s*[:=]\s*["']([^"'\s[\]]{8,})["']/gi,
+    valueGroup: 1,
+  },
+  // DB_PASSWORD=hunter22 as found in env dumps and logs
+  {
+    type: "env_credential",
+    kind: "secret",
+    regex:
+      /\b[A-Z0-9_]*(?:PASSWORD|PASSWD|SECRET|TOKEN|API_KEY|APIKEY|ACCESS_KEY|PRIVATE_KEY)=([^\s"'[\]]{6,})/g,
+    valueGroup: 1,
+  },
+  { type: "email", kind: "pii", regex: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+];
+
+// Values that are obviously not real credentials
+const PLACEHOLDER = /^(?:x+|\*+|<[^>]*>|\$\{.*\}|\$\(.*\)|changeme|example|your[-_].*|\.\.\.)$/i;
+
+/**
+ * What was found, never the value itself.
+ */
+export type SecretFindingSummary = {
+  type: string;
+  kind: "secret" | "pii";
+  count: number;
+  // "path:line" for patches
+  location?: string;
+};
+
+/**
+ * Masks every match as `[REDACTED:<type>]`.
+ */
+export function redactSecrets(text: string): { text: string; findings: SecretFindingSummary[] } {
+  const counts = new Map<string, SecretFindingSummary>();
+  let redacted = text || "";
+
+  for (const pattern of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern.regex, (match: string, ...groups: any[]) => {
+      const value = pattern.valueGroup ? groups[pattern.valueGroup - 1] : match;
+      if (!value || PLACEHOLDER.test(value)) return match;
+
+      const finding = counts.get(pattern.type) || {
+        type: pattern.type,
+        kind: pattern.kind,
+        count: 0,
+      };
+      finding.count++;
+      counts.set(pattern.type, finding);
+      return match.replace(value, `[REDACTED:${pattern.type}]`);
+    });
+  }
+
+  return { text: redacted, findings: [...counts.values()] };
+}
+
+/**
+ * Masks a prompt before it leaves for a model provider. Findings are recorded
+ * on the incident when there is one.
+ */
+export async function redactPrompt(text: string, incidentId?: string): Promise<string> {
+  const { text: redacted, findings } = redactSecrets(text);
+  if (findings.length > 0) {
+    console.warn(`[Secrets] Redacted ${findings.map((f) => `${f.type} x${f.count}`).join(", ")}`);
+    if (incidentId) await recordSecretFindings(incidentId, "PROMPT", findings, "REDACTED");
+  }
+  return redacted;
+}
+
+/**
+ * Scans the lines a unified diff adds. Findings carry the file and line they
+ * were added at (from the `+++` and `@@` headers).
+ */
+export function scanPatchForSecrets(diff: string): SecretFindingSummary[] {
+  const findings: SecretFindingSummary[] = [];
+  let file = "";
+  let line = 0;
+
+  for (const text of (diff || "").split("\n")) {
+    if (text.startsWith("+++")) {
+      file = text.replace(/^\+\+\+ (?:b\/)?/, "").trim();
+      continue;
+    }
+    const hunk = text.match(/^@@ -\d+(?:,\d+)? \+(\d+)/);
+    if (hunk) {
+      line = Number(hunk[1]);
+      continue;
+    }
+    if (text.startsWith("-")) continue;
+
+    if (text.startsWith("+")) {
+      for (const finding of redactSecrets(text.slice(1)).findings) {
+        findings.push({ ...finding, location: file ? `${file}:${line}` : undefined });
+      }
+    }
+    line++;
+  }
+
+  return findings;
+}
+
+/**
+ * Stores findings on the incident (SecretFinding rows plus a "Secrets" entry on
+ * the timeline). Best-effort: a failure here must not stop the workflow.
+ */
+export async function recordSecretFindings(
+  incidentId: string,
+  stage: "PROMPT" | "PATCH",
+  findings: SecretFindingSummary[],
+  action: "REDACTED" | "BLOCKED",
+) {
+  if (!incidentId || findings.length === 0) return;
+
+  try {
+    await db.secretFinding.createMany({
+      data: findings.map((finding) => ({
+        incidentId,
+        stage,
+        type: finding.type,
+        location: finding.location,
+        count: finding.count,
+        action,
+      })),
+    });
+
+    const summary = findings
+      .map((f) => `- ${f.type}${f.location ? ` at ${f.location}` : ""} (x${f.count})`)
+      .join("\n");
+    await db.agentRun.create({
+      data: {
+        incidentId,
+        agentName: "Secrets",
+        status: action === "BLOCKED" ? AgentStatus.FAILED : AgentStatus.COMPLETED,
+        thoughts:
+          action === "BLOCKED"
+            ? `🔒 PR blocked: the patch adds secrets\n${summary}`
+            : `🔒 Redacted before sending to the model\n${summary}`,
+        output: { stage, action, findings } as any,
+        completedAt: new Date(),
+      },
+    });
+  } catch (e) {
+    console.warn("[Secrets] Failed to record findings:", e);
+  }
+}
@@ -106,11 +106,17 @@ export class SecretsManagerService {
   }
 
   /**
-   * Store Slack configuration for a project
+   * Store Slack configuration for a project. The signing secret verifies
+   * interactions (button clicks) sent back by Slack.
    */
-  async storeSlackConfig(projectId: string, botToken: string, channelId: string) {
+  async storeSlackConfig(
+    projectId: string,
+    botToken: string,
+    channelId: string,
+    signingSecret: string,
+  ) {
     const secretName = `devops-guardian/${projectId}/slack`;
-    return this.storeSecrets(secretName, { botToken, channelId });
+    return this.storeSecrets(secretName, { botToken, channelId, signingSecret });
   }
 
   /**
@@ -134,6 +140,27 @@ export class SecretsManagerService {
     return this.storeSecrets(secretName, { token });
   }
 
+  /**
+   * Store the API key for a project's own LLM endpoint
+   */
+  async storeLLMApiKey(projectId: string, apiKey: string) {
+    const secretName = `devops-guardian/${projectId}/llm`;
+    return this.storeSecrets(secretName, { apiKey });
+  }
+
+  /**
+   * Retrieve the API key for a project's own LLM endpoint
+   */
+  async getLLMApiKey(projectId: string): Promise<string | null> {
+    const secretName = `devops-guardian/${projectId}/llm`;
+    try {
+      const secrets = await this.getSecrets(secretName);
+      return secrets.apiKey || null;
+    } catch (error) {
+      return null;
+    }
+  }
+
   /**
    * Retrieve GitHub token for a project
    */
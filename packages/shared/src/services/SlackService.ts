@@ -1,4 +1,5 @@
 import { WebClient } from "@slack/web-api";
+import { withReplay } from "./Replay.js";
 
 export class SlackService {
   private client: WebClient;
@@ -16,14 +17,16 @@ export class SlackService {
    * Send approval request for production errors with detailed report file
    */
   /**
-   * Send approval request for production errors with Block Kit and File
+   * Send approval request for production errors with Block Kit and File.
+   * Returns the approval card's thread so follow-ups (reminders, escalations)
+   * can be posted under it.
    */
   async sendIncidentNotification(incident: {
     id: string;
     title: string;
     rcaAnalysis: string;
     patchSummary: string;
-  }) {
+  }): Promise<{ channelId: string; threadTs: string } | null> {
     try {
       // 1. Create detailed report content for file upload
       const reportContent = `# Incident Report: ${incident.title}
@@ -60,7 +63,7 @@ ${incident.patchSummary}
       const patchPreview = formatMrkdwn(incident.patchSummary.substring(0, 1000));
 
       // 4. Send Approval Card (Blocks)
-      await this.client.chat.postMessage({
+      const card = await this.client.chat.postMessage({
         channel: this.channelId,
         text: `🚨 Production Incident: ${incident.title}`, // Fallback
         blocks: [
@@ -131,8 +134,10 @@ ${incident.patchSummary}
         ],
       });
       console.log("[Slack] Enhanced notification sent for:", incident.id);
+      return card.ts ? { channelId: card.channel || this.channelId, threadTs: card.ts } : null;
     } catch (error) {
       console.error("[Slack] Failed to send notification:", error);
+      return null;
     }
   }
 
@@ -151,6 +156,33 @@ ${incident.patchSummary}
     }
   }
 
+  /**
+   * Post a plain message to a channel (defaults to the project channel)
+   */
+  async postMessage(text: string, channelId = this.channelId) {
+    try {
+      await this.client.chat.postMessage({ channel: channelId, text });
+    } catch (error) {
+      console.error("[Slack] Failed to post message:", error);
+    }
+  }
+
+  /**
+   * Link to a message, e.g. to point the on-call channel at an approval thread
+   */
+  async getPermalink(channelId: string, messageTs: string): Promise<string | null> {
+    try {
+      const result = await this.client.chat.getPermalink({
+        channel: channelId,
+        message_ts: messageTs,
+      });
+      return result.permalink || null;
+    } catch (error) {
+      console.error("[Slack] Failed to get permalink:", error);
+      return null;
+    }
+  }
+
   /**
    * Notify after CI/CD auto-fix completes
    */
@@ -243,3 +275,10 @@ ${incident.patchSummary}
     }
   }
 }
+
+/**
+ * A SlackService, recorded or replayed under a replay session.
+ */
+export function createSlackService(botToken: string, channelId: string): SlackService {
+  return withReplay("slack", () => new SlackService(botToken, channelId));
+}
@@ -0,0 +1,243 @@
+import type { GitHubService } from "./GitHubService.js";
+
+export type StackFrameLanguage = "javascript" | "python" | "go" | "java";
+
+export type StackFrame = {
+  language: StackFrameLanguage;
+  // Path as it appears in the trace (absolute container path, package path, ...)
+  file: string;
+  line: number;
+  column?: number;
+  function?: string;
+};
+
+export type ResolvedStackFrame = StackFrame & {
+  // Repo-relative path the frame was mapped to
+  path: string;
+};
+
+export type CodeContext = {
+  frames: ResolvedStackFrame[];
+  // Prompt-ready code windows around each frame
+  context: string;
+};
+
+// Frames from dependencies / runtimes are never useful to fetch from the repo
+const VENDOR_PATTERNS = [
+  /node_modules\//,
+  /^node:/,
+  /^internal\//,
+  /site-packages\//,
+  /dist-packages\//,
+  /^<.*>$/,
+  /\/usr\/(local\/)?lib\//,
+  /\/go\/pkg\/mod\//,
+  /^runtime\//,
+  /\/src\/runtime\//,
+];
+
+const JAVA_VENDOR_PREFIXES = ["java.", "javax.", "jdk.", "sun.", "kotlin.", "org.springframework."];
+
+/**
+ * Extracts application frames from JS/TS, Python, Go and Java stack traces, innermost first.
+ */
+export function parseStackTrace(text: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    let match: RegExpMatchArray | null;
+
+    // Python: File "/app/main.py", line 42, in handler
+    if ((match = line.match(/^File "([^"]+)", line (\d+)(?:, in (\S+))?/))) {
+      frames.push({
+        language: "python",
+        file: match[1],
+        line: Number(match[2]),
+        function: match[3],
+      });
+      continue;
+    }
+
+    // Java: at com.acme.orders.OrderService.place(OrderService.java:87)
+    if ((match = line.match(/^at ([\w$.]+)\.([\w$<>]+)\((\w+\.(?:java|kt)):(\d+)\)/))) {
+      const className = match[1];
+      if (JAVA_VENDOR_PREFIXES.some((prefix) => className.startsWith(prefix))) continue;
+      const packagePath = className.split(".").slice(0, -1).join("/");
+      frames.push({
+        language: "java",
+        file: packagePath ? `${packagePath}/${match[3]}` : match[3],
+        line: Number(match[4]),
+        function: match[2],
+      });
+      continue;
+    }
+
+    // JS/TS: at handler (/app/src/routes/user.ts:10:5) | at /app/src/index.js:3:1
+    if (
+      (match = line.match(/^at (?:(.+?) \()?(?:file:\/\/|webpack:\/\/\/?)?(.+?):(\d+):(\d+)\)?$/))
+    ) {
+      frames.push({
+        language: "javascript",
+        file: match[2],
+        line: Number(match[3]),
+        column: Number(match[4]),
+        function: match[1],
+      });
+      continue;
+    }
+
+    // Go: /go/src/app/handlers/user.go:42 +0x1d   (also "file.go:42:7: message" compiler output)
+    if ((match = line.match(/^(\S+\.go):(\d+)(?::(\d+))?/))) {
+      frames.push({
+        language: "go",
+        file: match[1],
+        line: Number(match[2]),
+        column: match[3] ? Number(match[3]) : undefined,
+      });
+    }
+  }
+
+  const appFrames = frames.filter(
+    (frame) => !VENDOR_PATTERNS.some((pattern) => pattern.test(frame.file)),
+  );
+  // Python prints the innermost frame last
+  return [
+    ...appFrames.filter((frame) => frame.language !== "python"),
+    ...appFrames.filter((frame) => frame.language === "python").reverse(),
+  ];
+}
+
+/**
+ * Collects every string inside a value (e.g. incident metadata) so traces
+ * nested in JSON log payloads keep their line breaks.
+ */
+export function collectTraceText(value: unknown, depth = 0): string {
+  if (depth > 5 || value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) {
+    return value.map((item) => collectTraceText(item, depth + 1)).join("\n");
+  }
+  if (typeof value === "object") {
+    return Object.values(value as Record<string, unknown>)
+      .map((item) => collectTraceText(item, depth + 1))
+      .join("\n");
+  }
+  return "";
+}
+
+/**
+ * Candidate repo paths for a frame, most specific first.
+ *
+ * Traces carry container/host paths ("/usr/src/app/src/routes/user.ts") or
+ * package paths ("com/acme/Foo.java"), so we try every suffix whose first
+ * segment exists at the repository root.
+ */
+export function candidatePaths(frame: StackFrame, rootEntries: Set<string>): string[] {
+  const segments = frame.file
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((segment) => segment && segment !== ".");
+  const candidates: string[] = [];
+
+  for (let i = 0; i < segments.length; i++) {
+    if (i === segments.length - 1 || rootEntries.has(segments[i])) {
+      candidates.push(segments.slice(i).join("/"));
+    }
+  }
+
+  if (frame.language === "java" && rootEntries.has("src")) {
+    const packagePath = segments.join("/");
+    const sourceRoots = ["src/main/java", "src/main/kotlin", "src"];
+    candidates.unshift(...sourceRoots.map((sourceRoot) => `${sourceRoot}/${packagePath}`));
+  }
+
+  return [...new Set(candidates)];
+}
+
+/**
+ * Renders `windowLines` lines on each side of `line`, with the failing line marked.
+ */
+function codeWindow(content: string, line: number, windowLines: number): string {
+  const lines = content.split(/\r?\n/);
+  const start = Math.max(1, line - windowLines);
+  const end = Math.min(lines.length, line + windowLines);
+  const width = String(end).length;
+
+  const rendered: string[] = [];
+  for (let n = start; n <= end; n++) {
+    const marker = n === line ? ">>" : "  ";
+    rendered.push(`${marker} ${String(n).padStart(width)} | ${lines[n - 1]}`);
+  }
+  return rendered.join("\n");
+}
+
+/**
+ * Parses stack traces in `text`, maps the frames to files in the repository
+ * and returns the code surrounding each frame. At most `maxLookups` files are
+ * fetched from GitHub: long traces with unresolvable paths would otherwise
+ * cost one API call per candidate path.
+ */
+export async function buildCodeContext(options: {
+  github: GitHubService;
+  owner: string;
+  repo: string;
+  text: string;
+  maxFrames?: number;
+  maxLookups?: number;
+  windowLines?: number;
+}): Promise<CodeContext> {
+  const { github, owner, repo, text } = options;
+  const maxFrames = options.maxFrames ?? 5;
+  const maxLookups = options.maxLookups ?? 20;
+  const windowLines = options.windowLines ?? 15;
+
+  const frames = parseStackTrace(text);
+  if (frames.length === 0) return { frames: [], context: "" };
+
+  const structure = await github.getRepoStructure(owner, repo, "");
+  const rootEntries = new Set<string>(
+    Array.isArray(structure) ? structure.map((entry: any) => entry.name) : [],
+  );
+
+  // Cache lookups: the same file shows up in many frames
+  const files = new Map<string, string | null>();
+  const fetchFile = async (path: string) => {
+    if (!files.has(path)) {
+      // Out of lookups: only files already fetched can still resolve frames
+      if (files.size >= maxLookups) return null;
+      try {
+        files.set(path, await github.getFileContent(owner, repo, path));
+      } catch {
+        files.set(path, null);
+      }
+    }
+    return files.get(path)!;
+  };
+
+  const resolved: ResolvedStackFrame[] = [];
+  const sections: string[] = [];
+  const seen = new Set<string>();
+
+  for (const frame of frames) {
+    if (resolved.length >= maxFrames) break;
+
+    for (const path of candidatePaths(frame, rootEntries)) {
+      const content = await fetchFile(path);
+      if (content === null) continue;
+
+      const key = `${path}:${frame.line}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        resolved.push({ ...frame, path });
+        sections.push(
+          `--- ${path}:${frame.line}${frame.function ? ` (in ${frame.function})` : ""} ---\n` +
+            codeWindow(content, frame.line, windowLines),
+        );
+      }
+      break;
+    }
+  }
+
+  return { frames: resolved, context: sections.join("\n\n") };
+}
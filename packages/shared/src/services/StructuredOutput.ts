@@ -0,0 +1,167 @@
+import { z } from "zod";
+
+// Characters of the invalid response echoed back in the repair prompt
+const MAX_ECHOED_RESPONSE = 4000;
+
+/**
+ * A model response that still didn't match its schema after the repair attempts.
+ */
+export class StructuredOutputError extends Error {
+  issues: string[];
+  response: string;
+
+  constructor(label: string, issues: string[], response: string) {
+    super(`${label} response did not match the expected schema: ${issues.join("; ")}`);
+    this.name = "StructuredOutputError";
+    this.issues = issues;
+    this.response = response;
+  }
+}
+
+/**
+ * JSON Schema for the zod types used by agent outputs (objects, arrays,
+ * strings, numbers, booleans, enums, optionals). Descriptions set with
+ * `.describe()` are kept: they are the field docs the model sees.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, any> {
+  const def: any = schema._def;
+  const describe = (json: Record<string, any>) =>
+    schema.description ? { ...json, description: schema.description } : json;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape;
+      const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+      return describe({
+        type: "object",
+        properties: Object.fromEntries(
+          Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value as z.ZodTypeAny)]),
+        ),
+        required,
+      });
+    }
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const json: Record<string, any> = { type: "array", items: toJsonSchema(def.type) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      return describe(json);
+    }
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return describe({ type: "string" });
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const json: Record<string, any> = { type: "number" };
+      for (const check of def.checks || []) {
+        if (check.kind === "int") json.type = "integer";
+        if (check.kind === "min") json.minimum = check.value;
+        if (check.kind === "max") json.maximum = check.value;
+      }
+      return describe(json);
+    }
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return describe({ type: "boolean" });
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return describe({ type: "string", enum: def.values });
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return describe(toJsonSchema(def.innerType));
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return describe(toJsonSchema(def.schema));
+    default:
+      throw new Error(`toJsonSchema: unsupported zod type ${def.typeName}`);
+  }
+}
+
+/**
+ * Reads the JSON object out of a model response. A response that is valid
+ * JSON is taken as is: its strings may contain code fences (e.g. a patch
+ * explanation), which must not be mistaken for a fence around the answer.
+ */
+function extractJson(response: string): { json: unknown } | { issue: string } {
+  try {
+    return { json: JSON.parse(response) };
+  } catch {
+    // Fall back to a fenced block or the outermost braces
+  }
+
+  const fenced = response.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const text = fenced ? fenced[1] : response;
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    return { issue: "response contains no JSON object" };
+  }
+
+  try {
+    return { json: JSON.parse(text.substring(start, end + 1)) };
+  } catch (error: any) {
+    return { issue: `invalid JSON: ${error.message}` };
+  }
+}
+
+/**
+ * Parses a model response against a schema. Tolerates a markdown code fence
+ * or prose around the JSON object, which models add even in JSON mode.
+ */
+export function parseStructured<T extends z.ZodTypeAny>(
+  schema: T,
+  response: string,
+): { success: true; data: z.infer<T> } | { success: false; issues: string[] } {
+  const extracted = extractJson(response);
+  if ("issue" in extracted) {
+    return { success: false, issues: [extracted.issue] };
+  }
+
+  const result = schema.safeParse(extracted.json);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`),
+    };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Calls the model with the schema (the provider's JSON mode) and validates
+ * the answer. An invalid answer gets a repair prompt listing what was wrong;
+ * if the repairs fail too, throws a StructuredOutputError.
+ */
+export async function generateStructured<T extends z.ZodTypeAny>(options: {
+  label: string; // For logs and errors, e.g. "RCA"
+  schema: T;
+  prompt: string;
+  call: (prompt: string, jsonSchema: Record<string, any>) => Promise<string>;
+  maxRepairs?: number;
+}): Promise<z.infer<T>> {
+  const { label, schema, prompt, call, maxRepairs = 1 } = options;
+  const jsonSchema = toJsonSchema(schema);
+
+  let response = await call(prompt, jsonSchema);
+  let parsed = parseStructured(schema, response);
+
+  for (let attempt = 1; !parsed.success && attempt <= maxRepairs; attempt++) {
+    console.warn(
+      `[StructuredOutput] ${label} response invalid (${parsed.issues.join("; ")}). Repair attempt ${attempt}/${maxRepairs}...`,
+    );
+    const repairPrompt = `${prompt}
+
+## ⚠️ YOUR PREVIOUS RESPONSE WAS INVALID
+It did not match the required JSON schema:
+${parsed.issues.map((issue) => `- ${issue}`).join("\n")}
+
+Previous response:
+${response.substring(0, MAX_ECHOED_RESPONSE)}
+
+Return ONLY a JSON object matching this schema, with every required field:
+${JSON.stringify(jsonSchema)}
+`;
+    response = await call(repairPrompt, jsonSchema);
+    parsed = parseStructured(schema, response);
+  }
+
+  if (!parsed.success) {
+    throw new StructuredOutputError(label, parsed.issues, response);
+  }
+  return parsed.data;
+}
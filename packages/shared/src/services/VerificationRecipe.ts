@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import type { GitHubService } from "./GitHubService.js";
+import type { StackDefinition } from "./SandboxProvider.js";
+
+export const GUARDIAN_CONFIG_PATH = ".guardian.yml";
+
+/**
+ * How to build and test a repository. Stored on `Project.verificationConfig`
+ * or read from `.guardian.yml` (either top-level or under a `verification:` key).
+ */
+export const VerificationRecipeSchema = z
+  .object({
+    name: z.string().default("Custom recipe"),
+    // Directory (relative to the repo root) every command runs in, e.g. "packages/api"
+    workdir: z.string().default("."),
+    setup: z.array(z.string()).default([]),
+    install: z.string().optional(),
+    build: z.string().optional(),
+    test: z.string().optional(),
+    lint: z.string().optional(),
+    // Per-command timeout
+    timeoutSeconds: z.number().int().positive().default(600),
+    // Env var names that must be present (from Secrets Manager or incident metadata)
+    env: z.array(z.string()).default([]),
+  })
+  .refine((r) => r.build || r.test, { message: "A recipe needs at least a build or test command" })
+  .refine((r) => !r.workdir.split("/").includes(".."), {
+    message: "workdir must stay inside the repository",
+  });
+
+export type VerificationRecipe = z.infer<typeof VerificationRecipeSchema>;
+
+export type VerificationRecipeSource = "project" | "repo" | "detected";
+
+/**
+ * Parses the contents of a `.guardian.yml` file into a recipe.
+ */
+export function parseGuardianConfig(yamlText: string): VerificationRecipe {
+  const doc = parseYaml(yamlText) || {};
+  return VerificationRecipeSchema.parse(doc.verification ?? doc);
+}
+
+/**
+ * Converts a detected STACKS entry into the recipe format.
+ */
+export function recipeFromStack(stack: StackDefinition): VerificationRecipe {
+  return VerificationRecipeSchema.parse({
+    name: stack.name,
+    install: stack.install,
+    test: stack.test,
+  });
+}
+
+/**
+ * Picks the verification recipe for a repository:
+ * 1. `Project.verificationConfig`
+ * 2. `.guardian.yml` at the repo root
+ * 3. null -> caller falls back to STACKS detection inside the sandbox
+ */
+export async function resolveVerificationRecipe(options: {
+  projectConfig?: unknown;
+  github?: GitHubService;
+  owner?: string;
+  repo?: string;
+}): Promise<{ recipe: VerificationRecipe | null; source: VerificationRecipeSource }> {
+  if (options.projectConfig) {
+    const parsed = VerificationRecipeSchema.safeParse(options.projectConfig);
+    if (parsed.success) {
+      return {
+        recipe: { ...parsed.data, name: `${parsed.data.name} (project)` },
+        source: "project",
+      };
+    }
+    console.warn("[Recipe] Ignoring invalid project verification config:", parsed.error.message);
+  }
+
+  if (options.github && options.owner && options.repo) {
+    try {
+      const content = await options.github.getFileContent(
+        options.owner,
+        options.repo,
+        GUARDIAN_CONFIG_PATH,
+      );
+      const recipe = parseGuardianConfig(content);
+      return {
+        recipe: { ...recipe, name: `${recipe.name} (${GUARDIAN_CONFIG_PATH})` },
+        source: "repo",
+      };
+    } catch (error: any) {
+      if (error.status !== 404) {
+        console.warn(`[Recipe] Failed to load ${GUARDIAN_CONFIG_PATH}:`, error.message);
+      }
+    }
+  }
+
+  return { recipe: null, source: "detected" };
+}
@@ -1,12 +1,75 @@
-import { Sandbox } from "@e2b/code-interpreter";
+import {
+  SandboxBackend,
+  SandboxProvider,
+  SandboxSession,
+  STACKS,
+  createSandboxProvider,
+  detectStack,
+} from "./SandboxProvider.js";
+import { VerificationRecipe, recipeFromStack } from "./VerificationRecipe.js";
+import { withReplay } from "./Replay.js";
+
+// Files whose change requires re-running the install step
+const MANIFEST_FILES = [
+  ...STACKS.map((stack) => stack.trigger),
+  "package-lock.json",
+  "pnpm-lock.yaml",
+  "yarn.lock",
+  "pyproject.toml",
+  "poetry.lock",
+  "go.sum",
+  "Cargo.lock",
+];
+
+export type FileUpdate = {
+  path: string;
+  content: string;
+};
+
+export type TestRunSummary = {
+  exitCode: number;
+  passed: boolean;
+  // Last lines of the test output, enough to show in a PR body or Slack thread
+  outputTail: string;
+};
+
+export type VerificationComparison = {
+  backend: SandboxBackend;
+  branch: string;
+  appliedFiles: string[];
+  before?: TestRunSummary;
+  after?: TestRunSummary;
+  // FIXED: red -> green, NO_REGRESSION: green -> green, NOT_FIXED: red -> red, REGRESSION: green -> red
+  outcome: "FIXED" | "NO_REGRESSION" | "NOT_FIXED" | "REGRESSION" | "NOT_COMPARED";
+};
+
+export type VerificationResult = {
+  success: boolean;
+  logs: string[];
+  comparison?: VerificationComparison;
+  // The sandbox session the build ran in (unset if it couldn't be created)
+  sandboxId?: string;
+};
 
 export class VerificationService {
+  private provider: SandboxProvider;
+
+  constructor(provider?: SandboxProvider) {
+    this.provider = provider || createSandboxProvider();
+  }
+
   /**
-   * Runs a verification build in an E2B sandbox.
+   * Runs a verification build in the configured sandbox backend (E2B, Docker or local).
+   *
+   * When `fileUpdates` are provided, the test suite runs twice: once on the
+   * cloned branch ("before") and once after the patch is committed on a
+   * scratch branch ("after"). Success means the patched tree is green.
    *
    * @param repoUrl Full URL to the repo (e.g. https://github.com/user/repo)
    * @param envs Environment variables to inject
    * @param branch Branch to checkout (optional, defaults to main/master)
+   * @param fileUpdates Patch produced by the Patch Agent (full file contents)
+   * @param recipe Project / .guardian.yml recipe. Falls back to STACKS detection when omitted.
    */
   async verifyBuild(
     repoUrl: string,
@@ -14,11 +77,13 @@ export class VerificationService {
     token?: string,
     branch: string = "main",
     onLog?: (log: string) => void,
-  ) {
+    fileUpdates: FileUpdate[] = [],
+    recipe?: VerificationRecipe | null,
+  ): Promise<VerificationResult> {
     console.log(`[Verification] Starting sandbox for ${repoUrl}...`);
     if (onLog) onLog(`[Verification] Starting sandbox for ${repoUrl}...`);
 
-    let sandbox: Sandbox | null = null;
+    let sandbox: SandboxSession | null = null;
     const logs: string[] = [];
 
     const log = (message: string) => {
@@ -28,8 +93,14 @@ export class VerificationService {
     };
 
     try {
-      sandbox = await Sandbox.create();
-      log(`[Verification] Sandbox created: ${(sandbox as any).id}`);
+      // Fail fast before paying for a sandbox
+      const missingEnv = recipe?.env.filter((key) => !envs[key]) || [];
+      if (missingEnv.length > 0) {
+        throw new Error(`Missing required env vars for verification: ${missingEnv.join(", ")}`);
+      }
+
+      sandbox = await this.provider.create(envs);
+      log(`[Verification] Sandbox created (${this.provider.name}): ${sandbox.id}`);
 
       // 1. Clone Repo
       let cloneUrl = repoUrl;
@@ -39,202 +110,292 @@ export class VerificationService {
       }
 
       log(`[Verification] Cloning repository...`);
-      const cloneCmd = await sandbox.commands.run(`git clone ${cloneUrl} /home/user/repo`);
+      const cloneCmd = await sandbox.run(`git clone ${cloneUrl} ${sandbox.repoDir}`);
 
       if (cloneCmd.exitCode !== 0) throw new Error(`Clone failed: ${cloneCmd.stderr}`);
       log("Cloned repository successfully.");
 
-      // 2. Generic Stack Detection
-      const STACKS = [
-        {
-          name: "Node.js",
-          trigger: "package.json",
-          install: "npm ci --prefer-offline --no-audit",
-          test: "npm test",
-        },
-        {
-          name: "Python",
-          trigger: "requirements.txt",
-          install: "pip install -r requirements.txt",
-          test: "pytest || python -m unittest discover",
-        },
-        {
-          name: "Go",
-          trigger: "go.mod",
-          install: "go mod download",
-          test: "go test ./...",
-        },
-        {
-          name: "Java (Maven)",
-          trigger: "pom.xml",
-          install: "mvn clean install -DskipTests",
-          test: "mvn test",
-        },
-        {
-          name: "Rust",
-          trigger: "Cargo.toml",
-          install: "cargo build",
-          test: "cargo test",
-        },
-      ];
-
-      let detectedStack = null;
-
-      for (const stack of STACKS) {
-        const check = await sandbox.commands.run(
-          `[ -f /home/user/repo/${stack.trigger} ] && echo "yes" || echo "no"`,
-        );
-        if (check.stdout.trim() === "yes") {
-          detectedStack = stack;
-          break;
+      // 2. Recipe: explicit (project settings / .guardian.yml) or Stack Detection (shared across backends)
+      let activeRecipe = recipe || null;
+      if (activeRecipe) {
+        log(`🟢 Using verification recipe: ${activeRecipe.name}`);
+      } else {
+        const detectedStack = await detectStack(sandbox);
+        if (detectedStack) {
+          activeRecipe = recipeFromStack(detectedStack);
+          log(`🟢 ${detectedStack.name} project detected.`);
         }
       }
 
-      if (detectedStack) {
-        log(`🟢 ${detectedStack.name} project detected.`);
-
-        // Install
-        log(`📦 Installing dependencies (${detectedStack.install})...`);
-        const installCmd = await sandbox.commands.run(
-          `cd /home/user/repo && ${detectedStack.install}`,
-          {
-            onStdout: (text) => onLog?.(`[build] ${text}`),
-            onStderr: (text) => onLog?.(`[build] ${text}`),
-          },
-        );
-
-        if (installCmd.exitCode !== 0) throw new Error(`Install failed: ${installCmd.stderr}`);
-        log("Dependencies installed.");
+      const hasPatch = fileUpdates.length > 0;
+      const comparison: VerificationComparison = {
+        backend: this.provider.name,
+        branch: "",
+        appliedFiles: [],
+        outcome: "NOT_COMPARED",
+      };
 
-        // Test with retry logic
-        log(`🧪 Running tests (${detectedStack.test})...`);
-        let testExitCode = 0;
-        let testLogs = "";
-
-        try {
-          const testCmd = await sandbox.commands.run(
-            `cd /home/user/repo && ${detectedStack.test}`,
-            {
-              onStdout: (text) => {
-                log(`[test] ${text}`);
-                testLogs += text;
-              },
-              onStderr: (text) => {
-                log(`[test] ${text}`);
-                testLogs += text;
-              },
-            },
-          );
-          testExitCode = testCmd.exitCode;
-        } catch (error: any) {
-          // E2B SDK throws on non-zero exit code
-          console.log(
-            `[Verification] Test command threw error (expected for failure): ${error.message}`,
-          );
-          testExitCode = error.result?.exitCode || 1;
-          const stdout = error.result?.stdout || "";
-          const stderr = error.result?.stderr || "";
-          testLogs += stdout + "\n" + stderr;
-          log(`[test-error] ${stderr}`);
+      if (activeRecipe) {
+        // Setup + Install + Build
+        for (const command of activeRecipe.setup) {
+          await this.runStep(sandbox, activeRecipe, "setup", command, log, onLog);
+        }
+        if (activeRecipe.install) {
+          await this.runStep(sandbox, activeRecipe, "install", activeRecipe.install, log, onLog);
+          log("Dependencies installed.");
+        }
+        if (activeRecipe.build) {
+          await this.runStep(sandbox, activeRecipe, "build", activeRecipe.build, log, onLog);
         }
 
-        // HACK: Detect "ImportError: ... from 'PIL'" caused by local vendored folder masking global install
-        // Check logs for "ImportError" and "PIL"
-        if (testExitCode !== 0 && (testLogs.includes("ImportError") || testLogs.includes("PIL"))) {
+        // Baseline run on the unpatched tree, so the PR can show red -> green
+        if (hasPatch && activeRecipe.test) {
+          log(`🧪 Running baseline tests before applying the patch...`);
+          comparison.before = await this.runTests(sandbox, activeRecipe, "before", log);
           log(
-            "⚠️ Detected potential PIL/Pillow conflict with local folder. Attempting auto-fix...",
+            comparison.before.passed
+              ? "Baseline tests passed."
+              : `Baseline tests failed (exit code ${comparison.before.exitCode}).`,
           );
+        }
+      }
 
-          // Rename local PIL folder if it exists
-          await sandbox.commands.run(`mv /home/user/repo/PIL /home/user/repo/PIL.bak || true`);
-          await sandbox.commands.run(
-            `mv /home/user/repo/Pillow /home/user/repo/Pillow.bak || true`,
-          );
+      // 3. Apply Patch on a scratch branch
+      if (hasPatch) {
+        comparison.branch = `guardian/verify-${Date.now()}`;
+        comparison.appliedFiles = await this.applyPatch(
+          sandbox,
+          comparison.branch,
+          fileUpdates,
+          log,
+        );
 
-          log("🔄 Retrying tests after renaming local PIL package...");
-          try {
-            // Verify rename happened
-            await sandbox.commands.run(`ls -F /home/user/repo`, {
-              onStdout: (t) => log(`[ls] ${t}`),
-            });
-
-            const retryCmd = await sandbox.commands.run(
-              `cd /home/user/repo && ${detectedStack.test}`,
-              {
-                onStdout: (text) => {
-                  log(`[test-retry] ${text}`);
-                  testLogs += text;
-                },
-                onStderr: (text) => {
-                  log(`[test-retry] ${text}`);
-                  testLogs += text;
-                },
-              },
-            );
-            testExitCode = retryCmd.exitCode;
-          } catch (retryError: any) {
-            log(`❌ Retry failed: ${retryError.message}`);
-            const rStdout = retryError.result?.stdout || "";
-            const rStderr = retryError.result?.stderr || "";
-            log(`[test-retry-error] stdout: ${rStdout}`);
-            log(`[test-retry-error] stderr: ${rStderr}`);
-            testLogs += rStdout + "\n" + rStderr;
-            testExitCode = retryError.result?.exitCode || 1;
+        if (activeRecipe) {
+          // Manifest changed -> dependencies must be reinstalled before testing
+          const touchesManifest = comparison.appliedFiles.some((f) =>
+            MANIFEST_FILES.includes(f.split("/").pop() || ""),
+          );
+          if (activeRecipe.install && touchesManifest) {
+            log("Patch touches the dependency manifest. Reinstalling...");
+            await this.runStep(sandbox, activeRecipe, "install", activeRecipe.install, log, onLog);
+          }
+          if (activeRecipe.build) {
+            await this.runStep(sandbox, activeRecipe, "build", activeRecipe.build, log, onLog);
           }
         }
+      }
+
+      if (activeRecipe) {
+        // Test with retry logic
+        if (activeRecipe.test) {
+          comparison.after = await this.runTests(
+            sandbox,
+            activeRecipe,
+            hasPatch ? "after" : "test",
+            log,
+          );
+          if (comparison.before) {
+            comparison.outcome = this.compareRuns(comparison.before, comparison.after);
+            log(`📊 Before/After: ${comparison.outcome}`);
+          }
 
-        // Handle "no tests found" scenario (common for Lambda/serverless projects)
-        if (testExitCode === 5 && testLogs.includes("NO TESTS RAN")) {
-          log(`⚠️ No tests found in repository. Running basic smoke test...`);
-
-          // For Python: Try importing main modules as a smoke test
-          if (detectedStack.name === "Python") {
-            try {
-              const smokeTest = await sandbox.commands.run(
-                `cd /home/user/repo && python -c "import sys; import importlib.util; [importlib.util.find_spec(f.replace('.py','')) for f in __import__('os').listdir('.') if f.endswith('.py') and not f.startswith('_')]"`,
-              );
-              if (smokeTest.exitCode === 0) {
-                log(`✅ Smoke test passed: All Python modules can be imported.`);
-                testExitCode = 0; // Override to success
-              } else {
-                log(`❌ Smoke test failed: ${smokeTest.stderr}`);
-              }
-            } catch (smokeErr: any) {
-              log(`⚠️ Smoke test inconclusive: ${smokeErr.message}`);
-              // Still allow it to pass if no tests exist
-              testExitCode = 0;
-            }
-          } else {
-            // For other stacks without tests, we'll allow it with a warning
-            log(`⚠️ Verification passed with warnings: No tests detected.`);
-            testExitCode = 0;
+          if (!comparison.after.passed) {
+            log(`❌ Tests Failed.`);
+            return { success: false, logs, comparison, sandboxId: sandbox.id };
           }
         }
 
-        if (testExitCode !== 0) {
-          log(`❌ Tests Failed.`);
-          return { success: false, logs };
+        if (activeRecipe.lint) {
+          await this.runStep(sandbox, activeRecipe, "lint", activeRecipe.lint, log, onLog);
         }
       } else {
         log(
-          "⚠️ No supported stack detected (Node/Python/Go/Java/Rust). Checking for structural integrity only...",
+          "⚠️ No supported stack detected (Node/Python/Go/Java/Rust). Add a .guardian.yml to configure verification. Checking for structural integrity only...",
         );
         // Basic check for file existence as fallback
-        const lsCmd = await sandbox.commands.run(`ls -R /home/user/repo`);
+        const lsCmd = await sandbox.run(`ls -R ${sandbox.repoDir}`);
         if (lsCmd.exitCode !== 0) throw new Error(`Repo is empty or inaccessible: ${lsCmd.stderr}`);
       }
 
       log("✅ Verification Passed!");
-      return { success: true, logs };
+      return { success: true, logs, comparison, sandboxId: sandbox.id };
     } catch (error: any) {
       console.error("[Verification] Error:", error);
       log(`System Error: ${error.message}`);
-      return { success: false, logs };
+      return { success: false, logs, sandboxId: sandbox?.id };
     } finally {
       if (sandbox) {
-        await sandbox.kill();
+        await sandbox.close();
         log("[Verification] Sandbox closed.");
       }
     }
   }
+
+  private workdir(sandbox: SandboxSession, recipe: VerificationRecipe) {
+    const relative = recipe.workdir.replace(/^\.?\/*/, "").replace(/\/+$/, "");
+    return relative ? `${sandbox.repoDir}/${relative}` : sandbox.repoDir;
+  }
+
+  /**
+   * Runs a setup/install/build/lint command. Throws when it fails.
+   */
+  private async runStep(
+    sandbox: SandboxSession,
+    recipe: VerificationRecipe,
+    step: string,
+    command: string,
+    log: (message: string) => void,
+    onLog?: (log: string) => void,
+  ) {
+    log(`📦 Running ${step} (${command})...`);
+    const result = await sandbox.run(`cd ${this.workdir(sandbox, recipe)} && ${command}`, {
+      onStdout: (text) => onLog?.(`[${step}] ${text}`),
+      onStderr: (text) => onLog?.(`[${step}] ${text}`),
+      timeoutMs: recipe.timeoutSeconds * 1000,
+    });
+
+    if (result.exitCode !== 0) {
+      throw new Error(`${step} failed (exit code ${result.exitCode}): ${result.stderr}`);
+    }
+  }
+
+  /**
+   * Writes the patched files into the sandbox and commits them on a scratch branch.
+   * Returns the list of paths that were applied.
+   */
+  private async applyPatch(
+    sandbox: SandboxSession,
+    branch: string,
+    fileUpdates: FileUpdate[],
+    log: (message: string) => void,
+  ): Promise<string[]> {
+    log(`🩹 Applying patch (${fileUpdates.length} file(s)) on branch ${branch}...`);
+
+    const checkout = await sandbox.run(`cd ${sandbox.repoDir} && git checkout -b ${branch}`);
+    if (checkout.exitCode !== 0) throw new Error(`Checkout failed: ${checkout.stderr}`);
+
+    const applied: string[] = [];
+    for (const update of fileUpdates) {
+      const relativePath = update.path.replace(/^\.?\/+/, "");
+      if (!relativePath || relativePath.split("/").includes("..")) {
+        throw new Error(`Refusing to write outside the repository: ${update.path}`);
+      }
+      await sandbox.writeFile(`${sandbox.repoDir}/${relativePath}`, update.content);
+      applied.push(relativePath);
+      log(`[patch] wrote ${relativePath}`);
+    }
+
+    const commit = await sandbox.run(
+      `cd ${sandbox.repoDir} && git add -A && git -c user.name="DevOps Guardian" -c user.email="guardian@devops-guardian.local" commit -q -m "guardian: verify patch"`,
+    );
+    if (commit.exitCode !== 0) throw new Error(`Commit failed: ${commit.stderr}`);
+    log("Patch applied.");
+
+    return applied;
+  }
+
+  private async runTests(
+    sandbox: SandboxSession,
+    recipe: VerificationRecipe,
+    phase: string,
+    log: (message: string) => void,
+  ): Promise<TestRunSummary> {
+    const repoDir = this.workdir(sandbox, recipe);
+    const timeoutMs = recipe.timeoutSeconds * 1000;
+    log(`🧪 Running tests (${recipe.test})...`);
+    let testLogs = "";
+
+    const testCmd = await sandbox.run(`cd ${repoDir} && ${recipe.test}`, {
+      timeoutMs,
+      onStdout: (text) => {
+        log(`[${phase}] ${text}`);
+        testLogs += text;
+      },
+      onStderr: (text) => {
+        log(`[${phase}] ${text}`);
+        testLogs += text;
+      },
+    });
+    let testExitCode = testCmd.exitCode;
+
+    // HACK: Detect "ImportError: ... from 'PIL'" caused by local vendored folder masking global install
+    // Check logs for "ImportError" and "PIL"
+    if (testExitCode !== 0 && (testLogs.includes("ImportError") || testLogs.includes("PIL"))) {
+      log("⚠️ Detected potential PIL/Pillow conflict with local folder. Attempting auto-fix...");
+
+      // Rename local PIL folder if it exists
+      await sandbox.run(`mv ${repoDir}/PIL ${repoDir}/PIL.bak || true`);
+      await sandbox.run(`mv ${repoDir}/Pillow ${repoDir}/Pillow.bak || true`);
+
+      log("🔄 Retrying tests after renaming local PIL package...");
+      // Verify rename happened
+      await sandbox.run(`ls -F ${repoDir}`, {
+        onStdout: (t) => log(`[ls] ${t}`),
+      });
+
+      const retryCmd = await sandbox.run(`cd ${repoDir} && ${recipe.test}`, {
+        timeoutMs,
+        onStdout: (text) => {
+          log(`[${phase}-retry] ${text}`);
+          testLogs += text;
+        },
+        onStderr: (text) => {
+          log(`[${phase}-retry] ${text}`);
+          testLogs += text;
+        },
+      });
+      testExitCode = retryCmd.exitCode;
+      if (testExitCode !== 0) {
+        log(`❌ Retry failed (exit code ${testExitCode}).`);
+      }
+    }
+
+    // Handle "no tests found" scenario (common for Lambda/serverless projects)
+    if (testExitCode === 5 && testLogs.includes("NO TESTS RAN")) {
+      log(`⚠️ No tests found in repository. Running basic smoke test...`);
+
+      // For Python: Try importing main modules as a smoke test
+      if (recipe.name === "Python") {
+        const smokeTest = await sandbox.run(
+          `cd ${repoDir} && python -c "import sys; import importlib.util; [importlib.util.find_spec(f.replace('.py','')) for f in __import__('os').listdir('.') if f.endswith('.py') and not f.startswith('_')]"`,
+        );
+        if (smokeTest.exitCode === 0) {
+          log(`✅ Smoke test passed: All Python modules can be imported.`);
+          testExitCode = 0; // Override to success
+        } else {
+          log(`❌ Smoke test failed: ${smokeTest.stderr}`);
+        }
+      } else {
+        // For other stacks without tests, we'll allow it with a warning
+        log(`⚠️ Verification passed with warnings: No tests detected.`);
+        testExitCode = 0;
+      }
+    }
+
+    return {
+      exitCode: testExitCode,
+      passed: testExitCode === 0,
+      outputTail: testLogs.trim().split("\n").slice(-20).join("\n"),
+    };
+  }
+
+  private compareRuns(
+    before: TestRunSummary,
+    after: TestRunSummary,
+  ): VerificationComparison["outcome"] {
+    if (!before.passed && after.passed) return "FIXED";
+    if (before.passed && after.passed) return "NO_REGRESSION";
+    if (before.passed && !after.passed) return "REGRESSION";
+    return "NOT_FIXED";
+  }
+}
+
+/**
+ * A VerificationService, recorded or replayed under a replay session. The
+ * envs and clone token of verifyBuild() never reach a fixture.
+ */
+export function createVerificationService(provider?: SandboxProvider): VerificationService {
+  return withReplay("verification", () => new VerificationService(provider), {
+    secretArgs: { verifyBuild: [1, 2] },
+  });
 }
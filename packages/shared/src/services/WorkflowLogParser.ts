@@ -0,0 +1,119 @@
+import { strFromU8, unzipSync } from "fflate";
+
+export type WorkflowAnnotation = {
+  level: string;
+  message: string;
+  title?: string;
+  path?: string;
+  startLine?: number;
+};
+
+export type FailedStepLog = {
+  name: string;
+  number?: number;
+  // Last lines of the step output, timestamps stripped
+  logTail: string;
+};
+
+export type FailedJobLog = {
+  id: number;
+  name: string;
+  url?: string;
+  failedSteps: FailedStepLog[];
+  annotations: WorkflowAnnotation[];
+};
+
+export type WorkflowFailureLogs = {
+  runId: number;
+  jobs: FailedJobLog[];
+};
+
+export const DEFAULT_LOG_TAIL_LINES = 150;
+
+// Each Actions log line is prefixed with an ISO timestamp
+const TIMESTAMP_PREFIX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z ?/;
+
+function cleanLines(text: string): string[] {
+  return text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .map((line) => line.replace(TIMESTAMP_PREFIX, ""));
+}
+
+function tailLines(lines: string[], count: number): string {
+  return lines.slice(-count).join("\n").trim();
+}
+
+/**
+ * Unzips the run log archive from `downloadWorkflowRunLogs`.
+ * Returns a map of archive path -> text, e.g. "build/3_Run tests.txt".
+ */
+export function unzipWorkflowLogs(archive: ArrayBuffer | Uint8Array): Map<string, string> {
+  const entries = unzipSync(archive instanceof Uint8Array ? archive : new Uint8Array(archive));
+  const files = new Map<string, string>();
+  for (const [name, data] of Object.entries(entries)) {
+    if (!name.endsWith("/")) files.set(name, strFromU8(data));
+  }
+  return files;
+}
+
+/**
+ * Finds the per-step log file for a job in the archive.
+ * Step files live under a folder named after the job: "<job>/<number>_<step>.txt".
+ */
+export function findStepLog(
+  files: Map<string, string>,
+  jobName: string,
+  stepNumber: number,
+): string | undefined {
+  // Characters GitHub can't use in archive paths are dropped from the folder name
+  const folder = jobName.replace(/[\\/:*?"<>|]/g, "");
+  for (const [name, content] of files) {
+    const [dir, file] = name.split("/");
+    if (file && dir === folder && file.startsWith(`${stepNumber}_`)) return content;
+  }
+  return undefined;
+}
+
+/**
+ * Extracts the failing part of a whole-job log: from the start of the step that
+ * printed the first `##[error]` line, through that error.
+ */
+export function extractFailingSection(jobLog: string, tail = DEFAULT_LOG_TAIL_LINES): string {
+  const lines = cleanLines(jobLog);
+  const errorIndex = lines.findIndex((line) => line.startsWith("##[error]"));
+  if (errorIndex === -1) return tailLines(lines, tail);
+
+  let start = errorIndex;
+  while (start > 0 && !lines[start].startsWith("##[group]Run ")) start--;
+
+  // Keep a few lines after the error (exit code, summary)
+  return tailLines(lines.slice(start, errorIndex + 5), tail);
+}
+
+/**
+ * Returns the last `tail` lines of a step log.
+ */
+export function stepLogTail(stepLog: string, tail = DEFAULT_LOG_TAIL_LINES): string {
+  return tailLines(cleanLines(stepLog), tail);
+}
+
+/**
+ * Renders failure logs for prompts and incident descriptions.
+ */
+export function formatWorkflowFailure(logs: WorkflowFailureLogs): string {
+  return logs.jobs
+    .map((job) => {
+      const steps = job.failedSteps
+        .map((step) => `### Step: ${step.name}\n${step.logTail || "(no output)"}`)
+        .join("\n\n");
+      const annotations = job.annotations
+        .map(
+          (a) =>
+            `- [${a.level}] ${a.path ? `${a.path}${a.startLine ? `:${a.startLine}` : ""} ` : ""}${a.title ? `${a.title}: ` : ""}${a.message}`,
+        )
+        .join("\n");
+      return `## Job: ${job.name}\n${steps}${annotations ? `\n\nAnnotations:\n${annotations}` : ""}`;
+    })
+    .join("\n\n");
+}
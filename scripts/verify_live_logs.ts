@@ -2,21 +2,25 @@ const io = require("socket.io-client");
 const fetch = require("node-fetch");
 
 const API_URL = "http://localhost:3001"; // API Port as per index.ts
-const PROJECT_ID = "test-project-123";
+const PROJECT_ID = process.env.PROJECT_ID || "test-project-123";
+// The project's webhook token (Monitoring setup in the dashboard)
+const WEBHOOK_TOKEN = process.env.WEBHOOK_TOKEN || "";
+// Sockets need a signed-in session: the guardian_session cookie from the dashboard
+const SESSION = process.env.GUARDIAN_SESSION || "";
 
 async function run() {
   console.log("1. Connecting to Socket...");
-  const socket = io(API_URL);
+  const socket = io(API_URL, { extraHeaders: { cookie: `guardian_session=${SESSION}` } });
 
   const socketPromise = new Promise((resolve, reject) => {
     socket.on("connect", () => {
       console.log("   Connected to socket!");
     });
 
-    socket.on("log:received", (data: { projectId: string; log: string | string[]; }) => {
-      if (data.projectId === PROJECT_ID && data.log.includes("TEST_LIVE_LOG")) {
-        console.log("3. SUCCESS: Received 'log:received' event!");
-        console.log("   Log:", data.log);
+    socket.on("incident:update", (incident: { id: string; description?: string }) => {
+      if (incident.description?.includes("TEST_LIVE_LOG")) {
+        console.log("3. SUCCESS: Received 'incident:update' event!");
+        console.log("   Incident:", incident.id);
         resolve(true);
       }
     });
@@ -29,12 +33,11 @@ async function run() {
 
   console.log("2. Sending Mock Log to Webhook...");
   try {
-    const res = await fetch(`${API_URL}/webhook/logs`, {
+    const res = await fetch(`${API_URL}/api/v1/logs/${PROJECT_ID}`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${WEBHOOK_TOKEN}` },
       body: JSON.stringify({
-        projectId: PROJECT_ID,
-        log: `[ERROR] TEST_LIVE_LOG: Database connection failed at ${new Date().toISOString()}`,
+        message: `[ERROR] TEST_LIVE_LOG: Database connection failed at ${new Date().toISOString()}`,
         source: "SimulationScript",
       }),
     });
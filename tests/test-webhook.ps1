@@ -1,6 +1,6 @@
-$headers = @{
-    "Content-Type" = "application/json"
-}
+# Webhook secret from Project Settings > Webhook Security
+param([string]$Secret = $env:GUARDIAN_WEBHOOK_SECRET)
+
 
 $body = @{
     repository = @{
@@ -15,4 +15,14 @@ $body = @{
     }
 } | ConvertTo-Json
 
+$hmac = New-Object System.Security.Cryptography.HMACSHA256
+$hmac.Key = [Text.Encoding]::UTF8.GetBytes($Secret)
+$hash = $hmac.ComputeHash([Text.Encoding]::UTF8.GetBytes($body))
+
+$headers = @{
+    "Content-Type" = "application/json"
+    "X-GitHub-Event" = "push"
+    "X-Hub-Signature-256" = "sha256=" + (($hash | ForEach-Object { $_.ToString("x2") }) -join "")
+}
+
 Invoke-RestMethod -Uri "http://localhost:3001/webhook/github" -Method Post -Headers $headers -Body $body